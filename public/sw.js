@@ -0,0 +1,53 @@
+// public/sw.js
+// Service worker: displays reminder notifications (see src/lib/notifications.ts), schedules
+// the upcoming ones with Notification Triggers where the browser has them, and focuses or
+// opens the app on the related page when one is clicked.
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+/* the page sends the whole upcoming schedule each time it changes: it replaces the previous one */
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "schedule-reminders") return;
+  event.waitUntil(scheduleReminders(event.data.reminders || []));
+});
+
+/* shown by the browser at their time, even once every tab of the app is closed */
+async function scheduleReminders(reminders) {
+  if (!("TimestampTrigger" in self)) return;
+  const now = Date.now();
+  const existing = await self.registration.getNotifications({ includeTriggered: true });
+  // only those still waiting for their time: shown ones stay in the tray
+  for (const n of existing) if (n.data?.reminder && n.timestamp > now) n.close();
+  for (const r of reminders) {
+    if (r.at <= now) continue;
+    await self.registration.showNotification(r.title, {
+      body: r.body,
+      tag: r.tag,
+      icon: "/vite.svg",
+      data: { url: r.url, reminder: true },
+      showTrigger: new self.TimestampTrigger(r.at),
+    });
+  }
+}
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/dashboard", self.location.origin).href;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+    const existing = windows.find((c) => new URL(c.url).origin === self.location.origin);
+    if (existing) {
+      await existing.focus();
+      if ("navigate" in existing) await existing.navigate(url).catch(() => undefined);
+      return;
+    }
+    await self.clients.openWindow(url);
+  })());
+});
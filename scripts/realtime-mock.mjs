@@ -0,0 +1,166 @@
+// scripts/realtime-mock.mjs
+// Local stand-in for the realtime server (src/lib/realtime.ts), dependency-free.
+//
+//   npm run mock:realtime                  # listens on :4001 (PORT=... to change)
+//   VITE_REALTIME_URL=http://localhost:4001 npm run dev
+//
+// - WebSocket: GET /realtime?group=<id>&token=<jwt>
+// - SSE:       GET /realtime/sse?group=<id>&token=<jwt>
+// - Push:      POST /realtime/emit  { "groupId": "...", "type": "task.created", "task": {...}, "actor": {...} }
+//
+// Presence is derived from the open connections (user id read from the JWT, not verified).
+// Task/member events are what the API would push after a mutation: send them with /realtime/emit.
+import { createServer } from "node:http";
+import { createHash } from "node:crypto";
+
+const PORT = Number(process.env.PORT) || 4001;
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+/** @type {Map<string, Set<{ user: { id: string; fullname: string }; send: (data: string) => void; close: () => void }>>} */
+const groups = new Map();
+
+function userFromToken(token) {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split(".")[1], "base64url").toString());
+    return { id: String(payload.id ?? payload._id ?? "anonyme"), fullname: payload.fullname ?? "" };
+  } catch {
+    return { id: "anonyme", fullname: "" };
+  }
+}
+
+function broadcast(groupId, message) {
+  const data = JSON.stringify({ groupId, ...message });
+  for (const client of groups.get(groupId) ?? []) client.send(data);
+}
+
+function broadcastPresence(groupId) {
+  const seen = new Map();
+  for (const c of groups.get(groupId) ?? []) seen.set(c.user.id, c.user);
+  broadcast(groupId, { type: "presence", members: [...seen.values()] });
+}
+
+function join(groupId, client) {
+  if (!groups.has(groupId)) groups.set(groupId, new Set());
+  groups.get(groupId).add(client);
+  broadcastPresence(groupId);
+  return () => {
+    groups.get(groupId)?.delete(client);
+    broadcastPresence(groupId);
+  };
+}
+
+function cors(res) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+}
+
+/* ---------------------------
+   WebSocket framing (text frames only, enough for this mock)
+   --------------------------- */
+
+function encodeFrame(text, opcode = 0x1) {
+  const payload = Buffer.from(text);
+  const len = payload.length;
+  const header = len < 126 ? Buffer.from([0x80 | opcode, len])
+    : len < 65536 ? Buffer.from([0x80 | opcode, 126, len >> 8, len & 0xff])
+    : Buffer.concat([Buffer.from([0x80 | opcode, 127]), (() => { const b = Buffer.alloc(8); b.writeBigUInt64BE(BigInt(len)); return b; })()]);
+  return Buffer.concat([header, payload]);
+}
+
+/* yields { opcode, payload } for every complete frame in `buffer`, returns the unread rest */
+function decodeFrames(buffer, onFrame) {
+  while (buffer.length >= 2) {
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let len = buffer[1] & 0x7f;
+    let offset = 2;
+    if (len === 126) { if (buffer.length < 4) break; len = buffer.readUInt16BE(2); offset = 4; }
+    else if (len === 127) { if (buffer.length < 10) break; len = Number(buffer.readBigUInt64BE(2)); offset = 10; }
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + len) break;
+    const payload = Buffer.from(buffer.subarray(offset, offset + len));
+    if (masked) for (let i = 0; i < len; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+    onFrame(opcode, payload);
+    buffer = buffer.subarray(offset + len);
+  }
+  return buffer;
+}
+
+/* ---------------------------
+   Server
+   --------------------------- */
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  cors(res);
+
+  if (req.method === "OPTIONS") { res.writeHead(204); res.end(); return; }
+
+  if (req.method === "GET" && url.pathname === "/realtime/sse") {
+    const groupId = url.searchParams.get("group");
+    if (!groupId) { res.writeHead(400); res.end(); return; }
+    res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" });
+    res.write(": connected\n\n");
+    const client = {
+      user: userFromToken(url.searchParams.get("token") ?? ""),
+      send: (data) => res.write(`data: ${data}\n\n`),
+      close: () => res.end(),
+    };
+    const keepAlive = setInterval(() => res.write(": ping\n\n"), 25000);
+    const leave = join(groupId, client);
+    req.on("close", () => { clearInterval(keepAlive); leave(); });
+    return;
+  }
+
+  if (req.method === "POST" && url.pathname === "/realtime/emit") {
+    let body = "";
+    req.on("data", (chunk) => { body += chunk; });
+    req.on("end", () => {
+      try {
+        const { groupId, ...message } = JSON.parse(body);
+        broadcast(String(groupId), message);
+        res.writeHead(204);
+      } catch {
+        res.writeHead(400);
+      }
+      res.end();
+    });
+    return;
+  }
+
+  res.writeHead(404);
+  res.end();
+});
+
+server.on("upgrade", (req, socket) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const groupId = url.searchParams.get("group");
+  const key = req.headers["sec-websocket-key"];
+  if (url.pathname !== "/realtime" || !groupId || !key) { socket.destroy(); return; }
+
+  const accept = createHash("sha1").update(key + WS_GUID).digest("base64");
+  socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+
+  const client = {
+    user: userFromToken(url.searchParams.get("token") ?? ""),
+    send: (data) => socket.write(encodeFrame(data)),
+    close: () => socket.end(encodeFrame("", 0x8)),
+  };
+  const leave = join(groupId, client);
+  let pending = Buffer.alloc(0);
+
+  socket.on("data", (chunk) => {
+    pending = decodeFrames(Buffer.concat([pending, chunk]), (opcode, payload) => {
+      if (opcode === 0x8) { client.close(); return; }
+      if (opcode === 0x9) socket.write(encodeFrame(payload.toString(), 0xa));
+      // text frames are the client's keep-alive pings: nothing to answer
+    });
+  });
+  socket.on("close", leave);
+  socket.on("error", () => socket.destroy());
+});
+
+server.listen(PORT, () => {
+  console.log(`realtime mock listening on http://localhost:${PORT}`);
+});
@@ -1,10 +1,43 @@
 // src/App.tsx
-import { createContext, useCallback, useContext, useEffect, useState } from "react";
-import type { ReactNode } from "react";
-import { Routes, Route, Link, useNavigate, useParams, Navigate } from "react-router-dom";
-import { FiLogOut, FiUser, FiPlus, FiCalendar, FiEdit2, FiTrash2, FiClock } from "react-icons/fi";
+import { createContext, useCallback, useContext, useEffect, useEffectEvent, useRef, useState, useSyncExternalStore } from "react";
+import type { ChangeEvent, Dispatch, FormEvent, KeyboardEvent, PointerEvent, ReactNode, SetStateAction } from "react";
+import { Routes, Route, Link, useNavigate, useParams, Navigate, useLocation, useSearchParams } from "react-router-dom";
+import { FiLogOut, FiUser, FiPlus, FiCalendar, FiEdit2, FiTrash2, FiClock, FiCloudOff, FiList, FiColumns, FiMove, FiDownload, FiUpload, FiRepeat, FiBell, FiMessageSquare, FiCheckSquare, FiPaperclip, FiLink, FiX, FiSearch, FiCommand, FiActivity, FiRefreshCw, FiBarChart2, FiPlay, FiSquare } from "react-icons/fi";
 import { HiOutlineUsers } from "react-icons/hi";
-import api from "./lib/api";
+import { MAX_ATTACHMENT_BYTES, activityApi, apiErrorMessage, apiErrorStatus, attachmentsApi, authApi, commentsApi, groupsApi, invitationsApi, tasksApi, timeApi } from "./lib/services";
+import type { ActivityQuery, LabelInput, TaskInput, TaskQuery } from "./lib/services";
+import { ACTIVITY_LABELS, ACTIVITY_TYPES, INVITATION_STATE_LABELS, LABEL_COLORS, LEAVE_TASK_LABELS, PRIORITY_LABELS, STATUS_LABELS, TASK_PRIORITIES, TASK_STATUSES, idOf, invitationState, isTaskPriority, isTaskStatus, sameId } from "./lib/models";
+import type { Activity, ActivityType, Attachment, ChecklistItem, Comment, Departure, Group, GroupRole, Invitation, InvitationState, Label, LabelColor, LeaveTaskPolicy, Member, Task, TaskPriority, TaskStatus, TimeEntry, User } from "./lib/models";
+import { DAY_MS, GROUP_COLORS, PERSONAL_COLOR, addDays, eventsOnDay, isSameDay, layoutLanes, minutesInDay, parseDateKey, shiftAnchor, snapMinutes, startOfDay, startOfWeek, toDateKey, toEvent, visibleDays } from "./lib/calendar";
+import type { CalendarEvent, CalendarMode } from "./lib/calendar";
+import { parseIcs, tasksToIcs } from "./lib/ics";
+import type { IcsEvent } from "./lib/ics";
+import { downloadFile, downloadUrl, formatBytes, slugify } from "./lib/files";
+import { WEEKDAYS, WEEKDAY_SHORT, describeRecurrence, expandOccurrences, expandTasks, parseRRule, toRRule } from "./lib/recurrence";
+import type { Frequency, Recurrence, RecurrenceScope, Weekday } from "./lib/recurrence";
+import { FLOW_DAYS, WORKLOAD_WEEKS, groupStats, summarizeTasks } from "./lib/stats";
+import { IMPORT_FIELDS, IMPORT_FIELD_LABELS, exportJson, guessMapping, membersToCsv, readImportFile, readImportRow, tasksToCsv, toCsv } from "./lib/transfer";
+import type { ExportContext, ImportMapping, ImportTable, ImportedRow } from "./lib/transfer";
+import type { FlowPoint, WorkloadRow } from "./lib/stats";
+import { buildTimesheet, formatClock, getActiveTimer, onTimerChange, resumeTimer, startTimer, stopTimer, weekRange } from "./lib/timetracking";
+import type { TimesheetRow } from "./lib/timetracking";
+import { REMINDER_OFFSETS, clearReminders, describeDue, describeReminder, forgetReminders, formatOffset, getReminders, onReminderEvent, renameReminders, saveReminders, startReminders, syncReminders, upcomingReminders } from "./lib/reminders";
+import type { DueReminder, Reminder, ReminderAnchor } from "./lib/reminders";
+import { notificationPermission, notificationsEnabled, notificationsScheduled, onNotificationSettingsChange, registerServiceWorker, requestNotificationPermission, scheduleNotifications, setNotificationsEnabled, showNotification } from "./lib/notifications";
+import type { NotificationState, ScheduledNotification } from "./lib/notifications";
+import { ROLE_LABELS, assignableRoles, can, canDeleteTask, canManageMember, roleOf } from "./lib/permissions";
+import { connectGroupChannel } from "./lib/realtime";
+import type { RealtimeEvent, RealtimeStatus } from "./lib/realtime";
+import { getNow, subscribeClock, watchInstants } from "./lib/clock";
+import { encodeQr } from "./lib/qrcode";
+import { mentionQuery, mentionedIds, splitMentions, suggestMembers } from "./lib/mentions";
+import { markdownToText, parseMarkdown } from "./lib/markdown";
+import type { MdInline } from "./lib/markdown";
+import { containsFolded, fuzzyScore } from "./lib/fuzzy";
+import { clearOfflineData, onOfflineEvent, pendingCount, startOfflineSync } from "./lib/offline";
+import { UNDO_DELAY_MS, cancelCommit, clearHistory, deferCommit, flushCommits, forgetChange, historyVersion, isRemoved, onHistoryChange, recordChange, redoChange, startHistory, undoChange } from "./lib/history";
+import type { Change } from "./lib/history";
+import { claimLocalData, clearSession, getUserIdFromToken, hasSession, onSessionEvent, scheduleExpiry, startSession } from "./lib/session";
 
 /* ---------------------------
    Profile context (open drawer)
@@ -12,12 +45,17 @@ import api from "./lib/api";
 const ProfileContext = createContext<{ open: () => void }>({ open: () => {} });
 export const useProfile = () => useContext(ProfileContext);
 
+/* command palette, opened from Header or with Ctrl/Cmd+K anywhere */
+const PaletteContext = createContext<{ open: () => void }>({ open: () => {} });
+const usePalette = () => useContext(PaletteContext);
+
 /* ==========================
    Alerts (top-centered toasts + confirm modal)
    ========================== */
 
 type ToastType = "success" | "error" | "info" | "warning";
-type ToastItem = { id: string; type?: ToastType; title?: string; message: string; timeout?: number | null };
+/* `action`: one button next to the ✕ (e.g. "Annuler"); clicking it also closes the toast */
+type ToastItem = { id: string; type?: ToastType; title?: string; message: string; timeout?: number | null; action?: { label: string; run: () => void } };
 
 type ConfirmPayload = {
   id: string;
@@ -28,10 +66,22 @@ type ConfirmPayload = {
   resolve: (v: boolean) => void;
 };
 
+type ChoiceOption<T extends string = string> = { value: T; label: string };
+
+type ChoicePayload = {
+  title?: string;
+  message: string;
+  options: ChoiceOption[];
+  cancelLabel: string;
+  resolve: (v: string | null) => void;
+};
+
 type AlertsContextType = {
   showToast: (t: Omit<ToastItem, "id">) => string;
   hideToast: (id: string) => void;
   confirm: (opts: { title?: string; message: string; okLabel?: string; cancelLabel?: string }) => Promise<boolean>;
+  /* like confirm, with several answers; resolves to the chosen value or null when cancelled */
+  choose: <T extends string>(opts: { title?: string; message: string; options: ChoiceOption<T>[]; cancelLabel?: string }) => Promise<T | null>;
 };
 
 const AlertsContext = createContext<AlertsContextType | null>(null);
@@ -44,6 +94,7 @@ export const useAlerts = () => {
 function AlertsProvider({ children }: { children: ReactNode }) {
   const [toasts, setToasts] = useState<ToastItem[]>([]);
   const [confirmModal, setConfirmModal] = useState<ConfirmPayload | null>(null);
+  const [choiceModal, setChoiceModal] = useState<ChoicePayload | null>(null);
 
   const showToast = useCallback((payload: Omit<ToastItem, "id">) => {
     const id = Math.random().toString(36).slice(2, 9);
@@ -75,6 +126,22 @@ function AlertsProvider({ children }: { children: ReactNode }) {
     });
   }, []);
 
+  const choose = useCallback(<T extends string>(opts: { title?: string; message: string; options: ChoiceOption<T>[]; cancelLabel?: string }) => {
+    return new Promise<T | null>((resolve) => {
+      setChoiceModal({
+        title: opts.title,
+        message: opts.message,
+        options: opts.options,
+        cancelLabel: opts.cancelLabel ?? "Annuler",
+        resolve: (v: string | null) => {
+          // the modal only answers with one of `options`
+          resolve(opts.options.find((o) => o.value === v)?.value ?? null);
+          setChoiceModal(null);
+        },
+      });
+    });
+  }, []);
+
   function iconForType(t?: ToastType) {
     if (t === "success") return "✔️";
     if (t === "error") return "❌";
@@ -83,7 +150,7 @@ function AlertsProvider({ children }: { children: ReactNode }) {
   }
 
   return (
-    <AlertsContext.Provider value={{ showToast, hideToast, confirm }}>
+    <AlertsContext.Provider value={{ showToast, hideToast, confirm, choose }}>
       {children}
 
       {/* Toasts top-center */}
@@ -98,6 +165,7 @@ function AlertsProvider({ children }: { children: ReactNode }) {
                 {t.title && <div className="text-sm font-semibold text-gray-800 truncate">{t.title}</div>}
                 <div className="text-sm text-gray-700 truncate">{t.message}</div>
               </div>
+              {t.action && <button onClick={() => { t.action!.run(); hideToast(t.id); }} className="text-sm font-semibold text-emerald-600 shrink-0 self-center">{t.action.label}</button>}
               <button onClick={() => hideToast(t.id)} className="text-gray-400 ml-2">✕</button>
             </div>
           ))}
@@ -119,6 +187,24 @@ function AlertsProvider({ children }: { children: ReactNode }) {
           </div>
         </div>
       )}
+
+      {/* Choice modal (several answers) */}
+      {choiceModal && (
+        <div className="fixed inset-0 z-60 flex items-center justify-center bg-black/40 p-4">
+          <div className="w-full max-w-md bg-white rounded-3xl shadow-2xl overflow-hidden">
+            <div className="p-6">
+              {choiceModal.title && <div className="text-lg font-bold mb-2">{choiceModal.title}</div>}
+              <div className="text-sm text-gray-700 mb-4">{choiceModal.message}</div>
+              <div className="flex flex-col gap-2">
+                {choiceModal.options.map((o) => (
+                  <button key={o.value} onClick={() => choiceModal.resolve(o.value)} className="px-4 py-2 rounded-xl bg-emerald-600 text-white text-sm">{o.label}</button>
+                ))}
+                <button onClick={() => choiceModal.resolve(null)} className="px-4 py-2 rounded-xl border border-gray-200 bg-white text-sm">{choiceModal.cancelLabel}</button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
     </AlertsContext.Provider>
   );
 }
@@ -149,20 +235,8 @@ function nowLocalMin() {
   return local.toISOString().slice(0, 16);
 }
 
-function getUserIdFromToken() {
-  try {
-    const token = localStorage.getItem("token");
-    if (!token) return null;
-    const payload = JSON.parse(atob(token.split(".")[1]));
-    return payload.id || payload._id || null;
-  } catch {
-    return null;
-  }
-}
-
-function computeStatusFromDates(start?: string | null, end?: string | null) {
+function computeStatusFromDates(start?: string | null, end?: string | null, now = Date.now()) {
   if (!start && !end) return "En attente";
-  const now = Date.now();
   const s = start ? new Date(start).getTime() : null;
   const e = end ? new Date(end).getTime() : null;
 
@@ -174,6 +248,230 @@ function computeStatusFromDates(start?: string | null, end?: string | null) {
   return "En attente";
 }
 
+/* explicit status wins; otherwise fall back to the date-based one */
+function effectiveStatus(t: Task, now = Date.now()): TaskStatus {
+  if (t.status) return t.status;
+  const label = computeStatusFromDates(t.startDate, t.endDate, now);
+  return label === "En cours" ? "en-cours" : label === "Terminée" ? "terminee" : "en-attente";
+}
+
+const STATUS_BADGE: Record<TaskStatus, BadgeColor> = {
+  "en-attente": "yellow",
+  "en-cours": "green",
+  "terminee": "gray",
+};
+
+/* an end date within this delay, on a task not marked done, shows as "Bientôt" */
+const DUE_SOON_MS = 24 * 60 * 60 * 1000;
+
+type Deadline = "overdue" | "due-soon" | null;
+
+/* only an explicit "Terminée" clears a deadline: a date-derived one means nobody closed the task */
+function deadlineState(t: Task, now: number): Deadline {
+  if (!t.endDate || t.status === "terminee") return null;
+  const end = new Date(t.endDate).getTime();
+  if (now >= end) return "overdue";
+  return end - now <= DUE_SOON_MS ? "due-soon" : null;
+}
+
+/* instants at which the status or deadline state of a task changes */
+function statusInstants(t: Task) {
+  const out: number[] = [];
+  if (t.startDate) out.push(new Date(t.startDate).getTime());
+  if (t.endDate) out.push(new Date(t.endDate).getTime(), new Date(t.endDate).getTime() - DUE_SOON_MS);
+  return out;
+}
+
+function formatDuration(ms: number) {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return "moins d'1 min";
+  const d = Math.floor(minutes / (24 * 60));
+  const h = Math.floor((minutes % (24 * 60)) / 60);
+  const m = minutes % 60;
+  if (d) return h ? `${d} j ${h} h` : `${d} j`;
+  if (h) return m ? `${h} h ${String(m).padStart(2, "0")}` : `${h} h`;
+  return `${m} min`;
+}
+
+/* current time from the shared clock; re-renders at the given instants and on each minute */
+function useNow(instants: number[]) {
+  const now = useSyncExternalStore(subscribeClock, getNow);
+  const [key] = useState(() => Symbol("clock"));
+  const signature = instants.join(",");
+  useEffect(() => watchInstants(key, signature ? signature.split(",").map(Number) : []), [key, signature]);
+  return now;
+}
+
+/* "all" | "mine" | "unassigned" | a member id */
+type AssigneeFilter = string;
+
+function filterByAssignee(tasks: Task[], filter: AssigneeFilter, userId: string | null) {
+  if (filter === "all") return tasks;
+  if (filter === "unassigned") return tasks.filter((t) => t.assigneeIds.length === 0);
+  const who = filter === "mine" ? userId : filter;
+  return tasks.filter((t) => !!who && t.assigneeIds.includes(who));
+}
+
+/* status/priority/label filter; "" means any */
+type TaskFilter = { status: TaskStatus | ""; priority: TaskPriority | ""; label: string };
+
+const NO_FILTER: TaskFilter = { status: "", priority: "", label: "" };
+
+type TaskSort = "created" | "end" | "priority" | "title";
+
+const TASK_SORTS: { id: TaskSort; label: string }[] = [
+  { id: "created", label: "Plus récentes" },
+  { id: "end", label: "Échéance" },
+  { id: "priority", label: "Priorité" },
+  { id: "title", label: "Titre (A → Z)" },
+];
+
+function isTaskSort(v: unknown): v is TaskSort {
+  return TASK_SORTS.some((s) => s.id === v);
+}
+
+function filterTasks(tasks: Task[], f: TaskFilter, now = Date.now()) {
+  return tasks.filter((t) =>
+    (!f.status || effectiveStatus(t, now) === f.status) &&
+    (!f.priority || t.priority === f.priority) &&
+    (!f.label || t.labelIds.includes(f.label)));
+}
+
+/* tasks without end date go last when sorting by due date */
+function sortTasks(tasks: Task[], sort: TaskSort) {
+  if (sort === "created") return sortByCreatedDesc(tasks);
+  const end = (t: Task) => (t.endDate ? new Date(t.endDate).getTime() : Number.MAX_SAFE_INTEGER);
+  return tasks.slice().sort((a, b) => {
+    if (sort === "end") return end(a) - end(b);
+    if (sort === "priority") return TASK_PRIORITIES.indexOf(b.priority) - TASK_PRIORITIES.indexOf(a.priority) || end(a) - end(b);
+    return a.title.localeCompare(b.title, "fr", { sensitivity: "base" });
+  });
+}
+
+/* filter/sort/page of a task list, kept in the query string (?status=en-cours&sort=end&page=2)
+   so a reload or a shared link shows the same view */
+function useTaskListParams() {
+  const [params, setParams] = useSearchParams();
+  const status = params.get("status");
+  const priority = params.get("priority");
+  const sort = params.get("sort");
+  const filter: TaskFilter = {
+    status: isTaskStatus(status) ? status : "",
+    priority: isTaskPriority(priority) ? priority : "",
+    label: params.get("label") ?? "",
+  };
+
+  /* null/"" removes the key; any filter change goes back to page 1 */
+  function update(changes: Record<string, string | null>) {
+    setParams((prev) => {
+      const next = new URLSearchParams(prev);
+      for (const [key, value] of Object.entries(changes)) {
+        if (value) next.set(key, value);
+        else next.delete(key);
+      }
+      return next;
+    }, { replace: true });
+  }
+
+  return {
+    filter,
+    sort: isTaskSort(sort) ? sort : "created",
+    page: Math.max(1, Number.parseInt(params.get("page") ?? "", 10) || 1),
+    assignee: (params.get("assignee") || "all") as AssigneeFilter,
+    setFilter: (f: TaskFilter) => update({ status: f.status, priority: f.priority, label: f.label, page: null }),
+    setSort: (s: TaskSort) => update({ sort: s === "created" ? null : s, page: null }),
+    setAssignee: (a: AssigneeFilter) => update({ assignee: a === "all" ? null : a, page: null }),
+    setPage: (p: number) => update({ page: p > 1 ? String(p) : null }),
+  };
+}
+
+/*
+ * Pages 1 to `page` of a task list, refetched when the query changes and extended by one
+ * page when `page` grows ("Charger plus"). `setTasks` is for local merges (create, edit,
+ * realtime); `reload` fetches the loaded pages again.
+ */
+function usePagedTasks(groupId: string | null | undefined, query: TaskQuery, page: number) {
+  const { showToast } = useAlerts();
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loaded, setLoaded] = useState<{ key: string; pages: number; nextCursor: string | null; total: number | null } | null>(null);
+  // undefined: group id not known yet (route param)
+  const key = groupId === undefined ? "" : JSON.stringify([groupId, query]);
+
+  useEffect(() => {
+    if (!key) return;
+    const more = loaded?.key === key;
+    if (more && (loaded.pages >= page || !loaded.nextCursor)) return;
+    const [gid, q] = JSON.parse(key) as [string | null, TaskQuery];
+    let cancelled = false;
+    const request = more
+      ? tasksApi.page(gid, { ...q, cursor: loaded.nextCursor }).then((p) => ({ ...p, pages: loaded.pages + 1 }))
+      : tasksApi.pages(gid, q, page).then((p) => ({ ...p, pages: page }));
+    request.then(
+      (p) => {
+        if (cancelled) return;
+        syncReminders(p.tasks);
+        // deletions waiting for their undo delay are still on the server
+        const fetched = p.tasks.filter((t) => !isRemoved(`task:${t.id}`));
+        setTasks((prev) => (more ? [...prev, ...fetched.filter((t) => !prev.some((x) => x.id === t.id))] : sortByCreatedDesc(fetched)));
+        setLoaded({ key, pages: p.pages, nextCursor: p.nextCursor, total: p.total });
+      },
+      (err) => {
+        if (cancelled || apiErrorStatus(err) === 401) return; // session manager already redirected to login
+        showToast({ type: "error", message: "Impossible de charger les tâches" });
+      }
+    );
+    return () => { cancelled = true; };
+  }, [key, page, loaded, showToast]);
+
+  const reload = useCallback(() => setLoaded(null), []);
+  const current = loaded?.key === key ? loaded : null;
+  return {
+    tasks,
+    setTasks,
+    total: current?.total ?? null,
+    hasMore: !!current?.nextCursor,
+    loading: !current || (current.pages < page && !!current.nextCursor),
+    reload,
+  };
+}
+
+/* the URL filter as sent to the server; "mine" needs the user id */
+function toTaskQuery(filter: TaskFilter, sort: TaskSort, assignee: AssigneeFilter = "all", userId: string | null = null): TaskQuery {
+  return {
+    ...filter,
+    sort,
+    assignee: assignee === "all" ? "" : assignee === "mine" ? userId ?? "" : assignee,
+  };
+}
+
+/* what this browser keeps for the signed-in account: cached lists, queued changes, reminders, timer */
+function clearAccountData(keepTimer = false) {
+  clearHistory();
+  if (!keepTimer) stopTimer();
+  clearReminders();
+  return clearOfflineData();
+}
+
+/*
+ * Explicit logout: also drops cached data and queued changes of this account. A running timer
+ * is recorded first, with `showToast` for the outcome (without it, deleted account, it is dropped);
+ * one the server refused stays stored for this user, to be stopped at the next login.
+ */
+async function signOut(showToast?: ShowToast) {
+  if (showToast) await stopRunningTimer(showToast, undefined, true);
+  const keepTimer = getActiveTimer() !== null;
+  // deletions still waiting for their undo delay go out (and are awaited) with this session's token
+  await flushCommits();
+  clearSession();
+  await clearAccountData(keepTimer);
+}
+
+/* login / register: the previous session may have expired with another account's data still here */
+async function beginSession(token: string, refreshToken?: string | null) {
+  startSession(token, refreshToken);
+  if (claimLocalData()) await clearAccountData();
+}
+
 function sortByCreatedDesc<T extends { createdAt?: string; created_at?: string }>(arr: T[]) {
   return (arr || []).slice().sort((a, b) => {
     const ta = new Date(a.createdAt ?? a.created_at ?? 0).getTime();
@@ -194,17 +492,227 @@ function IconAvatar({ children, onClick }: { children?: ReactNode; onClick?: ()
   );
 }
 
-function Badge({ children, color = "green" }: { children: any; color?: "green" | "yellow" | "gray" }) {
-  const map: Record<string, string> = {
+type BadgeColor = "green" | "yellow" | "gray" | "orange" | "red" | "blue";
+
+function Badge({ children, color = "green", title }: { children: ReactNode; color?: BadgeColor; title?: string }) {
+  const map: Record<BadgeColor, string> = {
     green: "bg-emerald-50 text-emerald-700",
     yellow: "bg-yellow-50 text-yellow-700",
     gray: "bg-gray-100 text-gray-700",
+    orange: "bg-orange-50 text-orange-700",
+    red: "bg-red-50 text-red-700",
+    blue: "bg-sky-50 text-sky-700",
   };
-  return <span className={`px-3 py-1 rounded-full text-xs font-medium ${map[color]}`}>{children}</span>;
+  return <span title={title} className={`px-3 py-1 rounded-full text-xs font-medium ${map[color]}`}>{children}</span>;
+}
+
+/* status badge kept live by the shared clock, with deadline state and a countdown */
+function TaskStatusBadge({ task, hideStatus = false }: { task: Task; hideStatus?: boolean }) {
+  const now = useNow(statusInstants(task));
+  const st = effectiveStatus(task, now);
+  const deadline = deadlineState(task, now);
+  const start = task.startDate ? new Date(task.startDate).getTime() : null;
+  const end = task.endDate ? new Date(task.endDate).getTime() : null;
+
+  let countdown: string | null = null;
+  if (deadline === "overdue") countdown = `depuis ${formatDuration(now - end!)}`;
+  else if (start !== null && start > now) countdown = `commence dans ${formatDuration(start - now)}`;
+  else if (end !== null && st !== "terminee") countdown = `reste ${formatDuration(end - now)}`;
+
+  return (
+    <span className="inline-flex items-center gap-2 flex-wrap">
+      {deadline === "overdue" ? (
+        <Badge color="red" title={`${STATUS_LABELS[st]}, échéance dépassée`}>En retard</Badge>
+      ) : (
+        !hideStatus && <Badge color={STATUS_BADGE[st]}>{STATUS_LABELS[st]}</Badge>
+      )}
+      {deadline === "due-soon" && <Badge color="orange">Bientôt</Badge>}
+      {countdown && <span className={`text-xs ${deadline === "overdue" ? "text-red-600" : deadline === "due-soon" ? "text-orange-600" : "text-gray-500"}`}>{countdown}</span>}
+    </span>
+  );
+}
+
+function PendingSyncBadge() {
+  return (
+    <span title="Modification enregistrée hors ligne, en attente de synchronisation" className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+      <FiCloudOff /> Synchro en attente
+    </span>
+  );
+}
+
+/* initial-letter avatar used in the members aside and on task cards */
+function MemberAvatar({ member, small = false }: { member: Member; small?: boolean }) {
+  const label = member.fullname || member.id;
+  const size = small ? "w-6 h-6 text-xs ring-2 ring-white" : "w-8 h-8";
+  return (
+    <div title={member.fullname || member.id.slice(0, 8)} className={`${size} rounded-md bg-emerald-200 text-emerald-700 flex items-center justify-center font-semibold shrink-0`}>
+      {label[0]?.toUpperCase()}
+    </div>
+  );
+}
+
+function AssigneeAvatars({ ids, members }: { ids: string[]; members: Member[] }) {
+  if (ids.length === 0) return null;
+  return (
+    <div className="flex items-center -space-x-1" aria-label={`Assignée à ${ids.length} membre(s)`}>
+      {ids.map((aid) => <MemberAvatar key={aid} small member={members.find((m) => m.id === aid) ?? { id: aid }} />)}
+    </div>
+  );
+}
+
+function AssigneePicker({ members, value, onChange }: { members: Member[]; value: string[]; onChange: (ids: string[]) => void }) {
+  function toggle(mid: string) {
+    onChange(value.includes(mid) ? value.filter((x) => x !== mid) : [...value, mid]);
+  }
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs text-gray-600 mr-1">Assigner</span>
+      {members.map((m) => {
+        const on = value.includes(m.id);
+        return (
+          <button key={m.id} type="button" onClick={() => toggle(m.id)} aria-pressed={on} className={`flex items-center gap-2 pl-1 pr-3 py-1 rounded-full border text-xs ${on ? "border-emerald-400 bg-emerald-50 text-emerald-700" : "border-gray-200 bg-white text-gray-600"}`}>
+            <MemberAvatar small member={m} />
+            {m.fullname || m.id.slice(0, 8)}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+const PRIORITY_BADGE: Record<TaskPriority, BadgeColor> = {
+  basse: "gray",
+  normale: "green",
+  haute: "orange",
+  urgente: "red",
+};
+
+/* "normale" is the default: not worth a badge on every card */
+function PriorityBadge({ priority }: { priority: TaskPriority }) {
+  if (priority === "normale") return null;
+  return <Badge color={PRIORITY_BADGE[priority]} title="Priorité">{priority === "urgente" ? "⚑ " : ""}{PRIORITY_LABELS[priority]}</Badge>;
+}
+
+function PrioritySelect({ value, onChange, className = "" }: { value: TaskPriority; onChange: (v: TaskPriority) => void; className?: string }) {
+  return (
+    <select value={value} onChange={(e) => onChange(isTaskPriority(e.target.value) ? e.target.value : "normale")} aria-label="Priorité" className={`px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm ${className}`}>
+      {TASK_PRIORITIES.map((p) => <option key={p} value={p}>Priorité {PRIORITY_LABELS[p].toLowerCase()}</option>)}
+    </select>
+  );
+}
+
+const LABEL_CHIP: Record<LabelColor, string> = {
+  gray: "bg-gray-100 text-gray-700",
+  red: "bg-red-100 text-red-700",
+  orange: "bg-orange-100 text-orange-700",
+  yellow: "bg-yellow-100 text-yellow-800",
+  green: "bg-emerald-100 text-emerald-700",
+  teal: "bg-teal-100 text-teal-700",
+  blue: "bg-sky-100 text-sky-700",
+  purple: "bg-violet-100 text-violet-700",
+  pink: "bg-pink-100 text-pink-700",
+};
+
+const LABEL_DOT: Record<LabelColor, string> = {
+  gray: "bg-gray-400",
+  red: "bg-red-500",
+  orange: "bg-orange-500",
+  yellow: "bg-yellow-400",
+  green: "bg-emerald-500",
+  teal: "bg-teal-500",
+  blue: "bg-sky-500",
+  purple: "bg-violet-500",
+  pink: "bg-pink-500",
+};
+
+function LabelChip({ label }: { label: Label }) {
+  return <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${LABEL_CHIP[label.color]}`}>{label.name}</span>;
+}
+
+/* ids of labels deleted since are skipped */
+function LabelChips({ ids, labels }: { ids: string[]; labels: Label[] }) {
+  const shown = labels.filter((l) => ids.includes(l.id));
+  if (!shown.length) return null;
+  return <span className="inline-flex flex-wrap items-center gap-1">{shown.map((l) => <LabelChip key={l.id} label={l} />)}</span>;
+}
+
+function LabelPicker({ labels, value, onChange }: { labels: Label[]; value: string[]; onChange: (ids: string[]) => void }) {
+  if (!labels.length) return null;
+  function toggle(lid: string) {
+    onChange(value.includes(lid) ? value.filter((x) => x !== lid) : [...value, lid]);
+  }
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs text-gray-600 mr-1">Étiquettes</span>
+      {labels.map((l) => {
+        const on = value.includes(l.id);
+        return (
+          <button key={l.id} type="button" onClick={() => toggle(l.id)} aria-pressed={on} className={`rounded-full border-2 ${on ? "border-emerald-400" : "border-transparent opacity-60"}`}>
+            <LabelChip label={l} />
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+/* filter + sort controls shared by the group and personal task lists */
+function TaskFilterBar({ filter, onFilter, sort, onSort, labels = [] }: { filter: TaskFilter; onFilter: (f: TaskFilter) => void; sort: TaskSort; onSort: (s: TaskSort) => void; labels?: Label[] }) {
+  const select = "px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm";
+  const active = isFiltered(filter);
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select value={filter.status} onChange={(e) => onFilter({ ...filter, status: isTaskStatus(e.target.value) ? e.target.value : "" })} aria-label="Filtrer par statut" className={select}>
+        <option value="">Tous les statuts</option>
+        {TASK_STATUSES.map((s) => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+      </select>
+      <select value={filter.priority} onChange={(e) => onFilter({ ...filter, priority: isTaskPriority(e.target.value) ? e.target.value : "" })} aria-label="Filtrer par priorité" className={select}>
+        <option value="">Toutes priorités</option>
+        {TASK_PRIORITIES.map((p) => <option key={p} value={p}>{PRIORITY_LABELS[p]}</option>)}
+      </select>
+      {labels.length > 0 && (
+        <select value={filter.label} onChange={(e) => onFilter({ ...filter, label: e.target.value })} aria-label="Filtrer par étiquette" className={select}>
+          <option value="">Toutes étiquettes</option>
+          {labels.map((l) => <option key={l.id} value={l.id}>{l.name}</option>)}
+        </select>
+      )}
+      <select value={sort} onChange={(e) => onSort(isTaskSort(e.target.value) ? e.target.value : "created")} aria-label="Trier" className={select}>
+        {TASK_SORTS.map((s) => <option key={s.id} value={s.id}>Tri : {s.label}</option>)}
+      </select>
+      {active && <button onClick={() => onFilter(NO_FILTER)} className="text-sm text-emerald-600">Réinitialiser</button>}
+    </div>
+  );
+}
+
+/* under a paged list: how many of the matching tasks are loaded, and the next page */
+function LoadMore({ count, total, hasMore, loading, onMore }: { count: number; total: number | null; hasMore: boolean; loading: boolean; onMore: () => void }) {
+  if (!hasMore) return null;
+  return (
+    <div className="flex items-center justify-center gap-3 pt-2 text-sm text-gray-500">
+      {total !== null && <span>{count} sur {total}</span>}
+      <button onClick={onMore} disabled={loading} className="px-4 py-2 rounded-xl border border-gray-200 bg-white text-emerald-600 disabled:opacity-50">{loading ? "Chargement…" : "Charger plus"}</button>
+    </div>
+  );
+}
+
+function isFiltered(filter: TaskFilter) {
+  return !!(filter.status || filter.priority || filter.label);
+}
+
+/* "" = automatic (derived from dates) */
+function StatusSelect({ value, onChange, className = "" }: { value: TaskStatus | ""; onChange: (v: TaskStatus | "") => void; className?: string }) {
+  return (
+    <select value={value} onChange={(e) => onChange(isTaskStatus(e.target.value) ? e.target.value : "")} className={`px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm ${className}`}>
+      <option value="">Statut auto (dates)</option>
+      {TASK_STATUSES.map((s) => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+    </select>
+  );
 }
 
 function Header({ onLogout }: { onLogout: () => void }) {
   const profile = useProfile();
+  const palette = usePalette();
+  const nav = useNavigate();
   return (
     <header className="flex flex-wrap items-center justify-between py-4 px-2">
       <div className="flex items-center gap-3 min-w-0">
@@ -218,10 +726,16 @@ function Header({ onLogout }: { onLogout: () => void }) {
       <div className="flex items-center gap-3 ml-2">
         <div className="hidden sm:flex items-center gap-4 bg-white/80 border border-gray-100 rounded-2xl px-3 py-2 shadow-sm">
           <Link to="/dashboard" className="text-sm text-gray-700 hover:text-green-700">Tableau de bord</Link>
+          <Link to="/calendar" className="text-sm text-gray-700 hover:text-green-700">Calendrier</Link>
+          <Link to="/timesheet" className="text-sm text-gray-700 hover:text-green-700">Feuille de temps</Link>
         </div>
 
         <div className="flex items-center gap-3">
-          <button className="hidden md:inline-flex items-center gap-2 text-sm py-2 px-3 rounded-lg bg-white border border-gray-100 shadow-sm">
+          <button onClick={() => palette.open()} title="Rechercher (Ctrl+K)" className="flex items-center gap-2 text-sm py-2 px-3 rounded-lg bg-white border border-gray-100 shadow-sm text-gray-500">
+            <FiSearch /> <span className="hidden lg:inline">Rechercher</span> <kbd className="hidden lg:inline text-xs border border-gray-200 rounded px-1">{/Mac|iPhone|iPad/.test(navigator.platform) ? "⌘" : "Ctrl"} K</kbd>
+          </button>
+
+          <button onClick={() => nav(`/calendar?view=day&date=${toDateKey(new Date())}`)} className="hidden md:inline-flex items-center gap-2 text-sm py-2 px-3 rounded-lg bg-white border border-gray-100 shadow-sm">
             <FiCalendar /> Aujourd'hui
           </button>
 
@@ -238,11 +752,184 @@ function Header({ onLogout }: { onLogout: () => void }) {
   );
 }
 
+/* ==========================
+   Command palette (Ctrl/Cmd+K: search groups, tasks, members + quick actions)
+   ========================== */
+
+type PaletteItem = {
+  id: string;
+  kind: "action" | "group" | "task" | "member";
+  title: string;
+  subtitle?: string;
+  score: number;
+  run: () => void;
+};
+
+const PALETTE_KINDS: Record<PaletteItem["kind"], { label: string; icon: ReactNode }> = {
+  action: { label: "Actions", icon: <FiCommand /> },
+  group: { label: "Groupes", icon: <HiOutlineUsers /> },
+  task: { label: "Tâches", icon: <FiCheckSquare /> },
+  member: { label: "Membres", icon: <FiUser /> },
+};
+
+/* per kind, so a query matching 200 tasks still shows the groups */
+const PALETTE_LIMIT = 6;
+
+function isPaletteShortcut(e: globalThis.KeyboardEvent) {
+  return (e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === "k";
+}
+
+/* mounted only while open: every opening reloads groups and tasks (served from cache offline) */
+function CommandPalette({ onClose }: { onClose: () => void }) {
+  const nav = useNavigate();
+  const profile = useProfile();
+  const [query, setQuery] = useState("");
+  const [active, setActive] = useState(0);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const [gs, personal] = await Promise.all([groupsApi.list(), tasksApi.listPersonal().catch(() => [])]);
+        // one failing group must not hide the others
+        const lists = await Promise.all(gs.map((g) => tasksApi.listByGroup(g.id).catch(() => [])));
+        if (cancelled) return;
+        setGroups(gs);
+        setTasks([...personal, ...lists.flat()]);
+      } catch {
+        // the actions still work without data
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  function go(to: string) {
+    onClose();
+    nav(to);
+  }
+
+  const actions: Omit<PaletteItem, "score">[] = [
+    { id: "new-task", kind: "action", title: "Nouvelle tâche personnelle", run: () => go("/dashboard#new-task") },
+    { id: "join", kind: "action", title: "Rejoindre un groupe", subtitle: "Avec un code d'invitation", run: () => go("/dashboard#join-code") },
+    { id: "profile", kind: "action", title: "Ouvrir le profil", run: () => { onClose(); profile.open(); } },
+    { id: "dashboard", kind: "action", title: "Tableau de bord", run: () => go("/dashboard") },
+    { id: "calendar", kind: "action", title: "Calendrier", run: () => go("/calendar") },
+    { id: "timesheet", kind: "action", title: "Feuille de temps", subtitle: "Temps passé cette semaine", run: () => go("/timesheet") },
+  ];
+
+  const groupName = (gid: string | null) => groups.find((g) => g.id === gid)?.name;
+  /* a member appears once, with the groups shared with us */
+  const members = new Map<string, { member: Member; groups: Group[] }>();
+  for (const g of groups) {
+    for (const m of g.members) {
+      if (!m.fullname) continue;
+      const entry = members.get(m.id) ?? { member: m, groups: [] };
+      entry.groups.push(g);
+      members.set(m.id, entry);
+    }
+  }
+
+  const q = query.trim();
+  const ranked = (items: PaletteItem[]) => items.filter((i) => i.score > -Infinity).sort((a, b) => b.score - a.score).slice(0, PALETTE_LIMIT);
+  const scored = (text: string) => fuzzyScore(q, text) ?? -Infinity;
+
+  const sections = [
+    ranked(actions.map((a) => ({ ...a, score: scored(a.title) }))),
+    ranked(groups.map((g) => ({ id: g.id, kind: "group", title: g.name, subtitle: `${g.members.length || 1} membres`, score: scored(g.name), run: () => go(`/groups/${g.id}`) }))),
+    // nothing typed: tasks and members would only be noise
+    q ? ranked(tasks.map((t) => {
+      const byTitle = scored(t.title);
+      // descriptions match as plain substrings and rank below titles
+      const score = byTitle > -Infinity ? byTitle + 10 : containsFolded(t.description, q) ? 0 : -Infinity;
+      return { id: t.id, kind: "task", title: t.title, subtitle: t.groupId ? groupName(t.groupId) ?? "Groupe" : "Tâche personnelle", score, run: () => go(`/tasks/${t.id}`) };
+    })) : [],
+    q ? ranked([...members.values()].map(({ member, groups: shared }) => ({
+      id: member.id,
+      kind: "member",
+      title: member.fullname!,
+      subtitle: shared.map((g) => g.name).join(", "),
+      score: scored(member.fullname!),
+      run: () => go(`/groups/${shared[0].id}`),
+    }))) : [],
+  ];
+  const items = sections.flat();
+  const current = Math.min(active, Math.max(items.length - 1, 0));
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${current}"]`)?.scrollIntoView({ block: "nearest" });
+  }, [current]);
+
+  function onKey(e: KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (!items.length) return;
+      setActive((current + (e.key === "ArrowDown" ? 1 : items.length - 1)) % items.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      items[current]?.run();
+    } else if (e.key === "Escape") {
+      onClose();
+    }
+  }
+
+  let index = 0;
+  return (
+    <div className="fixed inset-0 z-60 flex items-start justify-center bg-black/40 p-4 pt-[12vh]" onClick={onClose}>
+      <div role="dialog" aria-label="Recherche" onClick={(e) => e.stopPropagation()} className="w-full max-w-xl bg-white rounded-2xl shadow-2xl overflow-hidden">
+        <div className="flex items-center gap-3 px-4 border-b border-gray-100">
+          <FiSearch className="text-gray-400" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); setActive(0); }}
+            onKeyDown={onKey}
+            placeholder="Rechercher un groupe, une tâche, un membre…"
+            aria-label="Rechercher"
+            className="flex-1 py-4 outline-none min-w-0"
+          />
+          <kbd className="text-xs text-gray-400 border border-gray-200 rounded px-1">Échap</kbd>
+        </div>
+        <div ref={listRef} className="max-h-[60vh] overflow-y-auto p-2">
+          {items.length === 0 && <div className="p-6 text-center text-sm text-gray-500">{loading ? "Chargement…" : "Aucun résultat"}</div>}
+          {sections.map((section) => section.length > 0 && (
+            <div key={section[0].kind} className="mb-2">
+              <div className="px-3 py-1 text-xs font-medium text-gray-400 uppercase">{PALETTE_KINDS[section[0].kind].label}</div>
+              {section.map((item) => {
+                const i = index++;
+                return (
+                  <button
+                    key={`${item.kind}-${item.id}`}
+                    data-index={i}
+                    onClick={item.run}
+                    onMouseMove={() => { if (i !== current) setActive(i); }}
+                    className={`w-full flex items-center gap-3 px-3 py-2 rounded-xl text-left ${i === current ? "bg-emerald-50 text-emerald-800" : "text-gray-700"}`}
+                  >
+                    <span className="text-gray-400 shrink-0">{PALETTE_KINDS[item.kind].icon}</span>
+                    <span className="truncate">{item.title}</span>
+                    {item.subtitle && <span className="ml-auto pl-2 text-xs text-gray-400 truncate">{item.subtitle}</span>}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+          {loading && items.length > 0 && <div className="px-3 py-1 text-xs text-gray-400">Chargement des tâches…</div>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 /* ==========================
    Auth pages
    ========================== */
 
-function AuthLayout({ children }: { children: any }) {
+function AuthLayout({ children }: { children: ReactNode }) {
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-emerald-50 to-green-25 p-4">
       <div className="w-full max-w-3xl mx-auto grid grid-cols-1 md:grid-cols-2 gap-8 items-center px-4 sm:px-6">
@@ -272,23 +959,20 @@ function AuthLayout({ children }: { children: any }) {
 function Login() {
   const [fullname, setFullname] = useState("");
   const [password, setPassword] = useState("");
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
   const nav = useNavigate();
   const alerts = useAlerts();
 
-  async function submit(e: any) {
+  async function submit(e: FormEvent) {
     e.preventDefault();
     try {
-      const res = await api.post("/auth/login", { fullname, password });
-      const token = res.data.token ?? res.data.accessToken;
-      if (token) {
-        localStorage.setItem("token", token);
-        api.defaults.headers.common = api.defaults.headers.common || {};
-        api.defaults.headers.common["Authorization"] = `Bearer ${token}`;
-      }
+      const { token, refreshToken } = await authApi.login(fullname, password);
+      if (token) await beginSession(token, refreshToken);
       alerts.showToast({ type: "success", title: "Connecté", message: "Bienvenue !", timeout: 2000 });
-      nav("/dashboard");
-    } catch (err: any) {
-      alerts.showToast({ type: "error", title: "Erreur", message: err?.response?.data?.message || "Impossible de se connecter", timeout: 4000 });
+      nav(safeReturnTo(searchParams.get("next")), { replace: true });
+    } catch (err) {
+      alerts.showToast({ type: "error", title: "Erreur", message: apiErrorMessage(err, "Impossible de se connecter"), timeout: 4000 });
     }
   }
 
@@ -312,7 +996,7 @@ function Login() {
 
         <div className="flex items-center justify-between gap-4">
           <button type="submit" className="px-5 py-3 rounded-xl bg-emerald-600 text-white font-semibold">Se connecter</button>
-          <Link to="/register" className="text-sm text-emerald-600">Pas de compte ? S'inscrire</Link>
+          <Link to={{ pathname: "/register", search: location.search }} className="text-sm text-emerald-600">Pas de compte ? S'inscrire</Link>
         </div>
       </form>
     </AuthLayout>
@@ -322,32 +1006,29 @@ function Login() {
 function Register() {
   const [fullname, setFullname] = useState("");
   const [password, setPassword] = useState("");
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
   const nav = useNavigate();
   const alerts = useAlerts();
 
-  async function submit(e: any) {
+  async function submit(e: FormEvent) {
     e.preventDefault();
     try {
-      const res = await api.post("/auth/register", { fullname, password });
-
       // si backend renvoie token (recommandé), on le stocke et on redirige directement vers le dashboard
-      const token = res.data.token ?? res.data.accessToken;
-      const user = res.data.user ?? null;
+      const { token, refreshToken, user } = await authApi.register(fullname, password);
       if (token) {
-        localStorage.setItem("token", token);
+        await beginSession(token, refreshToken);
         if (user) localStorage.setItem("user", JSON.stringify(user));
-        api.defaults.headers.common = api.defaults.headers.common || {};
-        api.defaults.headers.common["Authorization"] = `Bearer ${token}`;
         alerts.showToast({ type: "success", title: "Compte créé", message: "Bienvenue !", timeout: 1500 });
-        nav("/dashboard");
+        nav(safeReturnTo(searchParams.get("next")), { replace: true });
         return;
       }
 
-      // fallback si pas de token renvoyé : afficher message et rediriger vers login
+      // fallback si pas de token renvoyé : afficher message et rediriger vers login (en gardant `next`)
       alerts.showToast({ type: "success", title: "Compte créé", message: "Tu peux maintenant te connecter", timeout: 3000 });
-      setTimeout(() => nav("/"), 700);
-    } catch (err: any) {
-      alerts.showToast({ type: "error", title: "Erreur", message: err?.response?.data?.message || "Impossible de créer le compte" });
+      setTimeout(() => nav({ pathname: "/", search: location.search }), 700);
+    } catch (err) {
+      alerts.showToast({ type: "error", title: "Erreur", message: apiErrorMessage(err, "Impossible de créer le compte") });
     }
   }
 
@@ -371,7 +1052,7 @@ function Register() {
 
         <div className="flex items-center justify-between gap-4">
           <button type="submit" className="px-5 py-3 rounded-xl bg-emerald-600 text-white font-semibold">S'inscrire</button>
-          <Link to="/" className="text-sm text-emerald-600">Déjà inscrit ? Se connecter</Link>
+          <Link to={{ pathname: "/", search: location.search }} className="text-sm text-emerald-600">Déjà inscrit ? Se connecter</Link>
         </div>
       </form>
     </AuthLayout>
@@ -383,20 +1064,34 @@ function Register() {
    ========================== */
 
 function Dashboard() {
-  const [groups, setGroups] = useState<any[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [groupTasks, setGroupTasks] = useState<Record<string, Task[]>>({});
   const [name, setName] = useState("");
   const [joinCode, setJoinCode] = useState("");
   const nav = useNavigate();
+  const location = useLocation();
   const alerts = useAlerts();
 
   useEffect(() => { fetchGroups(); }, []);
+  // every group's tasks, for the card statistics and "Assigné à moi"; a group failing to load has no entry
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(groups.map((g) => tasksApi.listByGroup(g.id).then((ts) => [[g.id, ts] as const], () => [])))
+      .then((entries) => { if (!cancelled) setGroupTasks(Object.fromEntries(entries.flat())); });
+    return () => { cancelled = true; };
+  }, [groups]);
+  // "#new-task" / "#join-code" (command palette): bring the field into view, ready to type
+  useEffect(() => {
+    const field = location.hash ? document.getElementById(location.hash.slice(1)) : null;
+    field?.scrollIntoView({ block: "center", behavior: "smooth" });
+    field?.focus({ preventScroll: true });
+  }, [location.key, location.hash]);
 
   async function fetchGroups() {
     try {
-      const res = await api.get("/groups");
-      setGroups(sortByCreatedDesc(res.data || []));
-    } catch (err: any) {
-      if (err?.response?.status === 401) { localStorage.removeItem("token"); nav("/"); return; }
+      setGroups(sortByCreatedDesc(await groupsApi.list()));
+    } catch (err) {
+      if (apiErrorStatus(err) === 401) return; // session manager already redirected to login
       alerts.showToast({ type: "error", message: "Impossible de charger les groupes" });
     }
   }
@@ -404,31 +1099,36 @@ function Dashboard() {
   async function create() {
     if (!name) { alerts.showToast({ type: "info", message: "Donne un nom au groupe" }); return; }
     try {
-      const res = await api.post("/groups", { name });
-      setGroups((prev) => sortByCreatedDesc([res.data, ...prev]));
+      const created = await groupsApi.create(name);
+      setGroups((prev) => sortByCreatedDesc([created, ...prev]));
       setName("");
       alerts.showToast({ type: "success", message: "Groupe créé" });
-    } catch (err: any) {
-      alerts.showToast({ type: "error", message: err?.response?.data?.message || "Erreur création groupe" });
+    } catch (err) {
+      alerts.showToast({ type: "error", message: apiErrorMessage(err, "Erreur création groupe") });
     }
   }
 
   async function join() {
     if (!joinCode) { alerts.showToast({ type: "info", message: "Entre un code" }); return; }
     try {
-      const res = await api.post("/groups/join", { code: joinCode });
-      setGroups((prev) => sortByCreatedDesc([res.data, ...prev.filter(g => String(g._id) !== String(res.data._id))]));
+      const joined = await groupsApi.join(joinCode);
+      setGroups((prev) => sortByCreatedDesc([joined, ...prev.filter(g => g.id !== joined.id)]));
       setJoinCode("");
       alerts.showToast({ type: "success", message: "Groupe rejoint" });
-    } catch (err: any) {
-      alerts.showToast({ type: "error", message: err?.response?.data?.message || "Erreur" });
+    } catch (err) {
+      alerts.showToast({ type: "error", message: apiErrorMessage(err, "Erreur") });
     }
   }
 
-  function open(g: any) { const gid = g._id || g.id; nav(`/groups/${gid}`); }
-  function logout() { localStorage.removeItem("token"); nav("/"); }
+  function open(g: Group) { nav(`/groups/${g.id}`); }
+  async function logout() { await signOut(alerts.showToast); nav("/"); }
+
+  // groups deleted a moment ago stay hidden while their deletion can still be undone
+  useSyncExternalStore(onHistoryChange, historyVersion);
+  const shown = groups.filter((g) => !isRemoved(`group:${g.id}`));
 
   const userId = getUserIdFromToken();
+  const managed = shown.filter((g) => can(roleOf(g, userId), "invite.manage"));
 
   return (
     <div className="min-h-screen w-full bg-gradient-to-br from-emerald-50 via-white to-emerald-25 py-6">
@@ -448,34 +1148,34 @@ function Dashboard() {
                 </div>
 
                 <div className="flex gap-3 min-w-0">
-                  <input className="flex-1 px-4 py-3 rounded-xl border border-gray-200 min-w-0" placeholder="Code d'invitation" value={joinCode} onChange={(e) => setJoinCode(e.target.value)} />
+                  <input id="join-code" className="flex-1 px-4 py-3 rounded-xl border border-gray-200 min-w-0" placeholder="Code d'invitation" value={joinCode} onChange={(e) => setJoinCode(e.target.value)} />
                   <button onClick={join} className="px-4 py-3 rounded-xl border border-gray-200 bg-white text-emerald-600 flex-shrink-0">Rejoindre</button>
                 </div>
               </div>
             </div>
 
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-              {groups.length === 0 && (
+              {shown.length === 0 && (
                 <div className="col-span-full p-6 rounded-2xl bg-white border-dashed border-2 border-gray-200 text-center">
                   <div className="text-lg sm:text-xl font-semibold">Aucun groupe — crée le premier</div>
                 </div>
               )}
 
-              {groups.map((g) => {
-                const ownerId = g.owner ? (g.owner._id || g.owner) : (Array.isArray(g.members) ? g.members[0] : null);
-                const isOwner = String(ownerId) === String(userId);
+              {shown.map((g) => {
+                const role = roleOf(g, userId);
                 return (
-                  <div key={g._id || g.id} className="p-4 rounded-2xl bg-white shadow-sm cursor-pointer hover:shadow-md flex flex-col justify-between min-h-[110px] w-full" onClick={() => open(g)}>
+                  <div key={g.id} className="p-4 rounded-2xl bg-white shadow-sm cursor-pointer hover:shadow-md flex flex-col justify-between min-h-[110px] w-full" onClick={() => open(g)}>
                     <div>
                       <div className="font-semibold text-lg truncate">{g.name}</div>
                       <div className="text-sm text-gray-500 mt-2 flex items-center gap-3">
-                        <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-gray-50 text-xs"><HiOutlineUsers /> {g.members ? g.members.length : 1} membres</span>
+                        <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-gray-50 text-xs"><HiOutlineUsers /> {g.members.length || 1} membres</span>
                       </div>
+                      {groupTasks[g.id] && <GroupCardStats tasks={groupTasks[g.id]} />}
                     </div>
 
                     <div className="mt-3 flex items-center justify-between">
-                      <div className="text-xs font-mono text-gray-400 bg-gray-50 px-2 py-1 rounded-lg truncate">{g.inviteCode || "—"}</div>
-                      {isOwner && <div className="text-xs px-2 py-1 rounded-full bg-emerald-50 text-emerald-700">Propriétaire</div>}
+                      <div className="text-xs font-mono text-gray-400 bg-gray-50 px-2 py-1 rounded-lg truncate">{can(role, "invite.view") ? g.inviteCode || "—" : "—"}</div>
+                      {role && role !== "member" && <div className="text-xs px-2 py-1 rounded-full bg-emerald-50 text-emerald-700">{ROLE_LABELS[role]}</div>}
                     </div>
                   </div>
                 );
@@ -493,7 +1193,14 @@ function Dashboard() {
                   <div className="text-sm text-gray-600">Partage le code d'invitation pour inviter des membres.</div>
                 </div>
               </div>
-              <Link to="#" className="text-sm text-emerald-600 font-medium">→ Gérer les invitations</Link>
+              <div className="text-sm font-medium text-gray-700 mb-2">Gérer les invitations</div>
+              {managed.length === 0 ? (
+                <div className="text-xs text-gray-500">Seuls les propriétaires et admins d'un groupe gèrent ses invitations.</div>
+              ) : (
+                <div className="space-y-1">
+                  {managed.map((g) => <Link key={g.id} to={`/groups/${g.id}/invitations`} className="block text-sm text-emerald-600 font-medium truncate">→ {g.name}</Link>)}
+                </div>
+              )}
             </div>
           </aside>
         </div>
@@ -507,87 +1214,982 @@ function Dashboard() {
 
           <PersonalTasksBlock />
         </div>
+
+        <AssignedToMeBlock groups={groups} groupTasks={groupTasks} />
+
+        <div className="mt-8 p-4 sm:p-6 rounded-2xl bg-white shadow-lg border border-gray-50">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-semibold">Activité récente</h3>
+            <div className="text-sm text-gray-500">Dans tous tes groupes</div>
+          </div>
+
+          <ActivityFeed groupId={null} members={[...new Map(shown.flatMap((g) => g.members).map((m) => [m.id, m])).values()]} labels={shown.flatMap((g) => g.labels)} />
+        </div>
       </div>
     </div>
   );
 }
 
 /* ==========================
-   Personal Tasks Block (create/edit/delete personal tasks)
+   Group analytics (SVG charts, dashboard card summary)
    ========================== */
 
-function PersonalTasksBlock() {
-  const [title, setTitle] = useState("");
-  const [description, setDescription] = useState("");
-  const [startDate, setStartDate] = useState<string>("");
-  const [endDate, setEndDate] = useState<string>("");
-  const [tasks, setTasks] = useState<any[]>([]);
-  const [editingId, setEditingId] = useState<string | null>(null);
-  const [editTitle, setEditTitle] = useState("");
-  const [editDescription, setEditDescription] = useState("");
-  const [editStart, setEditStart] = useState("");
-  const [editEnd, setEditEnd] = useState("");
+function percent(rate: number | null) {
+  return rate === null ? "—" : `${Math.round(rate * 100)} %`;
+}
 
-  const nav = useNavigate();
-  const alerts = useAlerts();
+function shortDay(key: string) {
+  const d = parseDateKey(key);
+  return d ? d.toLocaleDateString(undefined, { day: "2-digit", month: "2-digit" }) : key;
+}
 
-  useEffect(() => { fetchPersonalTasks(); }, []);
+/* the numbers of the analytics view, one line on a dashboard group card */
+function GroupCardStats({ tasks }: { tasks: Task[] }) {
+  const now = useNow([]);
+  const s = summarizeTasks(tasks, now);
+  if (!s.total) return <div className="mt-2 text-xs text-gray-400">Aucune tâche</div>;
+  return (
+    <div className="mt-2 space-y-1">
+      <div className="h-1.5 rounded-full bg-gray-100 overflow-hidden" role="progressbar" aria-label="Tâches terminées" aria-valuemin={0} aria-valuemax={s.total} aria-valuenow={s.done}>
+        <div className="h-full bg-emerald-500" style={{ width: `${(s.done / s.total) * 100}%` }} />
+      </div>
+      <div className="text-xs text-gray-500 flex flex-wrap gap-x-2">
+        <span>{s.done}/{s.total} terminées ({percent(s.completionRate)})</span>
+        {s.overdue > 0 && <span className="text-red-600">{s.overdue} en retard</span>}
+        {s.averageLeadMs !== null && <span>durée moy. {formatDuration(s.averageLeadMs)}</span>}
+      </div>
+    </div>
+  );
+}
 
-  async function fetchPersonalTasks() {
-    try {
-      const res = await api.get("/tasks");
-      const personal = (res.data || []).filter((t: any) => !t.groupId);
-      setTasks(sortByCreatedDesc(personal));
-    } catch (err: any) {
-      if (err?.response?.status === 401) { localStorage.removeItem("token"); nav("/"); return; }
-      alerts.showToast({ type: "error", message: "Impossible de charger les tâches" });
-    }
-  }
+function StatTile({ label, value, tone = "gray" }: { label: string; value: string; tone?: "gray" | "red" }) {
+  return (
+    <div className="p-3 rounded-xl bg-gray-50">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className={`text-xl font-semibold ${tone === "red" ? "text-red-600" : "text-gray-800"}`}>{value}</div>
+    </div>
+  );
+}
 
-  function validateNotPastLocal(localValue?: string) {
-    if (!localValue) return true;
-    const given = new Date(localValue);
-    return given.getTime() >= Date.now();
-  }
+/* chart with its title; the SVG is described for screen readers by the table that follows it */
+function ChartCard({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <figure className="p-4 rounded-2xl bg-white border border-gray-100">
+      <figcaption className="text-sm font-medium text-gray-700 mb-3">{title}</figcaption>
+      {children}
+    </figure>
+  );
+}
 
-  async function addTask() {
-    if (!title) { alerts.showToast({ type: "info", message: "Titre requis" }); return; }
-    if (startDate && !validateNotPastLocal(startDate)) { alerts.showToast({ type: "error", message: "La date/heure de début ne peut pas être passée" }); return; }
-    if (endDate && startDate && new Date(endDate).getTime() < new Date(startDate).getTime()) { alerts.showToast({ type: "error", message: "La date/heure de fin doit être après la date de début" }); return; }
+const FLOW_SERIES = [
+  { key: "total", label: "Créées (cumul)", color: "#9ca3af" },
+  { key: "done", label: "Terminées (cumul)", color: "#059669" },
+  { key: "remaining", label: "Restantes", color: "#f97316" },
+] as const;
+
+/* burnup (created and done, cumulated) and burndown (what remains) over FLOW_DAYS days */
+function FlowChart({ flow }: { flow: FlowPoint[] }) {
+  const W = 560, H = 200, L = 32, R = 8, T = 8, B = 24;
+  const points = flow.map((p) => ({ ...p, remaining: p.total - p.done }));
+  const max = Math.max(1, ...points.map((p) => p.total));
+  const x = (i: number) => L + (i * (W - L - R)) / Math.max(1, points.length - 1);
+  const y = (v: number) => T + (1 - v / max) * (H - T - B);
+  const ticks = [...new Set([0, Math.round(max / 2), max])];
+  const labelled = [0, Math.floor((points.length - 1) / 2), points.length - 1];
 
+  return (
+    <>
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto" aria-hidden="true">
+        {ticks.map((v) => (
+          <g key={v}>
+            <line x1={L} x2={W - R} y1={y(v)} y2={y(v)} stroke="#e5e7eb" />
+            <text x={L - 6} y={y(v) + 4} textAnchor="end" fontSize="10" fill="#6b7280">{v}</text>
+          </g>
+        ))}
+        {labelled.map((i) => points[i] && (
+          <text key={i} x={x(i)} y={H - 6} textAnchor={i === 0 ? "start" : i === points.length - 1 ? "end" : "middle"} fontSize="10" fill="#6b7280">{shortDay(points[i].day)}</text>
+        ))}
+        {FLOW_SERIES.map((s) => (
+          <polyline key={s.key} fill="none" stroke={s.color} strokeWidth="2" strokeLinejoin="round" points={points.map((p, i) => `${x(i)},${y(p[s.key])}`).join(" ")} />
+        ))}
+      </svg>
+      <div className="mt-2 flex flex-wrap gap-3 text-xs text-gray-600">
+        {FLOW_SERIES.map((s) => <span key={s.key} className="inline-flex items-center gap-1"><span className="w-3 h-0.5" style={{ background: s.color }} /> {s.label}</span>)}
+      </div>
+      <table className="sr-only">
+        <thead><tr><th>Jour</th>{FLOW_SERIES.map((s) => <th key={s.key}>{s.label}</th>)}</tr></thead>
+        <tbody>{points.map((p) => <tr key={p.day}><td>{shortDay(p.day)}</td><td>{p.total}</td><td>{p.done}</td><td>{p.remaining}</td></tr>)}</tbody>
+      </table>
+    </>
+  );
+}
+
+type Bar = { label: string; value: number; max: number; text: string; color: string };
+
+/* horizontal bars, one per row */
+function BarChart({ bars, caption }: { bars: Bar[]; caption: string }) {
+  const W = 400, ROW = 26, LABEL = 120, TEXT = 90;
+  const H = Math.max(1, bars.length) * ROW;
+  return (
+    <>
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto" aria-hidden="true">
+        {bars.map((b, i) => (
+          <g key={b.label} transform={`translate(0 ${i * ROW})`}>
+            <text x={0} y={ROW / 2 + 4} fontSize="11" fill="#374151">{b.label.length > 18 ? `${b.label.slice(0, 17)}…` : b.label}</text>
+            <rect x={LABEL} y={6} width={W - LABEL - TEXT} height={ROW - 12} rx="3" fill="#f3f4f6" />
+            <rect x={LABEL} y={6} width={b.max ? ((W - LABEL - TEXT) * b.value) / b.max : 0} height={ROW - 12} rx="3" fill={b.color} />
+            <text x={W} y={ROW / 2 + 4} textAnchor="end" fontSize="11" fill="#6b7280">{b.text}</text>
+          </g>
+        ))}
+      </svg>
+      <table className="sr-only">
+        <caption>{caption}</caption>
+        <tbody>{bars.map((b) => <tr key={b.label}><th>{b.label}</th><td>{b.text}</td></tr>)}</tbody>
+      </table>
+    </>
+  );
+}
+
+const WEEKDAYS_LONG: Record<Weekday, string> = { MO: "lundi", TU: "mardi", WE: "mercredi", TH: "jeudi", FR: "vendredi", SA: "samedi", SU: "dimanche" };
+
+/* tasks due per weekday and member: darker is busier */
+function WorkloadHeatmap({ rows }: { rows: WorkloadRow[] }) {
+  const LABEL = 120, CELL = 40, ROW = 28;
+  const max = Math.max(1, ...rows.flatMap((r) => r.days));
+  const name = (r: WorkloadRow) => (r.member ? r.member.fullname || r.member.id.slice(0, 8) : "Non assignées");
+  return (
+    <>
+      <svg viewBox={`0 0 ${LABEL + 7 * CELL} ${(rows.length + 1) * ROW}`} className="w-full h-auto" aria-hidden="true">
+        {WEEKDAYS.map((d, j) => <text key={d} x={LABEL + j * CELL + CELL / 2} y={ROW / 2 + 4} textAnchor="middle" fontSize="11" fill="#6b7280">{WEEKDAY_SHORT[d]}</text>)}
+        {rows.map((r, i) => (
+          <g key={r.member?.id ?? "none"} transform={`translate(0 ${(i + 1) * ROW})`}>
+            <text x={0} y={ROW / 2 + 4} fontSize="11" fill="#374151">{name(r).length > 18 ? `${name(r).slice(0, 17)}…` : name(r)}</text>
+            {r.days.map((v, j) => (
+              <g key={j}>
+                <rect x={LABEL + j * CELL + 2} y={2} width={CELL - 4} height={ROW - 4} rx="4" fill={v ? "#059669" : "#f3f4f6"} fillOpacity={v ? 0.15 + (0.85 * v) / max : 1} />
+                {v > 0 && <text x={LABEL + j * CELL + CELL / 2} y={ROW / 2 + 4} textAnchor="middle" fontSize="11" fill={v / max > 0.5 ? "#fff" : "#065f46"}>{v}</text>}
+              </g>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <table className="sr-only">
+        <thead><tr><th>Membre</th>{WEEKDAYS.map((d) => <th key={d}>{WEEKDAYS_LONG[d]}</th>)}</tr></thead>
+        <tbody>{rows.map((r) => <tr key={r.member?.id ?? "none"}><th>{name(r)}</th>{r.days.map((v, j) => <td key={j}>{v}</td>)}</tr>)}</tbody>
+      </table>
+    </>
+  );
+}
+
+const STATUS_BAR_COLORS: Record<TaskStatus, string> = {
+  "en-attente": "#facc15",
+  "en-cours": "#10b981",
+  "terminee": "#9ca3af",
+};
+
+/*
+ * Statistics tab of a group. Loads every task of the group: the list next to it is paged
+ * and filtered, the numbers must not be.
+ */
+function GroupAnalytics({ groupId, members }: { groupId: string | undefined; members: Member[] }) {
+  const { showToast } = useAlerts();
+  const [loaded, setLoaded] = useState<{ groupId: string; tasks: Task[] } | null>(null);
+  const now = useNow([]);
+
+  useEffect(() => {
+    if (!groupId) return;
+    let cancelled = false;
+    tasksApi.listByGroup(groupId).then(
+      (tasks) => { if (!cancelled) setLoaded({ groupId, tasks }); },
+      (err) => {
+        if (cancelled || apiErrorStatus(err) === 401) return;
+        showToast({ type: "error", message: "Impossible de charger les statistiques" });
+      }
+    );
+    return () => { cancelled = true; };
+  }, [groupId, showToast]);
+
+  if (!loaded || loaded.groupId !== groupId) return <div className="p-6 rounded-2xl bg-gray-50 text-center">Chargement…</div>;
+  const s = groupStats(loaded.tasks, members, (t) => effectiveStatus(t, now), now);
+  if (!s.total) return <div className="p-6 rounded-2xl bg-gray-50 text-center">Aucune tâche : rien à mesurer pour l'instant</div>;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <StatTile label="Tâches" value={String(s.total)} />
+        <StatTile label="Terminées" value={percent(s.completionRate)} />
+        <StatTile label="En retard" value={String(s.overdue)} tone={s.overdue ? "red" : "gray"} />
+        <StatTile label="Durée moyenne (début → fin)" value={s.averageLeadMs === null ? "—" : formatDuration(s.averageLeadMs)} />
+      </div>
+
+      <ChartCard title={`Avancement sur ${FLOW_DAYS} jours`}>
+        <FlowChart flow={s.flow} />
+      </ChartCard>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <ChartCard title="Par statut">
+          <BarChart
+            caption="Tâches par statut"
+            bars={[
+              ...TASK_STATUSES.map((st) => ({ label: STATUS_LABELS[st], value: s.byStatus[st], max: s.total, text: String(s.byStatus[st]), color: STATUS_BAR_COLORS[st] })),
+              { label: "En retard", value: s.overdue, max: s.total, text: String(s.overdue), color: "#ef4444" },
+            ]}
+          />
+        </ChartCard>
+        <ChartCard title="Taux de complétion par membre">
+          <BarChart
+            caption="Tâches terminées sur tâches assignées, par membre"
+            bars={s.perMember.map((m) => ({ label: m.member.fullname || m.member.id.slice(0, 8), value: m.done, max: m.assigned, text: m.assigned ? `${m.done}/${m.assigned} · ${percent(m.rate)}` : "aucune", color: "#059669" }))}
+          />
+        </ChartCard>
+      </div>
+
+      <ChartCard title={`Charge par jour de la semaine (échéances, ${WORKLOAD_WEEKS} semaines avant et après aujourd'hui)`}>
+        <WorkloadHeatmap rows={s.workload} />
+      </ChartCard>
+    </div>
+  );
+}
+
+/* ==========================
+   Assigned to me (group tasks across all groups)
+   ========================== */
+
+/* `groupTasks`: tasks by group id, loaded by the dashboard */
+function AssignedToMeBlock({ groups, groupTasks }: { groups: Group[]; groupTasks: Record<string, Task[]> }) {
+  const nav = useNavigate();
+  const userId = getUserIdFromToken();
+  const items = groups
+    .flatMap((group) => expandForList(groupTasks[group.id] ?? []).map((task) => ({ task, group })))
+    .filter(({ task }) => !!userId && task.assigneeIds.includes(userId))
+    .sort((a, b) => new Date(a.task.endDate ?? "9999").getTime() - new Date(b.task.endDate ?? "9999").getTime());
+
+  return (
+    <div className="mt-8 p-4 sm:p-6 rounded-2xl bg-white shadow-lg border border-gray-50">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold">Assigné à moi</h3>
+        <div className="text-sm text-gray-500">{items.length} tâche(s) dans tes groupes</div>
+      </div>
+
+      <div className="space-y-3">
+        {items.length === 0 && <div className="rounded-xl p-6 bg-gray-50 text-center text-gray-600">Aucune tâche ne t'est assignée</div>}
+        {items.map(({ task, group }) => (
+          <button key={task.id} onClick={() => nav(`/groups/${group.id}`)} className="w-full text-left p-4 rounded-2xl bg-white shadow-sm border border-gray-50 hover:shadow-md flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <div className="font-semibold truncate">{task.title}</div>
+              <div className="flex items-center gap-3 mt-2 text-xs text-gray-500 flex-wrap">
+                <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-gray-50"><HiOutlineUsers /> {group.name}</span>
+                <span className="flex items-center gap-1"><FiCalendar /> Fin: {task.endDate ? new Date(task.endDate).toLocaleString() : "—"}</span>
+              </div>
+            </div>
+            <TaskStatusBadge task={task} />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/* ==========================
+   Activity feed (group log, dashboard feed)
+   ========================== */
+
+const ACTIVITY_FIELD_LABELS: Record<string, string> = {
+  title: "Titre",
+  description: "Description",
+  status: "Statut",
+  priority: "Priorité",
+  startDate: "Début",
+  endDate: "Fin",
+  assignees: "Assignés",
+  labels: "Étiquettes",
+  recurrence: "Récurrence",
+  exdates: "Occurrences exclues",
+  checklist: "Checklist",
+  groupId: "Groupe",
+};
+
+function memberName(id: string, members: Member[]) {
+  return members.find((m) => sameId(m.id, id))?.fullname || id.slice(0, 8);
+}
+
+/* backend values made readable: ids to names, dates, labels of statuses... */
+function formatActivityValue(field: string, value: unknown, members: Member[], labels: Label[]): string {
+  if (value === null || value === undefined || value === "" || (Array.isArray(value) && value.length === 0)) return "—";
+  if (field === "status" && isTaskStatus(value)) return STATUS_LABELS[value];
+  if (field === "priority" && isTaskPriority(value)) return PRIORITY_LABELS[value];
+  if ((field === "startDate" || field === "endDate") && typeof value === "string") return new Date(value).toLocaleString();
+  if (field === "recurrence" && typeof value === "string") {
+    const rule = parseRRule(value);
+    return rule ? describeRecurrence(rule) : value;
+  }
+  if (field === "assignees" && Array.isArray(value)) return value.map((v) => memberName(idOf(v) ?? "", members)).join(", ");
+  if (field === "labels" && Array.isArray(value)) return value.map((v) => labels.find((l) => sameId(l.id, v))?.name ?? "?").join(", ");
+  if (field === "checklist" && Array.isArray(value)) {
+    const done = value.filter((i) => typeof i === "object" && i !== null && (i as { done?: unknown }).done === true).length;
+    return `${done}/${value.length} cochés`;
+  }
+  if (Array.isArray(value)) return `${value.length} élément(s)`;
+  const text = typeof value === "string" ? markdownToText(value) : String(value);
+  return text.length > 80 ? `${text.slice(0, 79)}…` : text;
+}
+
+function activitySentence(a: Activity, members: Member[]) {
+  const task = `« ${a.taskTitle || "tâche sans titre"} »`;
+  const member = a.member ? a.member.fullname || memberName(a.member.id, members) : "un membre";
+  switch (a.type) {
+    case "task.created": return `a créé ${task}`;
+    case "task.updated": return `a modifié ${task}`;
+    case "task.deleted": return `a supprimé ${task}`;
+    case "member.joined": return `a rejoint le groupe${a.via === "code" ? " avec le code d'invitation" : a.via === "invitation" ? " avec une invitation" : ""}`;
+    case "member.left": return "a quitté le groupe";
+    case "member.removed": return `a retiré ${member} du groupe`;
+  }
+}
+
+/* pages of the activity log, following the cursors; `reload` starts again from the first page */
+function useActivity(groupId: string | null | undefined, query: ActivityQuery) {
+  const { showToast } = useAlerts();
+  const [nonce, setNonce] = useState(0);
+  const [feed, setFeed] = useState<{ key: string; items: Activity[]; nextCursor: string | null } | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // undefined: group id not known yet (route param)
+  const key = groupId === undefined ? "" : JSON.stringify([groupId, query, nonce]);
+
+  useEffect(() => {
+    if (!key) return;
+    const [gid, q] = JSON.parse(key) as [string | null, ActivityQuery];
+    let cancelled = false;
+    activityApi.page(gid, q).then(
+      (p) => { if (!cancelled) setFeed({ key, items: p.items, nextCursor: p.nextCursor }); },
+      (err) => {
+        if (cancelled) return;
+        setFeed({ key, items: [], nextCursor: null });
+        if (apiErrorStatus(err) !== 401) showToast({ type: "error", message: "Impossible de charger l'activité" });
+      }
+    );
+    return () => { cancelled = true; };
+  }, [key, showToast]);
+
+  const current = feed?.key === key ? feed : null;
+
+  function loadMore() {
+    if (!current?.nextCursor || loadingMore) return;
+    const [gid, q] = JSON.parse(key) as [string | null, ActivityQuery];
+    setLoadingMore(true);
+    activityApi.page(gid, { ...q, cursor: current.nextCursor })
+      .then(
+        (p) => setFeed((f) => (f?.key === key ? { key, items: [...f.items, ...p.items.filter((a) => !f.items.some((x) => x.id === a.id))], nextCursor: p.nextCursor } : f)),
+        () => showToast({ type: "error", message: "Impossible de charger la suite" })
+      )
+      .finally(() => setLoadingMore(false));
+  }
+
+  return {
+    items: current?.items ?? [],
+    hasMore: !!current?.nextCursor,
+    loading: !current,
+    loadingMore,
+    loadMore,
+    reload: () => setNonce((n) => n + 1),
+  };
+}
+
+/*
+ * Timeline of a group (groupId) or of all the user's groups (groupId null, with the group of
+ * each entry), filterable by member and event type. `members` and `labels` turn the ids of
+ * task edits into names.
+ */
+function ActivityFeed({ groupId, members, labels }: { groupId: string | null | undefined; members: Member[]; labels: Label[] }) {
+  const [type, setType] = useState<ActivityType | "">("");
+  const [actor, setActor] = useState("");
+  const { items, hasMore, loading, loadingMore, loadMore, reload } = useActivity(groupId, { type, actor });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select value={actor} onChange={(e) => setActor(e.target.value)} aria-label="Filtrer par membre" className="px-3 py-2 rounded-xl border border-gray-200 bg-white">
+          <option value="">Tous les membres</option>
+          {members.map((m) => <option key={m.id} value={m.id}>{m.fullname || m.id.slice(0, 8)}</option>)}
+        </select>
+        <select value={type} onChange={(e) => setType(e.target.value as ActivityType | "")} aria-label="Filtrer par type d'événement" className="px-3 py-2 rounded-xl border border-gray-200 bg-white">
+          <option value="">Tous les événements</option>
+          {ACTIVITY_TYPES.map((t) => <option key={t} value={t}>{ACTIVITY_LABELS[t]}</option>)}
+        </select>
+        <button onClick={reload} title="Actualiser" aria-label="Actualiser l'activité" className="p-2 rounded-lg border border-gray-200 bg-white text-gray-600"><FiRefreshCw /></button>
+      </div>
+
+      {items.length === 0 && <div className="p-6 rounded-2xl bg-gray-50 text-center text-gray-600">{loading ? "Chargement…" : type || actor ? "Aucun événement ne correspond aux filtres" : "Aucune activité pour l'instant"}</div>}
+      <ol className="space-y-2">
+        {items.map((a) => {
+          const who = a.actor ?? (a.type.startsWith("member.") ? a.member : null);
+          return (
+            <li key={a.id} className="p-3 rounded-xl bg-white border border-gray-100 text-sm">
+              <div className="flex items-start gap-2">
+                {who ? <MemberAvatar small member={who} /> : <span className="w-6 h-6 rounded-md bg-gray-100 text-gray-400 flex items-center justify-center shrink-0"><FiActivity /></span>}
+                <div className="min-w-0 flex-1">
+                  <div>
+                    <span className="font-medium text-gray-800">{who ? who.fullname || memberName(who.id, members) : "Quelqu'un"}</span>{" "}
+                    <span className="text-gray-700">{activitySentence(a, members)}</span>
+                  </div>
+                  <div className="mt-0.5 flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                    {a.at && <time dateTime={a.at}>{new Date(a.at).toLocaleString()}</time>}
+                    {groupId === null && a.groupId && <Link to={`/groups/${a.groupId}`} className="inline-flex items-center gap-1 text-emerald-600"><HiOutlineUsers /> {a.groupName || "Groupe"}</Link>}
+                  </div>
+                  {a.changes.length > 0 && (
+                    <ul className="mt-2 space-y-1 text-xs">
+                      {a.changes.map((c) => (
+                        <li key={c.field} className="flex flex-wrap items-baseline gap-1">
+                          <span className="text-gray-500">{ACTIVITY_FIELD_LABELS[c.field] ?? c.field} :</span>
+                          <del className="text-red-600/80">{formatActivityValue(c.field, c.before, members, labels)}</del>
+                          <span className="text-gray-400">→</span>
+                          <ins className="no-underline text-emerald-700">{formatActivityValue(c.field, c.after, members, labels)}</ins>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+      <LoadMore count={items.length} total={null} hasMore={hasMore} loading={loadingMore} onMore={loadMore} />
+    </div>
+  );
+}
+
+/* ==========================
+   Undo / redo (history toasts, undoable task changes)
+   ========================== */
+
+type ShowToast = AlertsContextType["showToast"];
+type TaskListSetter = Dispatch<SetStateAction<Task[]>>;
+
+/* undo/redo with its toast; `only` limits undo to that change (a toast's own button) */
+async function runHistory(showToast: ShowToast, direction: "undo" | "redo", only?: Change) {
+  try {
+    const change = direction === "undo" ? await undoChange(only) : await redoChange();
+    if (!change) {
+      if (only) showToast({ type: "info", message: "Annule d'abord les modifications plus récentes (Ctrl+Z)" });
+      return;
+    }
+    showToast(direction === "undo"
+      ? { type: "info", message: `Annulé : ${change.label}`, timeout: UNDO_DELAY_MS, action: { label: "Rétablir", run: () => void runHistory(showToast, "redo") } }
+      : { type: "info", message: `Rétabli : ${change.label}` });
+  } catch (err) {
+    showToast({ type: "error", message: apiErrorMessage(err, direction === "undo" ? "Impossible d'annuler" : "Impossible de rétablir") });
+  }
+}
+
+/* records `change` and shows `message` with an "Annuler" button */
+function announceChange(showToast: ShowToast, message: string, change: Change, type: ToastType = "success") {
+  recordChange(change);
+  showToast({ type, message, timeout: UNDO_DELAY_MS, action: { label: "Annuler", run: () => void runHistory(showToast, "undo", change) } });
+}
+
+/* everything needed to create the task again */
+function taskInputOf(t: Task): TaskInput {
+  return {
+    title: t.title,
+    description: t.description,
+    startDate: t.startDate,
+    endDate: t.endDate,
+    groupId: t.groupId,
+    status: t.status,
+    priority: t.priority,
+    labels: t.labelIds,
+    assignees: t.assigneeIds,
+    recurrence: t.recurrence,
+    exdates: t.exdates,
+    checklist: t.checklist,
+  };
+}
+
+/*
+ * Deletes tasks the undoable way: they leave the list now and the requests go once the
+ * toast is gone. Undoing in time cancels them, so the tasks come back as they were (same
+ * place in lists sorted by sortByCreatedDesc); later, they are created again, as new tasks.
+ */
+function deleteTasksUndoable(tasks: Task[], setTasks: TaskListSetter, showToast: ShowToast, message: string) {
+  let current = tasks;
+  const change: Change = {
+    label: tasks.length === 1 ? `suppression de « ${tasks[0].title} »` : `suppression de ${tasksLabel(tasks.length)}`,
+    undo: async () => {
+      const sent = current.filter((t) => !cancelCommit(`task:${t.id}`));
+      const recreated = await Promise.all(sent.map((t) => tasksApi.create(taskInputOf(t))));
+      current = current.map((t) => recreated[sent.indexOf(t)] ?? t);
+      const ids = new Set(current.map((t) => t.id));
+      setTasks((prev) => sortByCreatedDesc([...prev.filter((t) => !ids.has(t.id)), ...current]));
+    },
+    redo: remove,
+  };
+
+  function remove() {
+    const batch = current;
+    const ids = new Set(batch.map((t) => t.id));
+    const failed: Task[] = [];
+    let settled = 0;
+    let error: unknown;
+    // one report for the whole batch; the failed tasks come back and leave the change
+    const settle = () => {
+      if (++settled < batch.length || !failed.length) return;
+      current = current.filter((t) => !failed.includes(t));
+      setTasks((prev) => sortByCreatedDesc([...prev.filter((t) => !failed.some((f) => f.id === t.id)), ...failed]));
+      showToast({
+        type: "error",
+        message: failed.length === 1 ? apiErrorMessage(error, `Suppression de « ${failed[0].title} » impossible`) : `${tasksLabel(failed.length)} sur ${batch.length} n'ont pas pu être supprimées`,
+      });
+    };
+    setTasks((prev) => prev.filter((t) => !ids.has(t.id)));
+    for (const task of batch) {
+      deferCommit(`task:${task.id}`, async () => {
+        try {
+          await tasksApi.remove(task.id, task);
+          forgetReminders(task.id);
+        } catch (err) {
+          failed.push(task);
+          error = err;
+          throw err;
+        } finally {
+          settle();
+        }
+      }, undefined, {
+        unload: () => {
+          if (!tasksApi.removeOnUnload(task.id)) return false;
+          forgetReminders(task.id);
+          return true;
+        },
+      });
+    }
+  }
+
+  remove();
+  announceChange(showToast, message, change);
+}
+
+/*
+ * Records an edit already sent: `before` and `after` are the updated tasks, `created` the ones
+ * the edit added (an occurrence detached from its series). Undo sends `before` back and deletes
+ * `created`; redo does it all again. `belongs` tells which tasks stay in this list (moves).
+ */
+function announceEdit(showToast: ShowToast, setTasks: TaskListSetter, opts: {
+  message: string;
+  before: Task[];
+  after: Task[];
+  created?: Task[];
+  belongs?: (t: Task) => boolean;
+  type?: ToastType;
+}) {
+  const { before, after, belongs = () => true } = opts;
+  let created = opts.created ?? [];
+  const save = async (tasks: Task[]) => {
+    const saved = await Promise.all(tasks.map((t) => tasksApi.update(t.id, taskInputOf(t), t)));
+    syncReminders(saved);
+    return saved;
+  };
+  const show = (saved: Task[], added: Task[], dropped: Task[]) => {
+    const ids = new Set([...saved, ...dropped].map((t) => t.id));
+    setTasks((prev) => sortByCreatedDesc([...added, ...prev.filter((t) => !ids.has(t.id)), ...saved.filter(belongs)]));
+  };
+  announceChange(showToast, opts.message, {
+    label: before.length === 1 ? `modification de « ${before[0].title} »` : `modification de ${tasksLabel(before.length)}`,
+    undo: async () => {
+      const saved = await save(before);
+      await Promise.all(created.map((t) => tasksApi.remove(t.id, t)));
+      show(saved, [], created);
+    },
+    redo: async () => {
+      const saved = await save(after);
+      created = await Promise.all(created.map((t) => tasksApi.create(taskInputOf(t))));
+      show(saved, created, []);
+    },
+  }, opts.type);
+}
+
+/* a created task: undo deletes it right away, redo creates it again */
+function announceCreate(showToast: ShowToast, setTasks: TaskListSetter, message: string, task: Task) {
+  let current = task;
+  announceChange(showToast, message, {
+    label: `création de « ${task.title} »`,
+    undo: async () => {
+      await tasksApi.remove(current.id, current);
+      forgetReminders(current.id);
+      setTasks((prev) => prev.filter((t) => t.id !== current.id));
+    },
+    redo: async () => {
+      current = await tasksApi.create(taskInputOf(current));
+      setTasks((prev) => sortByCreatedDesc([current, ...prev]));
+    },
+  });
+}
+
+/*
+ * Takes a member out of the group once the toast is gone; undoing before that just cancels.
+ * Once sent, the removal is final (nothing re-adds a member but their own join).
+ */
+function removeMemberUndoable(group: Group, member: Member, setGroup: Dispatch<SetStateAction<Group | null>>, showToast: ShowToast, onFailed: (err: unknown) => void) {
+  const key = `member:${group.id}:${member.id}`;
+  const index = group.members.findIndex((m) => m.id === member.id);
+  const putBack = () => setGroup((g) => (g && g.id === group.id && !g.members.some((m) => m.id === member.id)
+    ? { ...g, members: [...g.members.slice(0, index), member, ...g.members.slice(index)] }
+    : g));
+  const change: Change = {
+    label: `retrait de ${member.fullname || "un membre"}`,
+    undo: () => {
+      if (!cancelCommit(key)) throw new Error("déjà envoyé");
+      putBack();
+    },
+    redo: remove,
+  };
+
+  function remove() {
+    setGroup((g) => (g && g.id === group.id ? { ...g, members: g.members.filter((m) => m.id !== member.id) } : g));
+    deferCommit(key, async () => {
+      await groupsApi.removeMember(group.id, member.id);
+      forgetChange(change);
+    }, (err) => {
+      forgetChange(change);
+      putBack();
+      onFailed(err);
+    }, { unload: () => groupsApi.removeMemberOnUnload(group.id, member.id) });
+  }
+
+  remove();
+  announceChange(showToast, `${member.fullname || "Membre"} retiré du groupe`, change);
+}
+
+/* same for a whole group: lists hide it (isRemoved) until the deletion is sent */
+function deleteGroupUndoable(group: Group, showToast: ShowToast) {
+  const key = `group:${group.id}`;
+  const change: Change = {
+    label: `suppression du groupe « ${group.name} »`,
+    undo: () => {
+      if (!cancelCommit(key)) throw new Error("déjà envoyé");
+    },
+    redo: remove,
+  };
+
+  function remove() {
+    deferCommit(key, async () => {
+      await groupsApi.remove(group.id);
+      forgetChange(change);
+    }, (err) => {
+      forgetChange(change);
+      showToast({ type: "error", message: apiErrorMessage(err, `Suppression du groupe « ${group.name} » impossible`) });
+    }, { unload: () => groupsApi.removeOnUnload(group.id) });
+  }
+
+  remove();
+  announceChange(showToast, `Groupe « ${group.name} » supprimé`, change);
+}
+
+/* typing in a field keeps the browser's own Ctrl+Z */
+function isTextField(target: EventTarget | null) {
+  if (target instanceof HTMLInputElement) return !["checkbox", "radio", "button", "submit", "reset", "range", "color", "file"].includes(target.type);
+  return target instanceof HTMLElement && (target.isContentEditable || target.tagName === "TEXTAREA" || target.tagName === "SELECT");
+}
+
+/* ==========================
+   Bulk actions (multi-select on task lists, action bar, undo)
+   ========================== */
+
+/* ids selected among `ids` (in display order); hidden ones drop out of the selection */
+function useTaskSelection(ids: string[]) {
+  const [picked, setPicked] = useState<string[]>([]);
+  const [anchor, setAnchor] = useState<string | null>(null);
+  const selected = picked.filter((id) => ids.includes(id));
+
+  /* `range` (shift-click) selects everything between the last clicked task and this one */
+  function toggle(id: string, range: boolean) {
+    if (range && anchor && ids.includes(anchor)) {
+      const [from, to] = [ids.indexOf(anchor), ids.indexOf(id)].sort((a, b) => a - b);
+      const span = ids.slice(from, to + 1);
+      setPicked((prev) => [...new Set([...prev, ...span])]);
+    } else {
+      setPicked((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+    }
+    setAnchor(id);
+  }
+
+  return {
+    selected,
+    isSelected: (id: string) => selected.includes(id),
+    toggle,
+    selectAll: () => setPicked(ids),
+    set: setPicked,
+  };
+}
+
+function SelectBox({ checked, label, onToggle }: { checked: boolean; label: string; onToggle: (range: boolean) => void }) {
+  return (
+    <input
+      type="checkbox"
+      checked={checked}
+      readOnly
+      onClick={(e) => onToggle(e.shiftKey)}
+      aria-label={`Sélectionner ${label}`}
+      className="mt-1 mr-3 w-4 h-4 accent-emerald-600 shrink-0 cursor-pointer"
+    />
+  );
+}
+
+function tasksLabel(n: number) {
+  return `${n} tâche${n > 1 ? "s" : ""}`;
+}
+
+/* runs `op` on each task in turn; a failure doesn't stop the others */
+async function runBulk<T>(tasks: Task[], op: (t: Task) => Promise<T>, onProgress: (done: number) => void) {
+  const done: T[] = [];
+  const failed: Task[] = [];
+  for (let i = 0; i < tasks.length; i++) {
     try {
-      const payload: any = { title, description };
-      if (startDate) payload.startDate = localInputToIso(startDate);
-      if (endDate) payload.endDate = localInputToIso(endDate);
-      const res = await api.post("/tasks", payload);
-      setTasks(prev => sortByCreatedDesc([res.data, ...prev]));
-      setTitle(""); setDescription(""); setStartDate(""); setEndDate("");
-      alerts.showToast({ type: "success", message: "Tâche personnelle ajoutée" });
-    } catch (err: any) {
-      if (err?.response?.status === 401) { localStorage.removeItem("token"); nav("/"); return; }
-      alerts.showToast({ type: "error", message: err?.response?.data?.message || "Erreur création tâche" });
+      done.push(await op(tasks[i]));
+    } catch {
+      failed.push(tasks[i]);
+    }
+    onProgress(i + 1);
+  }
+  return { done, failed };
+}
+
+/* same wall-clock time `days` later (DST-safe); excluded occurrences move with the series */
+function shiftTaskDates(t: Task, days: number): TaskInput {
+  const shift = (iso: string) => addDays(new Date(iso), days).toISOString();
+  return {
+    startDate: t.startDate ? shift(t.startDate) : null,
+    endDate: t.endDate ? shift(t.endDate) : null,
+    exdates: t.exdates.map(shift),
+  };
+}
+
+type BulkProgress = { label: string; done: number; total: number };
+
+/*
+ * Action bar of a selection. Each action asks once, reports partial failures (the failed
+ * tasks stay selected) and offers "Annuler": deletions are only sent once the toast is gone,
+ * other changes are reverted with compensating updates.
+ */
+function BulkTaskBar({ tasks, selectable, hasMore, total, groupId, canEdit, canDelete, onSelectAll, onDone, setTasks }: {
+  tasks: Task[];
+  selectable: number;
+  /* more pages on the server: "Tout sélectionner" only covers the loaded ones */
+  hasMore: boolean;
+  total: number | null;
+  /* list the tasks come from; null = personal tasks */
+  groupId: string | null;
+  canEdit: boolean;
+  canDelete: (t: Task) => boolean;
+  onSelectAll: () => void;
+  /* ids to keep selected (the failures) */
+  onDone: (keep: string[]) => void;
+  setTasks: Dispatch<SetStateAction<Task[]>>;
+}) {
+  const alerts = useAlerts();
+  const [days, setDays] = useState(1);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [progress, setProgress] = useState<BulkProgress | null>(null);
+  const userId = getUserIdFromToken();
+
+  useEffect(() => {
+    if (!canEdit) return;
+    groupsApi.list().then(setGroups, () => {});
+  }, [canEdit]);
+
+  const targets = groups.filter((g) => g.id !== groupId && can(roleOf(g, userId), "task.create"));
+  const deletable = tasks.filter(canDelete);
+  const busy = progress !== null;
+
+  /* before = the tasks to patch (the whole selection unless narrowed) */
+  async function update(label: string, patch: (t: Task) => TaskInput, verb: string, before = tasks) {
+    setProgress({ label, done: 0, total: before.length });
+    const { done, failed } = await runBulk(before, (t) => tasksApi.update(t.id, patch(t), t), (n) => setProgress({ label, done: n, total: before.length }));
+    setProgress(null);
+    onDone(failed.map((t) => t.id));
+    if (!done.length) {
+      alerts.showToast({ type: "error", message: `Aucune tâche ${verb} — toujours sélectionnées` });
+      return;
     }
+    const ids = new Set(done.map((t) => t.id));
+    const belongs = (t: Task) => (t.groupId ?? null) === groupId;
+    setTasks((prev) => sortByCreatedDesc([...prev.filter((t) => !ids.has(t.id)), ...done.filter(belongs)]));
+    announceEdit(alerts.showToast, setTasks, {
+      message: failed.length ? `${done.length} sur ${before.length} ${verb} — ${failed.length} échec(s), toujours sélectionnée(s)` : `${tasksLabel(done.length)} ${verb}`,
+      type: failed.length ? "warning" : "success",
+      before: before.filter((t) => ids.has(t.id)),
+      after: done,
+      belongs,
+    });
+  }
+
+  async function remove() {
+    const skipped = tasks.length - deletable.length;
+    const ok = await alerts.confirm({
+      message: `Supprimer ${tasksLabel(deletable.length)} ?${skipped ? ` (${skipped} ignorée(s) : ton rôle ne permet pas de les supprimer)` : ""}`,
+      okLabel: "Supprimer",
+      cancelLabel: "Annuler",
+    });
+    if (!ok) return;
+    onDone([]);
+    deleteTasksUndoable(deletable, setTasks, alerts.showToast, `${tasksLabel(deletable.length)} supprimée${deletable.length > 1 ? "s" : ""}`);
+  }
+
+  async function shift() {
+    const dated = tasks.filter((t) => t.startDate || t.endDate);
+    if (!days) return;
+    if (!dated.length) { alerts.showToast({ type: "info", message: "Aucune tâche sélectionnée n'a de dates" }); return; }
+    const ok = await alerts.confirm({ message: `Décaler ${tasksLabel(dated.length)} de ${days > 0 ? "+" : ""}${days} jour(s) ?`, okLabel: "Décaler", cancelLabel: "Annuler" });
+    if (!ok) return;
+    await update("Décalage", (t) => shiftTaskDates(t, days), "décalée(s)", dated);
+  }
+
+  async function move(target: string) {
+    const name = target ? groups.find((g) => g.id === target)?.name ?? "ce groupe" : "tes tâches personnelles";
+    const ok = await alerts.confirm({ message: `Déplacer ${tasksLabel(tasks.length)} vers ${name} ? Leurs assignations et étiquettes seront retirées.`, okLabel: "Déplacer", cancelLabel: "Annuler" });
+    if (!ok) return;
+    await update(
+      "Déplacement",
+      () => ({ groupId: target || null, assignees: [], labels: [] }),
+      "déplacée(s)"
+    );
   }
 
-  async function deleteTask(id: string) {
-    const ok = await alerts.confirm({ message: "Supprimer cette tâche personnelle ?", okLabel: "Supprimer", cancelLabel: "Annuler" });
+  async function markDone() {
+    const ok = await alerts.confirm({ message: `Marquer ${tasksLabel(tasks.length)} comme terminée(s) ?`, okLabel: "Terminer", cancelLabel: "Annuler" });
     if (!ok) return;
+    await update("Terminer", () => ({ status: "terminee" }), "terminée(s)");
+  }
+
+  const button = "px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm disabled:opacity-50";
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-4xl p-3 bg-white rounded-2xl shadow-2xl border border-gray-100 flex flex-wrap items-center gap-2">
+      <span className="text-sm font-semibold mr-1">{tasksLabel(tasks.length)} sélectionnée{tasks.length > 1 ? "s" : ""}</span>
+      {tasks.length < selectable && (
+        <button onClick={onSelectAll} disabled={busy} title={hasMore ? "Seules les tâches chargées sont sélectionnées ; « Charger plus » pour les suivantes" : undefined} className="text-sm text-emerald-600">
+          Tout sélectionner ({hasMore ? `${selectable} chargée${selectable > 1 ? "s" : ""}${total !== null ? ` sur ${total}` : ""}` : selectable})
+        </button>
+      )}
+      <button onClick={() => onDone([])} disabled={busy} className="text-sm text-gray-500">Désélectionner</button>
+      <span className="flex-1" />
+      {progress ? (
+        <span className="text-sm text-gray-600" role="status">{progress.label}… {progress.done}/{progress.total}</span>
+      ) : (
+        <>
+          {canEdit && <button onClick={markDone} className={button}>✓ Terminer</button>}
+          {canEdit && (
+            <span className="inline-flex items-center gap-1">
+              <input type="number" value={days} onChange={(e) => setDays(Math.trunc(Number(e.target.value)) || 0)} aria-label="Nombre de jours" className="w-16 px-2 py-2 rounded-lg border border-gray-200 text-sm" />
+              <button onClick={shift} disabled={!days} className={button}>Décaler (jours)</button>
+            </span>
+          )}
+          {canEdit && (targets.length > 0 || groupId) && (
+            <select value="-" onChange={(e) => move(e.target.value)} aria-label="Déplacer vers" className="px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm">
+              <option value="-" disabled>Déplacer vers…</option>
+              {groupId && <option value="">Tâches personnelles</option>}
+              {targets.map((g) => <option key={g.id} value={g.id}>{g.name}</option>)}
+            </select>
+          )}
+          {deletable.length > 0 && <button onClick={remove} className="px-3 py-2 rounded-lg bg-red-50 text-red-600 text-sm"><FiTrash2 className="inline" /> Supprimer</button>}
+        </>
+      )}
+    </div>
+  );
+}
+
+/* ==========================
+   Personal Tasks Block (create/edit/delete personal tasks)
+   ========================== */
+
+function PersonalTasksBlock() {
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [startDate, setStartDate] = useState<string>("");
+  const [endDate, setEndDate] = useState<string>("");
+  const [recurrence, setRecurrence] = useState<string | null>(null);
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [priority, setPriority] = useState<TaskPriority>("normale");
+  const { filter, sort, page, setFilter, setSort, setPage } = useTaskListParams();
+  const { tasks, setTasks, total, hasMore, loading, reload } = usePagedTasks(null, toTaskQuery(filter, sort), page);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+  const [editDescription, setEditDescription] = useState("");
+  const [editStart, setEditStart] = useState("");
+  const [editEnd, setEditEnd] = useState("");
+  const [editStatus, setEditStatus] = useState<TaskStatus | "">("");
+  const [editPriority, setEditPriority] = useState<TaskPriority>("normale");
+  const [editRecurrence, setEditRecurrence] = useState<string | null>(null);
+  const [editReminders, setEditReminders] = useState<Reminder[]>([]);
+  const [editOccurrence, setEditOccurrence] = useState<{ occ: Task; scope: RecurrenceScope } | null>(null);
+  const [detailId, setDetailId] = useState<string | null>(null);
+
+  const alerts = useAlerts();
+
+  // replayed offline changes now have server ids: reload
+  useEffect(() => onOfflineEvent((e) => { if (e.type === "synced") reload(); }), [reload]);
+
+  function validateNotPastLocal(localValue?: string) {
+    if (!localValue) return true;
+    const given = new Date(localValue);
+    return given.getTime() >= Date.now();
+  }
+
+  async function addTask() {
+    if (!title) { alerts.showToast({ type: "info", message: "Titre requis" }); return; }
+    if (startDate && !validateNotPastLocal(startDate)) { alerts.showToast({ type: "error", message: "La date/heure de début ne peut pas être passée" }); return; }
+    if (endDate && startDate && new Date(endDate).getTime() < new Date(startDate).getTime()) { alerts.showToast({ type: "error", message: "La date/heure de fin doit être après la date de début" }); return; }
+
     try {
-      await api.delete(`/tasks/${id}`);
-      setTasks(prev => prev.filter(t => String(t._id || t.id) !== String(id)));
-      alerts.showToast({ type: "success", message: "Tâche supprimée" });
-    } catch (err: any) {
-      alerts.showToast({ type: "error", message: err?.response?.data?.message || "Erreur suppression" });
+      const payload: TaskInput = { title, description, priority };
+      if (startDate) payload.startDate = localInputToIso(startDate);
+      if (endDate) payload.endDate = localInputToIso(endDate);
+      if (startDate && recurrence) payload.recurrence = recurrence;
+      const created = await tasksApi.create(payload);
+      if (reminders.length) saveReminders(created, reminders);
+      setTasks(prev => sortByCreatedDesc([created, ...prev]));
+      setTitle(""); setDescription(""); setStartDate(""); setEndDate(""); setRecurrence(null); setReminders([]); setPriority("normale");
+      announceCreate(alerts.showToast, setTasks, "Tâche personnelle ajoutée", created);
+    } catch (err) {
+      if (apiErrorStatus(err) === 401) return; // session manager already redirected to login
+      alerts.showToast({ type: "error", message: apiErrorMessage(err, "Erreur création tâche") });
+    }
+  }
+
+  async function deleteTask(task: Task) {
+    const series = task.seriesId ? tasks.find(t => t.id === task.seriesId) : undefined;
+    if (series) {
+      const scope = await askRecurrenceScope(alerts, "Supprimer");
+      if (!scope) return;
+      if (scope === "series") { deleteTasksUndoable([series], setTasks, alerts.showToast, "Série supprimée"); return; }
+      try {
+        const updated = await removeOccurrence(series, task);
+        setTasks(prev => prev.map(t => (t.id === series.id ? updated : t)));
+        announceEdit(alerts.showToast, setTasks, { message: "Occurrence supprimée", before: [series], after: [updated] });
+      } catch (err) {
+        alerts.showToast({ type: "error", message: apiErrorMessage(err, "Erreur suppression") });
+      }
+      return;
     }
+
+    // no confirmation: the toast's "Annuler" (or Ctrl+Z) brings it back
+    deleteTasksUndoable([task], setTasks, alerts.showToast, "Tâche supprimée");
   }
 
-  function beginEdit(t: any) {
-    const tid = t._id || t.id;
-    setEditingId(tid);
+  async function beginEdit(t: Task) {
+    let scope: RecurrenceScope | null = null;
+    if (t.seriesId) {
+      scope = await askRecurrenceScope(alerts, "Modifier");
+      if (!scope) return;
+    }
+    setEditOccurrence(t.seriesId && scope ? { occ: t, scope } : null);
+    setEditRecurrence(scope === "occurrence" ? null : t.recurrence);
+    setEditReminders(getReminders(t.seriesId ?? t.id));
+    setEditingId(t.id);
     setEditTitle(t.title || "");
     setEditDescription(t.description || "");
     setEditStart(isoToLocalInput(t.startDate));
     setEditEnd(isoToLocalInput(t.endDate));
+    setEditStatus(t.status ?? "");
+    setEditPriority(t.priority);
   }
 
   async function saveEdit() {
@@ -596,26 +2198,50 @@ function PersonalTasksBlock() {
     if (editStart && editEnd && new Date(editEnd).getTime() < new Date(editStart).getTime()) { alerts.showToast({ type: "error", message: "La date/heure de fin doit être après la date de début" }); return; }
 
     try {
-      const payload: any = { title: editTitle, description: editDescription };
+      const payload: TaskInput = { title: editTitle, description: editDescription, status: editStatus || null, priority: editPriority };
       if (editStart) payload.startDate = localInputToIso(editStart); else payload.startDate = null;
       if (editEnd) payload.endDate = localInputToIso(editEnd); else payload.endDate = null;
-
-      const res = await api.put(`/tasks/${editingId}`, payload);
-      setTasks(prev => sortByCreatedDesc(prev.map(t => (String(t._id || t.id) === String(editingId) ? res.data : t))));
+      if (editOccurrence?.scope !== "occurrence") payload.recurrence = editStart ? editRecurrence : null;
+
+      const series = editOccurrence && tasks.find(t => t.id === editOccurrence.occ.seriesId);
+      if (editOccurrence && series) {
+        const res = await saveRecurringEdit(series, editOccurrence.occ, editOccurrence.scope, payload);
+        saveReminders(res.detached ?? res.series, editReminders);
+        setTasks(prev => sortByCreatedDesc([...(res.detached ? [res.detached] : []), ...prev.map(t => (t.id === series.id ? res.series : t))]));
+        announceEdit(alerts.showToast, setTasks, { message: "Tâche mise à jour", before: [series], after: [res.series], created: res.detached ? [res.detached] : [] });
+      } else {
+        const before = tasks.find(t => t.id === editingId);
+        const updated = await tasksApi.update(editingId, payload, before);
+        saveReminders(updated, editReminders);
+        setTasks(prev => sortByCreatedDesc(prev.map(t => (t.id === editingId ? updated : t))));
+        if (before) announceEdit(alerts.showToast, setTasks, { message: "Tâche mise à jour", before: [before], after: [updated] });
+        else alerts.showToast({ type: "success", message: "Tâche mise à jour" });
+      }
+      setEditOccurrence(null);
       setEditingId(null); setEditTitle(""); setEditDescription(""); setEditStart(""); setEditEnd("");
-      alerts.showToast({ type: "success", message: "Tâche mise à jour" });
-    } catch (err: any) {
-      alerts.showToast({ type: "error", message: err?.response?.data?.message || "Erreur mise à jour" });
+    } catch (err) {
+      alerts.showToast({ type: "error", message: apiErrorMessage(err, "Erreur mise à jour") });
     }
   }
 
+  const detailTask = detailId ? tasks.find((t) => t.id === detailId) : undefined;
+  const shown = sortTasks(filterTasks(expandForList(tasks), filter), sort);
+  const selectable = [...new Set(shown.map((t) => t.seriesId ?? t.id))];
+  const selection = useTaskSelection(selectable);
+
   return (
     <>
+      <div className="flex flex-wrap justify-end gap-2 mb-3">
+        <DataTools onImported={(created) => setTasks(prev => sortByCreatedDesc([...created, ...prev]))} />
+        <IcsTools tasks={tasks} name="Tâches personnelles" onImported={(created) => setTasks(prev => sortByCreatedDesc([...created, ...prev]))} />
+      </div>
+
       {/* stacked title and description; dates + add button on next row (responsive) */}
       <div className="space-y-3">
         <div>
           <label className="text-sm font-medium text-gray-700 block mb-1">Titre</label>
           <input
+            id="new-task"
             value={title}
             onChange={(e) => setTitle(e.target.value)}
             className="w-full px-4 py-3 rounded-xl border border-gray-200 min-w-0 box-border"
@@ -633,6 +2259,10 @@ function PersonalTasksBlock() {
           />
         </div>
 
+        <PrioritySelect value={priority} onChange={setPriority} />
+        <RecurrenceEditor value={recurrence} onChange={setRecurrence} hasStart={!!startDate} />
+        <ReminderPicker value={reminders} onChange={setReminders} hasStart={!!startDate} hasEnd={!!endDate} />
+
         {/* Updated responsive block: labels visible on mobile & stacked */}
         <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3">
           <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3 w-full sm:max-w-[640px]">
@@ -677,42 +2307,69 @@ function PersonalTasksBlock() {
       </div>
 
       <div className="space-y-3 mt-4">
-        {tasks.length === 0 && <div className="rounded-xl p-6 bg-gray-50 text-center text-gray-600">Aucune tâche personnelle</div>}
+        {(tasks.length > 0 || isFiltered(filter)) && <TaskFilterBar filter={filter} onFilter={setFilter} sort={sort} onSort={setSort} />}
+        {shown.length === 0 && (
+          <div className="rounded-xl p-6 bg-gray-50 text-center text-gray-600">
+            {loading ? "Chargement…" : tasks.length || isFiltered(filter) ? "Aucune tâche ne correspond aux filtres" : "Aucune tâche personnelle"}
+          </div>
+        )}
 
-        {tasks.map(t => {
-          const tid = t._id || t.id;
-          const status = computeStatusFromDates(t.startDate, t.endDate);
-          const statusColor = status === "En cours" ? "bg-emerald-50 text-emerald-700" : status === "Terminée" ? "bg-gray-100 text-gray-700" : "bg-yellow-50 text-yellow-800";
+        {shown.map(t => {
+          const tid = t.id;
           const startLabel = t.startDate ? new Date(t.startDate).toLocaleString() : "—";
           const endLabel = t.endDate ? new Date(t.endDate).toLocaleString() : "—";
           return (
             <div key={tid} className="p-4 rounded-2xl bg-white shadow-sm border border-gray-50 flex items-center justify-between">
+              <SelectBox checked={selection.isSelected(t.seriesId ?? t.id)} label={t.title} onToggle={(range) => selection.toggle(t.seriesId ?? t.id, range)} />
               <div className="flex-1 min-w-0">
-                <div className="font-semibold text-lg truncate">{t.title}</div>
-                <div className="text-sm text-gray-600 mt-1 truncate">{t.description}</div>
+                <button onClick={() => setDetailId(t.seriesId ?? t.id)} className="block max-w-full font-semibold text-lg truncate text-left hover:text-emerald-700">{t.title}</button>
+                <div className="text-sm text-gray-600 mt-1 truncate">{markdownToText(t.description)}</div>
                 <div className="flex items-center gap-3 mt-3 text-xs text-gray-500 flex-wrap">
                   <div className="flex items-center gap-2"><FiClock /> Début: {startLabel}</div>
                   <div className="flex items-center gap-2"><FiCalendar /> Fin: {endLabel}</div>
-                  <div className={`px-2 py-1 rounded-full text-xs font-medium ${statusColor}`}>{status}</div>
+                  <TaskStatusBadge task={t} />
+                  <PriorityBadge priority={t.priority} />
+                  {t.pending && <PendingSyncBadge />}
+                  <RecurrenceBadge rule={t.recurrence} />
+                  <ReminderBadge taskId={t.seriesId ?? t.id} />
+                  <ChecklistProgress items={t.checklist} />
+                  {t.attachments.length > 0 && <span className="flex items-center gap-1" title="Pièces jointes"><FiPaperclip /> {t.attachments.length}</span>}
+                  <TaskTimer task={t} onLogged={(taskId, ms) => setTasks(prev => addTimeSpent(prev, taskId, ms))} />
                 </div>
               </div>
 
               <div className="flex items-center gap-2 ml-4">
                 <button onClick={() => beginEdit(t)} className="p-2 rounded-lg bg-white border border-gray-100"><FiEdit2 /></button>
-                <button onClick={() => deleteTask(tid)} className="p-2 rounded-lg bg-red-50 text-red-600"><FiTrash2 /></button>
+                <button onClick={() => deleteTask(t)} className="p-2 rounded-lg bg-red-50 text-red-600"><FiTrash2 /></button>
               </div>
             </div>
           );
         })}
+        <LoadMore count={tasks.length} total={total} hasMore={hasMore} loading={loading} onMore={() => setPage(page + 1)} />
       </div>
 
+      {selection.selected.length > 0 && !editingId && (
+        <BulkTaskBar
+          tasks={tasks.filter((t) => selection.isSelected(t.id))}
+          selectable={selectable.length}
+          hasMore={hasMore}
+          total={total}
+          groupId={null}
+          canEdit
+          canDelete={() => true}
+          onSelectAll={selection.selectAll}
+          onDone={selection.set}
+          setTasks={setTasks}
+        />
+      )}
+
       {/* Inline edit panel */}
       {editingId && (
         <div className="fixed bottom-6 left-1/2 transform -translate-x-1/2 z-60 w-full max-w-3xl p-4 bg-white rounded-2xl shadow-2xl border border-gray-100">
           <div className="flex items-center justify-between mb-3">
-            <div className="font-semibold">Modifier la tâche</div>
+            <div className="font-semibold">{editOccurrence ? (editOccurrence.scope === "occurrence" ? "Modifier cette occurrence" : "Modifier toute la série") : "Modifier la tâche"}</div>
             <div className="flex gap-2">
-              <button onClick={() => { setEditingId(null); }} className="px-3 py-2 rounded-lg border">Annuler</button>
+              <button onClick={() => { setEditingId(null); setEditOccurrence(null); }} className="px-3 py-2 rounded-lg border">Annuler</button>
               <button onClick={saveEdit} className="px-3 py-2 rounded-lg bg-emerald-600 text-white">Enregistrer</button>
             </div>
           </div>
@@ -727,9 +2384,25 @@ function PersonalTasksBlock() {
               <div className="text-xs text-gray-600 mr-2">Fin</div>
               <input type="datetime-local" min={nowLocalMin()} value={editEnd} onChange={(e) => setEditEnd(e.target.value)} className="px-3 py-2 rounded-xl border border-gray-200" />
             </div>
+            <StatusSelect value={editStatus} onChange={setEditStatus} />
+            <PrioritySelect value={editPriority} onChange={setEditPriority} />
+            {editOccurrence?.scope !== "occurrence" && (
+              <div className="md:col-span-4"><RecurrenceEditor value={editRecurrence} onChange={setEditRecurrence} hasStart={!!editStart} /></div>
+            )}
+            <div className="md:col-span-4"><ReminderPicker value={editReminders} onChange={setEditReminders} hasStart={!!editStart} hasEnd={!!editEnd} /></div>
           </div>
         </div>
       )}
+
+      {detailTask && (
+        <TaskDetailPanel
+          task={detailTask}
+          members={[]}
+          canEdit
+          onChange={(update) => setTasks(prev => prev.map(t => (t.id === detailTask.id ? update(t) : t)))}
+          onClose={() => setDetailId(null)}
+        />
+      )}
     </>
   );
 }
@@ -740,41 +2413,143 @@ function PersonalTasksBlock() {
 
 function GroupPage() {
   const { id } = useParams();
-  const [group, setGroup] = useState<any>(null);
-  const [tasks, setTasks] = useState<any[]>([]);
+  const [group, setGroup] = useState<Group | null>(null);
+  const { filter, sort, page, assignee: assigneeFilter, setFilter, setSort, setPage, setAssignee: setAssigneeFilter } = useTaskListParams();
+  const { tasks, setTasks, total, hasMore, loading, reload } = usePagedTasks(id, toTaskQuery(filter, sort, assigneeFilter, getUserIdFromToken()), page);
   const [title, setTitle] = useState("");
   const [desc, setDesc] = useState("");
   const [startDate, setStartDate] = useState<string>("");
   const [endDate, setEndDate] = useState<string>("");
+  const [assignees, setAssignees] = useState<string[]>([]);
+  const [recurrence, setRecurrence] = useState<string | null>(null);
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [priority, setPriority] = useState<TaskPriority>("normale");
+  const [labelIds, setLabelIds] = useState<string[]>([]);
   const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
   const [editTitle, setEditTitle] = useState("");
   const [editDesc, setEditDesc] = useState("");
   const [editStart, setEditStart] = useState("");
   const [editEnd, setEditEnd] = useState("");
+  const [editStatus, setEditStatus] = useState<TaskStatus | "">("");
+  const [editAssignees, setEditAssignees] = useState<string[]>([]);
+  const [editPriority, setEditPriority] = useState<TaskPriority>("normale");
+  const [editLabelIds, setEditLabelIds] = useState<string[]>([]);
+  const [editRecurrence, setEditRecurrence] = useState<string | null>(null);
+  const [editReminders, setEditReminders] = useState<Reminder[]>([]);
+  const [editOccurrence, setEditOccurrence] = useState<{ occ: Task; scope: RecurrenceScope } | null>(null);
+  const [views, setViews] = useState<Record<string, TasksView>>({});
+  const [presence, setPresence] = useState<Member[]>([]);
+  const [live, setLive] = useState<RealtimeStatus | null>(null);
+  const [departures, setDepartures] = useState<Departure[]>([]);
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const [comments, setComments] = useState<Comment[] | null>(null);
+  const [unread, setUnread] = useState<Record<string, number>>({});
+  // read by the realtime handler, which only sees the first render's state
+  const detailRef = useRef<string | null>(null);
   const nav = useNavigate();
   const alerts = useAlerts();
 
-  useEffect(() => { if (id) { fetchGroup(); fetchTasks(); } }, [id]);
+  useEffect(() => { if (id) fetchGroup(); }, [id]);
+  useEffect(() => {
+    setUnread({});
+    if (id) commentsApi.unread(id).then(setUnread, () => {});
+  }, [id]);
+  useEffect(() => onOfflineEvent((e) => { if (e.type === "synced") reload(); }), [reload]);
+
+  // departures audit: reloaded whenever the member count changes (someone left or was removed)
+  const auditable = can(roleOf(group, getUserIdFromToken()), "member.audit");
+  const memberCount = group?.members.length ?? 0;
+  useEffect(() => {
+    if (!id || !auditable) { setDepartures([]); return; }
+    groupsApi.departures(id).then(setDepartures, () => setDepartures([]));
+  }, [id, auditable, memberCount]);
+
+  // other members' changes, merged as they arrive; our own come back too and merge as no-ops
+  useEffect(() => {
+    if (!id) return;
+    setPresence([]);
+    const self = getUserIdFromToken();
+    const notify = (e: RealtimeEvent, message: string) => {
+      if (e.type === "presence" || !e.actor || sameId(e.actor.id, self)) return;
+      alerts.showToast({ type: "info", message: `${e.actor.fullname || "Un membre"} ${message}` });
+    };
+
+    return connectGroupChannel(id, (e) => {
+      switch (e.type) {
+        case "task.created":
+          setTasks(prev => (prev.some(t => t.id === e.task.id) ? prev : sortByCreatedDesc([e.task, ...prev])));
+          notify(e, `a ajouté une tâche : ${e.task.title}`);
+          break;
+        case "task.updated":
+          syncReminders([e.task]);
+          // a task moved to another group (or to personal) leaves the list
+          setTasks(prev => prev.flatMap(t => (t.id !== e.task.id ? [t] : sameId(e.task.groupId, id) ? [e.task] : [])));
+          notify(e, `a modifié la tâche : ${e.task.title}`);
+          break;
+        case "task.deleted":
+          setTasks(prev => prev.filter(t => t.id !== e.taskId));
+          notify(e, "a supprimé une tâche");
+          break;
+        case "member.joined":
+          setGroup(g => (g && !g.members.some(m => m.id === e.member.id) ? { ...g, members: [...g.members, e.member] } : g));
+          notify(e, sameId(e.actor?.id, e.member.id) ? "a rejoint le groupe" : `a ajouté ${e.member.fullname || "un membre"} au groupe`);
+          break;
+        case "member.updated":
+          // role changes and ownership transfers: the member list drives the permissions
+          if (e.group) setGroup(e.group);
+          else setGroup(g => (g ? { ...g, members: g.members.map(m => (m.id === e.member.id ? { ...m, ...e.member } : m)) } : g));
+          if (sameId(e.member.id, self) && e.member.role) alerts.showToast({ type: "info", message: `Ton rôle dans ce groupe : ${ROLE_LABELS[e.member.role]}` });
+          break;
+        case "member.removed":
+          if (sameId(e.memberId, self)) {
+            // our own departure (leaveGroup) comes back too: it already navigated away
+            if (!sameId(e.actor?.id, self)) alerts.showToast({ type: "warning", message: "Tu as été retiré de ce groupe" });
+            nav("/dashboard");
+            return;
+          }
+          setGroup(g => (g ? { ...g, members: g.members.filter(m => m.id !== e.memberId) } : g));
+          notify(e, sameId(e.actor?.id, e.memberId) ? "a quitté le groupe" : "a retiré un membre du groupe");
+          break;
+        case "comment.created": {
+          const taskId = e.comment.taskId;
+          if (taskId && taskId === detailRef.current) {
+            setComments(prev => (prev && !prev.some(c => c.id === e.comment.id) ? [...prev, e.comment] : prev));
+            commentsApi.markRead(taskId).catch(() => {});
+          } else if (taskId && !sameId(e.comment.authorId, self)) {
+            setUnread(u => ({ ...u, [taskId]: (u[taskId] ?? 0) + 1 }));
+          }
+          if (e.comment.mentions.some(m => sameId(m, self))) notify(e, "t'a mentionné dans un commentaire");
+          break;
+        }
+        case "comment.updated":
+          setComments(prev => prev?.map(c => (c.id === e.comment.id ? e.comment : c)) ?? null);
+          break;
+        case "comment.deleted":
+          setComments(prev => prev?.filter(c => c.id !== e.commentId) ?? null);
+          break;
+        case "presence":
+          setPresence(e.members);
+          break;
+      }
+    }, setLive);
+  }, [id, alerts, nav, setTasks]);
+
+  /* 403: our role changed in the meantime, reload the group so the controls match it again */
+  function failed(err: unknown, fallback: string) {
+    const forbidden = apiErrorStatus(err) === 403;
+    if (forbidden) fetchGroup();
+    alerts.showToast({ type: forbidden ? "warning" : "error", title: forbidden ? "Action non autorisée" : undefined, message: apiErrorMessage(err, fallback) });
+  }
 
   async function fetchGroup() {
     try {
-      const res = await api.get(`/groups/${id}`);
-      setGroup(res.data);
-    } catch (err: any) {
-      if (err?.response?.status === 401) { localStorage.removeItem("token"); nav("/"); return; }
+      setGroup(await groupsApi.get(id!));
+    } catch (err) {
+      if (apiErrorStatus(err) === 401) return; // session manager already redirected to login
       alerts.showToast({ type: "error", message: "Impossible de charger le groupe" });
     }
   }
 
-  async function fetchTasks() {
-    try {
-      const res = await api.get(`/tasks/group/${id}`);
-      setTasks(sortByCreatedDesc(res.data || []));
-    } catch (err: any) {
-      alerts.showToast({ type: "error", message: "Impossible de charger les tâches" });
-    }
-  }
-
   function validateDateNotPastLocal(localVal?: string) {
     if (!localVal) return true;
     const given = new Date(localVal);
@@ -787,25 +2562,38 @@ function GroupPage() {
     if (endDate && startDate && new Date(endDate).getTime() < new Date(startDate).getTime()) { alerts.showToast({ type: "error", message: "La date/heure de fin doit être après la date de début" }); return; }
 
     try {
-      const payload: any = { title, description: desc, groupId: id };
+      const payload: TaskInput = { title, description: desc, groupId: id, assignees, priority, labels: labelIds };
       if (startDate) payload.startDate = localInputToIso(startDate);
       if (endDate) payload.endDate = localInputToIso(endDate);
-      const res = await api.post("/tasks", payload);
-      setTasks(prev => sortByCreatedDesc([res.data, ...prev]));
-      setTitle(""); setDesc(""); setStartDate(""); setEndDate("");
-      alerts.showToast({ type: "success", message: "Tâche ajoutée" });
-    } catch (err: any) {
-      alerts.showToast({ type: "error", message: err?.response?.data?.message || "Erreur création tâche" });
+      if (startDate && recurrence) payload.recurrence = recurrence;
+      const created = await tasksApi.create(payload);
+      if (reminders.length) saveReminders(created, reminders);
+      setTasks(prev => sortByCreatedDesc([created, ...prev]));
+      setTitle(""); setDesc(""); setStartDate(""); setEndDate(""); setAssignees([]); setRecurrence(null); setReminders([]); setPriority("normale"); setLabelIds([]);
+      announceCreate(alerts.showToast, setTasks, "Tâche ajoutée", created);
+    } catch (err) {
+      failed(err, "Erreur création tâche");
     }
   }
 
-  function startEdit(t: any) {
-    const tid = t._id || t.id;
-    setEditingTaskId(tid);
+  async function startEdit(t: Task) {
+    let scope: RecurrenceScope | null = null;
+    if (t.seriesId) {
+      scope = await askRecurrenceScope(alerts, "Modifier");
+      if (!scope) return;
+    }
+    setEditOccurrence(t.seriesId && scope ? { occ: t, scope } : null);
+    setEditRecurrence(scope === "occurrence" ? null : t.recurrence);
+    setEditReminders(getReminders(t.seriesId ?? t.id));
+    setEditingTaskId(t.id);
     setEditTitle(t.title || "");
     setEditDesc(t.description || "");
     setEditStart(isoToLocalInput(t.startDate));
     setEditEnd(isoToLocalInput(t.endDate));
+    setEditStatus(t.status ?? "");
+    setEditAssignees(t.assigneeIds);
+    setEditPriority(t.priority);
+    setEditLabelIds(t.labelIds);
   }
 
   async function saveEdit() {
@@ -814,61 +2602,285 @@ function GroupPage() {
     if (editStart && editEnd && new Date(editEnd).getTime() < new Date(editStart).getTime()) { alerts.showToast({ type: "error", message: "La date/heure de fin doit être après la date de début" }); return; }
 
     try {
-      const payload: any = { title: editTitle, description: editDesc };
+      const payload: TaskInput = { title: editTitle, description: editDesc, status: editStatus || null, assignees: editAssignees, priority: editPriority, labels: editLabelIds };
       if (editStart) payload.startDate = localInputToIso(editStart); else payload.startDate = null;
       if (editEnd) payload.endDate = localInputToIso(editEnd); else payload.endDate = null;
-
-      const res = await api.put(`/tasks/${editingTaskId}`, payload);
-      setTasks(prev => sortByCreatedDesc(prev.map(t => (String(t._id || t.id) === String(editingTaskId) ? res.data : t))));
+      if (editOccurrence?.scope !== "occurrence") payload.recurrence = editStart ? editRecurrence : null;
+
+      const series = editOccurrence && tasks.find(t => t.id === editOccurrence.occ.seriesId);
+      if (editOccurrence && series) {
+        const res = await saveRecurringEdit(series, editOccurrence.occ, editOccurrence.scope, payload);
+        saveReminders(res.detached ?? res.series, editReminders);
+        setTasks(prev => sortByCreatedDesc([...(res.detached ? [res.detached] : []), ...prev.map(t => (t.id === series.id ? res.series : t))]));
+        announceEdit(alerts.showToast, setTasks, { message: "Tâche mise à jour", before: [series], after: [res.series], created: res.detached ? [res.detached] : [] });
+      } else {
+        const before = tasks.find(t => t.id === editingTaskId);
+        const updated = await tasksApi.update(editingTaskId, payload, before);
+        saveReminders(updated, editReminders);
+        setTasks(prev => sortByCreatedDesc(prev.map(t => (t.id === editingTaskId ? updated : t))));
+        if (before) announceEdit(alerts.showToast, setTasks, { message: "Tâche mise à jour", before: [before], after: [updated] });
+        else alerts.showToast({ type: "success", message: "Tâche mise à jour" });
+      }
+      setEditOccurrence(null);
       setEditingTaskId(null); setEditTitle(""); setEditDesc(""); setEditStart(""); setEditEnd("");
-      alerts.showToast({ type: "success", message: "Tâche mise à jour" });
-    } catch (err: any) {
-      alerts.showToast({ type: "error", message: err?.response?.data?.message || "Erreur mise à jour" });
+    } catch (err) {
+      failed(err, "Erreur mise à jour");
     }
   }
 
-  async function deleteTask(idTask: string) {
-    const ok = await alerts.confirm({ message: "Supprimer cette tâche ?", okLabel: "Supprimer", cancelLabel: "Annuler" });
-    if (!ok) return;
+  async function moveTask(t: Task, status: TaskStatus) {
+    const series = t.seriesId ? tasks.find(x => x.id === t.seriesId) : undefined;
+    if (series) {
+      const scope = await askRecurrenceScope(alerts, "Modifier");
+      if (!scope) return;
+      try {
+        const res = await saveRecurringEdit(series, t, scope, { status });
+        setTasks(prev => sortByCreatedDesc([...(res.detached ? [res.detached] : []), ...prev.map(x => (x.id === series.id ? res.series : x))]));
+        announceEdit(alerts.showToast, setTasks, { message: `« ${t.title} » → ${STATUS_LABELS[status]}`, before: [series], after: [res.series], created: res.detached ? [res.detached] : [] });
+      } catch (err) {
+        failed(err, "Impossible de changer le statut");
+      }
+      return;
+    }
+    // optimistic: the card moves immediately, rolled back if the server refuses
+    setTasks(prev => prev.map(x => (x.id === t.id ? { ...x, status } : x)));
     try {
-      await api.delete(`/tasks/${idTask}`);
-      setTasks(prev => prev.filter((t: any) => String(t._id || t.id) !== String(idTask)));
-      alerts.showToast({ type: "success", message: "Tâche supprimée" });
-    } catch (err: any) {
-      alerts.showToast({ type: "error", message: err?.response?.data?.message || "Erreur suppression" });
+      const updated = await tasksApi.update(t.id, { status }, { ...t, status });
+      setTasks(prev => prev.map(x => (x.id === t.id ? updated : x)));
+      announceEdit(alerts.showToast, setTasks, { message: `« ${t.title} » → ${STATUS_LABELS[status]}`, before: [t], after: [updated] });
+    } catch (err) {
+      setTasks(prev => prev.map(x => (x.id === t.id ? t : x)));
+      failed(err, "Impossible de changer le statut");
     }
   }
 
+  // remembered per group; the route param can change without unmounting the page
+  const view = (id && views[id]) || readGroupView(id);
+  function changeView(v: TasksView) {
+    if (!id) return;
+    setViews(prev => ({ ...prev, [id]: v }));
+    localStorage.setItem(`groupView:${id}`, v);
+  }
+
+  async function deleteTask(task: Task) {
+    const series = task.seriesId ? tasks.find(t => t.id === task.seriesId) : undefined;
+    if (series) {
+      const scope = await askRecurrenceScope(alerts, "Supprimer");
+      if (!scope) return;
+      if (scope === "series") { deleteTasksUndoable([series], setTasks, alerts.showToast, "Série supprimée"); return; }
+      try {
+        const updated = await removeOccurrence(series, task);
+        setTasks(prev => prev.map(t => (t.id === series.id ? updated : t)));
+        announceEdit(alerts.showToast, setTasks, { message: "Occurrence supprimée", before: [series], after: [updated] });
+      } catch (err) {
+        failed(err, "Erreur suppression");
+      }
+      return;
+    }
+
+    deleteTasksUndoable([task], setTasks, alerts.showToast, "Tâche supprimée");
+  }
+
   async function deleteGroup() {
+    if (!group) return;
     const ok = await alerts.confirm({ message: "Supprimer ce groupe et toutes ses tâches ?", okLabel: "Supprimer", cancelLabel: "Annuler" });
     if (!ok) return;
+    // sent once the toast is gone; the dashboard hides the group meanwhile
+    deleteGroupUndoable(group, alerts.showToast);
+    nav("/dashboard");
+  }
+
+  async function createLabel(input: LabelInput) {
     try {
-      await api.delete(`/groups/${id}`);
-      alerts.showToast({ type: "success", message: "Groupe supprimé" });
-      nav("/dashboard");
-    } catch (err: any) {
-      alerts.showToast({ type: "error", message: err?.response?.data?.message || "Erreur suppression groupe" });
+      const label = await groupsApi.createLabel(id!, input);
+      setGroup((g) => (g ? { ...g, labels: [...g.labels, label] } : g));
+      return true;
+    } catch (err) {
+      failed(err, "Erreur création étiquette");
+      return false;
+    }
+  }
+
+  async function updateLabel(label: Label, input: LabelInput) {
+    try {
+      const updated = await groupsApi.updateLabel(id!, label.id, input);
+      setGroup((g) => (g ? { ...g, labels: g.labels.map((l) => (l.id === label.id ? updated : l)) } : g));
+      return true;
+    } catch (err) {
+      failed(err, "Erreur modification étiquette");
+      return false;
+    }
+  }
+
+  async function removeLabel(label: Label) {
+    const ok = await alerts.confirm({ message: `Supprimer l'étiquette « ${label.name} » ? Elle sera retirée de toutes les tâches.`, okLabel: "Supprimer", cancelLabel: "Annuler" });
+    if (!ok) return;
+    try {
+      await groupsApi.removeLabel(id!, label.id);
+      setGroup((g) => (g ? { ...g, labels: g.labels.filter((l) => l.id !== label.id) } : g));
+      setTasks(prev => prev.map(t => (t.labelIds.includes(label.id) ? { ...t, labelIds: t.labelIds.filter((x) => x !== label.id) } : t)));
+      if (filter.label === label.id) setFilter({ ...filter, label: "" });
+    } catch (err) {
+      failed(err, "Erreur suppression étiquette");
+    }
+  }
+
+  function removeMember(memberId: string) {
+    const member = group?.members.find((m) => m.id === memberId);
+    if (!group || !member) return;
+    removeMemberUndoable(group, member, setGroup, alerts.showToast, (err) => failed(err, "Erreur suppression membre"));
+  }
+
+  async function changeRole(memberId: string, role: GroupRole) {
+    try {
+      setGroup(await groupsApi.setMemberRole(id!, memberId, role));
+      alerts.showToast({ type: "success", message: `Rôle mis à jour : ${ROLE_LABELS[role]}` });
+    } catch (err) {
+      failed(err, "Erreur changement de rôle");
+    }
+  }
+
+  async function transferOwnership(member: Member) {
+    const ok = await alerts.confirm({
+      title: "Transférer la propriété",
+      message: `${member.fullname || "Ce membre"} deviendra propriétaire du groupe et tu passeras admin. Continuer ?`,
+      okLabel: "Transférer",
+      cancelLabel: "Annuler",
+    });
+    if (!ok) return;
+    try {
+      setGroup(await groupsApi.transferOwnership(id!, member.id));
+      alerts.showToast({ type: "success", message: "Propriété transférée" });
+    } catch (err) {
+      failed(err, "Erreur transfert de propriété");
     }
   }
 
-  async function removeMember(memberId: string) {
-    const ok = await alerts.confirm({ message: "Supprimer ce membre du groupe ?", okLabel: "Supprimer", cancelLabel: "Annuler" });
+  /* occurrences share the thread of their series */
+  function openDetail(t: Task) {
+    const taskId = t.seriesId ?? t.id;
+    detailRef.current = taskId;
+    setDetailId(taskId);
+    setComments(null);
+    commentsApi.list(taskId).then(setComments, () => {
+      setComments([]);
+      alerts.showToast({ type: "error", message: "Impossible de charger les commentaires" });
+    });
+    if (unread[taskId]) {
+      setUnread((u) => {
+        const next = { ...u };
+        delete next[taskId];
+        return next;
+      });
+      commentsApi.markRead(taskId).catch(() => {});
+    }
+  }
+
+  function closeDetail() {
+    detailRef.current = null;
+    setDetailId(null);
+  }
+
+  /*
+   * Owners pick a successor first (the group can't be left without owner), then everyone
+   * decides what happens to the tasks they created; being unassigned from the others is implicit.
+   */
+  async function leaveGroup() {
+    if (!group) return;
+    const others = group.members.filter((m) => !sameId(m.id, userId));
+    let successor: Member | null = null;
+
+    if (myRole === "owner") {
+      if (others.length === 0) {
+        const ok = await alerts.confirm({
+          title: "Quitter le groupe",
+          message: "Tu es le seul membre : le groupe n'aurait plus personne. Le supprimer avec toutes ses tâches ?",
+          okLabel: "Supprimer le groupe",
+          cancelLabel: "Annuler",
+        });
+        if (!ok) return;
+        // same deferred, undoable deletion as deleteGroup
+        deleteGroupUndoable(group, alerts.showToast);
+        nav("/dashboard");
+        return;
+      }
+      // admins first: they are the natural successors
+      const candidates = [...others].sort((a, b) => Number(b.role === "admin") - Number(a.role === "admin"));
+      const picked = await alerts.choose({
+        title: "Transférer la propriété",
+        message: "Le groupe doit garder un propriétaire. À qui le transférer avant de partir ?",
+        options: candidates.map((m) => ({ value: m.id, label: `${m.fullname || m.id.slice(0, 8)}${m.role === "admin" ? " (admin)" : ""}` })),
+      });
+      if (!picked) return;
+      successor = others.find((m) => m.id === picked) ?? null;
+    }
+
+    // every task of the group, not just the loaded pages
+    let all: Task[];
+    try {
+      all = await tasksApi.listByGroup(id!);
+    } catch (err) {
+      failed(err, "Impossible de charger les tâches du groupe");
+      return;
+    }
+    const mine = all.filter((t) => sameId(t.ownerId, userId));
+    const assigned = all.filter((t) => !sameId(t.ownerId, userId) && t.assigneeIds.some((a) => sameId(a, userId)));
+    let policy: LeaveTaskPolicy = "keep";
+    if (mine.length) {
+      const choice = await alerts.choose<LeaveTaskPolicy>({
+        title: "Tes tâches",
+        message: `Tu as créé ${mine.length} tâche${mine.length > 1 ? "s" : ""} dans ce groupe. Que doivent-elles devenir ?`,
+        options: [
+          { value: "keep", label: "Les laisser au groupe" },
+          { value: "personal", label: "Les reprendre en tâches personnelles" },
+          { value: "delete", label: "Les supprimer" },
+        ],
+      });
+      if (!choice) return;
+      policy = choice;
+    }
+
+    const details = [
+      successor ? `${successor.fullname || "Ce membre"} deviendra propriétaire.` : "",
+      mine.length ? `Tes tâches seront ${LEAVE_TASK_LABELS[policy]}.` : "",
+      assigned.length ? `Tu seras retiré de ${assigned.length} tâche${assigned.length > 1 ? "s" : ""} qui t'${assigned.length > 1 ? "étaient assignées" : "était assignée"}.` : "",
+    ].filter(Boolean).join(" ");
+    const ok = await alerts.confirm({
+      title: "Quitter le groupe",
+      message: `Tu n'auras plus accès à ${group.name || "ce groupe"}. ${details}`.trim(),
+      okLabel: "Quitter",
+      cancelLabel: "Annuler",
+    });
     if (!ok) return;
+
     try {
-      await api.delete(`/groups/${id}/members/${memberId}`);
-      setGroup((g: any) => ({ ...g, members: (g?.members || []).filter((m: any) => {
-        const mid = typeof m === "string" ? m : (m._id || m.id || m);
-        return String(mid) !== String(memberId);
-      }) }));
-      alerts.showToast({ type: "success", message: "Membre supprimé" });
-    } catch (err: any) {
-      alerts.showToast({ type: "error", message: err?.response?.data?.message || "Erreur suppression membre" });
+      if (successor) setGroup(await groupsApi.transferOwnership(id!, successor.id));
+      await groupsApi.leave(id!, policy);
+      // tasks taken back as personal keep their reminders, the rest is no longer ours
+      all.forEach((t) => { if (!(policy === "personal" && sameId(t.ownerId, userId))) forgetReminders(t.id); });
+      alerts.showToast({ type: "success", message: "Tu as quitté le groupe" });
+      nav("/dashboard");
+    } catch (err) {
+      // 409: still owner (e.g. the transfer went to someone who left meanwhile)
+      if (apiErrorStatus(err) === 409) {
+        fetchGroup();
+        alerts.showToast({ type: "warning", title: "Transfert requis", message: apiErrorMessage(err, "Transfère la propriété du groupe avant de le quitter") });
+        return;
+      }
+      failed(err, "Erreur en quittant le groupe");
     }
   }
 
   const userId = getUserIdFromToken();
-  const ownerId = group?.owner ? (group.owner._id || group.owner) : (Array.isArray(group?.members) ? group.members[0] : null);
-  const isOwner = String(ownerId) === String(userId);
+  const myRole = roleOf(group, userId);
+  const members = group?.members ?? [];
+  const labels = group?.labels ?? [];
+  const visibleTasks = filterByAssignee(tasks, assigneeFilter, userId);
+  // the list filters occurrences, each with its own dates and so its own status
+  const listedTasks = sortTasks(filterTasks(expandForList(visibleTasks), filter), sort);
+  const detailTask = detailId ? tasks.find((t) => t.id === detailId) : undefined;
+  const selectable = [...new Set(listedTasks.map((t) => t.seriesId ?? t.id))];
+  const selection = useTaskSelection(selectable);
 
   async function copyInviteCode() {
     try {
@@ -876,7 +2888,7 @@ function GroupPage() {
       if (!code) return alerts.showToast({ type: "info", message: "Aucun code" });
       await navigator.clipboard.writeText(code);
       alerts.showToast({ type: "success", message: "Code d'invitation copié" });
-    } catch (e) {
+    } catch {
       alerts.showToast({ type: "error", message: "Impossible de copier le code" });
     }
   }
@@ -888,136 +2900,228 @@ function GroupPage() {
           <div>
             <button onClick={() => nav("/dashboard")} className="text-sm text-emerald-600">◀ Retour</button>
             <h1 className="text-2xl sm:text-3xl font-bold mt-2">{group?.name || "Groupe"}</h1>
-            <div className="text-sm text-gray-600 mt-1">Code d'invitation: {group?.inviteCode || "—"}</div>
+            {can(myRole, "invite.view") && <div className="text-sm text-gray-600 mt-1">Code d'invitation: {group?.inviteCode || "—"}</div>}
+            <LivePresence status={live} presence={presence} members={members} selfId={userId} />
           </div>
           <div className="flex items-center gap-3">
             <div className="text-sm text-gray-600">Membres: {group?.members?.length || 0}</div>
-            {isOwner && <button onClick={deleteGroup} className="px-3 sm:px-4 py-2 sm:py-2 bg-red-500 text-white rounded-lg">Supprimer</button>}
+            {myRole && <span className="text-xs px-2 py-1 rounded-full bg-emerald-50 text-emerald-700">{ROLE_LABELS[myRole]}</span>}
+            {myRole && <button onClick={leaveGroup} className="px-3 sm:px-4 py-2 sm:py-2 border border-red-200 text-red-600 bg-white rounded-lg">Quitter le groupe</button>}
+            {can(myRole, "group.delete") && <button onClick={deleteGroup} className="px-3 sm:px-4 py-2 sm:py-2 bg-red-500 text-white rounded-lg">Supprimer</button>}
           </div>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           <div className="lg:col-span-2 space-y-6">
-            <div className="bg-white p-4 sm:p-6 rounded-2xl shadow-lg border border-gray-50">
-              <h3 className="text-lg font-semibold mb-4">Nouvelle tâche</h3>
+            {can(myRole, "task.create") ? (
+              <div className="bg-white p-4 sm:p-6 rounded-2xl shadow-lg border border-gray-50">
+                <h3 className="text-lg font-semibold mb-4">Nouvelle tâche</h3>
+
+                <div className="space-y-3">
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 block mb-1">Titre</label>
+                    <input
+                      value={title}
+                      onChange={(e) => setTitle(e.target.value)}
+                      placeholder="Titre"
+                      className="w-full px-4 py-3 rounded-xl border border-gray-200 min-w-0 box-border"
+                    />
+                  </div>
 
-              <div className="space-y-3">
-                <div>
-                  <label className="text-sm font-medium text-gray-700 block mb-1">Titre</label>
-                  <input
-                    value={title}
-                    onChange={(e) => setTitle(e.target.value)}
-                    placeholder="Titre"
-                    className="w-full px-4 py-3 rounded-xl border border-gray-200 min-w-0 box-border"
-                  />
-                </div>
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 block mb-1">Description</label>
+                    <input
+                      value={desc}
+                      onChange={(e) => setDesc(e.target.value)}
+                      placeholder="Description"
+                      className="w-full px-4 py-3 rounded-xl border border-gray-200 min-w-0 box-border"
+                    />
+                  </div>
 
-                <div>
-                  <label className="text-sm font-medium text-gray-700 block mb-1">Description</label>
-                  <input
-                    value={desc}
-                    onChange={(e) => setDesc(e.target.value)}
-                    placeholder="Description"
-                    className="w-full px-4 py-3 rounded-xl border border-gray-200 min-w-0 box-border"
-                  />
-                </div>
+                  {members.length > 0 && <AssigneePicker members={members} value={assignees} onChange={setAssignees} />}
+                  <div className="flex flex-wrap items-center gap-3">
+                    <PrioritySelect value={priority} onChange={setPriority} />
+                    <LabelPicker labels={labels} value={labelIds} onChange={setLabelIds} />
+                  </div>
 
-                {/* Updated responsive block in GroupPage */}
-                <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3">
-                  <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3 w-full sm:max-w-[640px]">
-                    <div className="w-full sm:w-auto flex items-center gap-2">
-                      <label className="text-xs text-gray-600 mr-2">Début</label>
-                      <input
-                        type="datetime-local"
-                        min={nowLocalMin()}
-                        value={startDate}
-                        onChange={(e) => setStartDate(e.target.value)}
-                        placeholder="Début"
-                        className="px-3 py-2 rounded-xl border border-gray-200 w-full min-w-0 box-border pr-10"
-                      />
-                    </div>
+                  <RecurrenceEditor value={recurrence} onChange={setRecurrence} hasStart={!!startDate} />
+                  <ReminderPicker value={reminders} onChange={setReminders} hasStart={!!startDate} hasEnd={!!endDate} />
+
+                  {/* Updated responsive block in GroupPage */}
+                  <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3">
+                    <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3 w-full sm:max-w-[640px]">
+                      <div className="w-full sm:w-auto flex items-center gap-2">
+                        <label className="text-xs text-gray-600 mr-2">Début</label>
+                        <input
+                          type="datetime-local"
+                          min={nowLocalMin()}
+                          value={startDate}
+                          onChange={(e) => setStartDate(e.target.value)}
+                          placeholder="Début"
+                          className="px-3 py-2 rounded-xl border border-gray-200 w-full min-w-0 box-border pr-10"
+                        />
+                      </div>
 
-                    <div className="w-full sm:w-auto flex items-center gap-2">
-                      <label className="text-xs text-gray-600 ml-0 sm:ml-3 mr-2">Fin</label>
-                      <input
-                        type="datetime-local"
-                        min={nowLocalMin()}
-                        value={endDate}
-                        onChange={(e) => setEndDate(e.target.value)}
-                        placeholder="Fin"
-                        className="px-3 py-2 rounded-xl border border-gray-200 w-full min-w-0 box-border pr-10"
-                      />
+                      <div className="w-full sm:w-auto flex items-center gap-2">
+                        <label className="text-xs text-gray-600 ml-0 sm:ml-3 mr-2">Fin</label>
+                        <input
+                          type="datetime-local"
+                          min={nowLocalMin()}
+                          value={endDate}
+                          onChange={(e) => setEndDate(e.target.value)}
+                          placeholder="Fin"
+                          className="px-3 py-2 rounded-xl border border-gray-200 w-full min-w-0 box-border pr-10"
+                        />
+                      </div>
                     </div>
-                  </div>
 
-                  <div className="w-full sm:w-auto flex justify-end">
-                    <button onClick={addTask} className="flex items-center gap-2 px-5 py-3 rounded-xl bg-emerald-600 text-white" aria-label="Ajouter une tâche">
-                      <span className="hidden sm:inline-flex"><FiPlus /></span>
-                      <span>Ajouter</span>
-                    </button>
+                    <div className="w-full sm:w-auto flex justify-end">
+                      <button onClick={addTask} className="flex items-center gap-2 px-5 py-3 rounded-xl bg-emerald-600 text-white" aria-label="Ajouter une tâche">
+                        <span className="hidden sm:inline-flex"><FiPlus /></span>
+                        <span>Ajouter</span>
+                      </button>
+                    </div>
                   </div>
                 </div>
               </div>
+            ) : group && (
+              <div className="p-4 rounded-2xl bg-gray-50 text-sm text-gray-600">Lecture seule : ton rôle ({ROLE_LABELS[myRole ?? "viewer"]}) ne permet pas de modifier les tâches de ce groupe.</div>
+            )}
+
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              {(view === "list" || view === "board") && (
+                <>
+                  <IcsTools tasks={tasks} name={group?.name || "Groupe"} groupId={id} onImported={can(myRole, "task.create") ? (created) => setTasks(prev => sortByCreatedDesc([...created, ...prev])) : undefined} />
+                  {group && <DataTools group={group} onImported={can(myRole, "task.create") ? (created) => setTasks(prev => sortByCreatedDesc([...created, ...prev])) : undefined} />}
+                  <select value={assigneeFilter} onChange={(e) => setAssigneeFilter(e.target.value)} aria-label="Filtrer par assignation" className="px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm">
+                    <option value="all">Toutes les tâches</option>
+                    <option value="mine">Mes tâches</option>
+                    <option value="unassigned">Non assignées</option>
+                    {members.map((m) => <option key={m.id} value={m.id}>{m.fullname || m.id.slice(0, 8)}</option>)}
+                  </select>
+                  <TaskFilterBar filter={filter} onFilter={setFilter} sort={sort} onSort={setSort} labels={labels} />
+                </>
+              )}
+              <div className="inline-flex rounded-xl border border-gray-200 bg-white p-1 text-sm" role="group" aria-label="Affichage des tâches">
+                <button onClick={() => changeView("list")} aria-pressed={view === "list"} className={`flex items-center gap-1 px-3 py-1 rounded-lg ${view === "list" ? "bg-emerald-600 text-white" : "text-gray-600"}`}><FiList /> Liste</button>
+                <button onClick={() => changeView("board")} aria-pressed={view === "board"} className={`flex items-center gap-1 px-3 py-1 rounded-lg ${view === "board" ? "bg-emerald-600 text-white" : "text-gray-600"}`}><FiColumns /> Tableau</button>
+                <button onClick={() => changeView("activity")} aria-pressed={view === "activity"} className={`flex items-center gap-1 px-3 py-1 rounded-lg ${view === "activity" ? "bg-emerald-600 text-white" : "text-gray-600"}`}><FiActivity /> Activité</button>
+                <button onClick={() => changeView("stats")} aria-pressed={view === "stats"} className={`flex items-center gap-1 px-3 py-1 rounded-lg ${view === "stats" ? "bg-emerald-600 text-white" : "text-gray-600"}`}><FiBarChart2 /> Statistiques</button>
+              </div>
             </div>
 
+            {view === "stats" ? (
+              <GroupAnalytics groupId={id} members={members} />
+            ) : view === "activity" ? (
+              <ActivityFeed groupId={id} members={members} labels={labels} />
+            ) : view === "board" ? (
+              <>
+                <TaskBoard tasks={filterTasks(expandForList(visibleTasks), filter)} members={members} labels={labels} onMove={can(myRole, "task.edit") ? moveTask : undefined} onOpen={openDetail} unread={unread} />
+                <LoadMore count={tasks.length} total={total} hasMore={hasMore} loading={loading} onMore={() => setPage(page + 1)} />
+              </>
+            ) : (
             <div className="space-y-3">
-              {tasks.length === 0 && <div className="p-6 rounded-2xl bg-gray-50 text-center">Aucune tâche</div>}
-              {tasks.map((t: any) => {
-                const tid = t._id || t.id;
-                const status = computeStatusFromDates(t.startDate, t.endDate);
-                const badgeColor = status === "En cours" ? "green" : status === "Terminée" ? "gray" : "yellow";
+              {listedTasks.length === 0 && <div className="p-6 rounded-2xl bg-gray-50 text-center">{loading ? "Chargement…" : tasks.length || isFiltered(filter) || assigneeFilter !== "all" ? "Aucune tâche ne correspond aux filtres" : "Aucune tâche"}</div>}
+              {listedTasks.map((t) => {
+                const tid = t.id;
+                const isEditing = editingTaskId === tid;
                 return (
                   <div key={tid} className="p-4 rounded-2xl bg-white shadow-sm border border-gray-50 flex items-start justify-between">
+                    {!isEditing && can(myRole, "task.edit") && <SelectBox checked={selection.isSelected(t.seriesId ?? t.id)} label={t.title} onToggle={(range) => selection.toggle(t.seriesId ?? t.id, range)} />}
+                    {isEditing ? (
+                    <div className="flex-1 min-w-0 grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <input value={editTitle} onChange={(e) => setEditTitle(e.target.value)} className="px-4 py-2 rounded-xl border border-gray-200 min-w-0" placeholder="Titre" />
+                      <input value={editDesc} onChange={(e) => setEditDesc(e.target.value)} className="px-4 py-2 rounded-xl border border-gray-200 min-w-0" placeholder="Description" />
+                      <div className="flex items-center gap-2">
+                        <div className="text-xs text-gray-600 mr-2">Début</div>
+                        <input type="datetime-local" min={nowLocalMin()} value={editStart} onChange={(e) => setEditStart(e.target.value)} className="px-3 py-2 rounded-xl border border-gray-200 min-w-0" />
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <div className="text-xs text-gray-600 mr-2">Fin</div>
+                        <input type="datetime-local" min={nowLocalMin()} value={editEnd} onChange={(e) => setEditEnd(e.target.value)} className="px-3 py-2 rounded-xl border border-gray-200 min-w-0" />
+                      </div>
+                      <StatusSelect value={editStatus} onChange={setEditStatus} />
+                      <PrioritySelect value={editPriority} onChange={setEditPriority} />
+                      {labels.length > 0 && <div className="md:col-span-2"><LabelPicker labels={labels} value={editLabelIds} onChange={setEditLabelIds} /></div>}
+                      {members.length > 0 && <div className="md:col-span-2"><AssigneePicker members={members} value={editAssignees} onChange={setEditAssignees} /></div>}
+                      {editOccurrence?.scope !== "occurrence" && <div className="md:col-span-2"><RecurrenceEditor value={editRecurrence} onChange={setEditRecurrence} hasStart={!!editStart} /></div>}
+                      <div className="md:col-span-2"><ReminderPicker value={editReminders} onChange={setEditReminders} hasStart={!!editStart} hasEnd={!!editEnd} /></div>
+                    </div>
+                    ) : (
                     <div className="flex-1 min-w-0">
-                      <div className="font-semibold text-lg truncate">{t.title}</div>
-                      <div className="text-sm text-gray-600 mt-1 truncate">{t.description}</div>
+                      <button onClick={() => openDetail(t)} className="block max-w-full font-semibold text-lg truncate text-left hover:text-emerald-700">{t.title}</button>
+                      <div className="text-sm text-gray-600 mt-1 truncate">{markdownToText(t.description)}</div>
                       <div className="flex items-center gap-3 mt-3 text-xs text-gray-500 flex-wrap">
                         <div className="flex items-center gap-1"><FiClock /> Début: {t.startDate ? new Date(t.startDate).toLocaleString() : "—"}</div>
                         <div className="flex items-center gap-1"><FiCalendar /> Fin: {t.endDate ? new Date(t.endDate).toLocaleString() : "—"}</div>
-                        <div><Badge color={badgeColor as any}>{status}</Badge></div>
+                        <TaskStatusBadge task={t} />
+                        <PriorityBadge priority={t.priority} />
+                        <LabelChips ids={t.labelIds} labels={labels} />
+                        {t.pending && <PendingSyncBadge />}
+                        <RecurrenceBadge rule={t.recurrence} />
+                        <ReminderBadge taskId={t.seriesId ?? t.id} />
+                        <ChecklistProgress items={t.checklist} />
+                        {t.attachments.length > 0 && <span className="flex items-center gap-1" title="Pièces jointes"><FiPaperclip /> {t.attachments.length}</span>}
+                        <AssigneeAvatars ids={t.assigneeIds} members={members} />
+                        <TaskTimer task={t} onLogged={can(myRole, "task.edit") ? (taskId, ms) => setTasks(prev => addTimeSpent(prev, taskId, ms)) : undefined} />
                       </div>
                     </div>
+                    )}
 
                     <div className="flex flex-col gap-2 ml-4">
-                      {String(editingTaskId) === String(tid) ? (
+                      {isEditing ? (
                         <>
                           <button onClick={saveEdit} className="px-3 py-2 rounded-lg bg-emerald-600 text-white">Enregistrer</button>
-                          <button onClick={() => setEditingTaskId(null)} className="px-3 py-2 rounded-lg border">Annuler</button>
+                          <button onClick={() => { setEditingTaskId(null); setEditOccurrence(null); }} className="px-3 py-2 rounded-lg border">Annuler</button>
                         </>
                       ) : (
                         <>
-                          <button onClick={() => startEdit(t)} className="p-2 rounded-lg bg-white border"><FiEdit2 /></button>
-                          <button onClick={() => deleteTask(tid)} className="p-2 rounded-lg bg-red-50 text-red-600"><FiTrash2 /></button>
+                          <CommentsButton count={unread[t.seriesId ?? t.id] ?? 0} onClick={() => openDetail(t)} />
+                          {can(myRole, "task.edit") && <button onClick={() => startEdit(t)} className="p-2 rounded-lg bg-white border"><FiEdit2 /></button>}
+                          {canDeleteTask(myRole, t, userId) && <button onClick={() => deleteTask(t)} className="p-2 rounded-lg bg-red-50 text-red-600"><FiTrash2 /></button>}
                         </>
                       )}
                     </div>
                   </div>
                 );
               })}
+              <LoadMore count={tasks.length} total={total} hasMore={hasMore} loading={loading} onMore={() => setPage(page + 1)} />
             </div>
+            )}
           </div>
 
           <aside className="bg-white p-4 sm:p-6 rounded-2xl shadow-lg border border-gray-50">
             <h4 className="font-semibold text-lg mb-3">Membres</h4>
             <div className="space-y-3">
-              {(group?.members || []).map((m: any) => {
-                const memberId = typeof m === "string" ? m : (m._id || m.id || m);
-                const isSelf = String(memberId) === String(getUserIdFromToken());
-                const isOwnerMember = String(memberId) === String(group?.owner?._id || group?.owner);
+              {(group?.members || []).map((m) => {
+                const memberId = m.id;
+                const isSelf = sameId(memberId, userId);
+                const role = m.role ?? "member";
+                const manageable = !isSelf && canManageMember(myRole, role);
+                const roles = assignableRoles(myRole);
                 return (
-                  <div key={String(memberId)} className="flex items-center justify-between p-3 rounded-xl bg-gray-50">
+                  <div key={memberId} className="flex items-center justify-between p-3 rounded-xl bg-gray-50">
                     <div className="flex items-center gap-3">
-                      <div className="w-8 h-8 rounded-md bg-emerald-200 text-emerald-700 flex items-center justify-center font-semibold">{(m.fullname || String(memberId))[0]?.toUpperCase()}</div>
-                      <div className="text-sm font-medium truncate">{m.fullname || String(memberId).slice(0,8)}</div>
+                      <MemberAvatar member={m} />
+                      <div className="text-sm font-medium truncate">{m.fullname || memberId.slice(0,8)}</div>
+                      {presence.some((p) => p.id === memberId) && <span className="w-2 h-2 rounded-full bg-emerald-500 shrink-0" title="Sur la page du groupe" />}
                     </div>
                     <div className="flex items-center gap-2">
                       <div className="text-xs text-gray-500">
                         {isSelf ? <span className="px-2 py-1 rounded-full bg-emerald-50 text-emerald-700">Moi</span> : null}
-                        {isOwnerMember && !isSelf ? <span className="ml-2 px-2 py-1 rounded-full bg-emerald-50 text-emerald-700">Propriétaire</span> : null}
+                        {!manageable && role !== "member" ? <span className="ml-2 px-2 py-1 rounded-full bg-emerald-50 text-emerald-700">{ROLE_LABELS[role]}</span> : null}
                       </div>
 
-                      {isOwner && !isOwnerMember && !isSelf && (
-                        <button onClick={() => removeMember(String(memberId))} title="Retirer du groupe" className="px-2 py-1 rounded-lg bg-red-50 text-red-600 text-xs">Supprimer</button>
+                      {manageable && (
+                        <select value={role} onChange={(e) => changeRole(memberId, e.target.value as GroupRole)} aria-label={`Rôle de ${m.fullname || memberId.slice(0, 8)}`} className="px-2 py-1 rounded-lg border border-gray-200 bg-white text-xs">
+                          {roles.map((r) => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                        </select>
+                      )}
+                      {!isSelf && can(myRole, "group.transfer") && (
+                        <button onClick={() => transferOwnership(m)} title="Transférer la propriété du groupe" className="px-2 py-1 rounded-lg border border-emerald-200 text-emerald-700 text-xs">Transférer</button>
+                      )}
+                      {manageable && (
+                        <button onClick={() => removeMember(memberId)} title="Retirer du groupe" className="px-2 py-1 rounded-lg bg-red-50 text-red-600 text-xs">Supprimer</button>
                       )}
                     </div>
                   </div>
@@ -1025,6 +3129,7 @@ function GroupPage() {
               })}
             </div>
 
+            {can(myRole, "invite.view") && (
             <div className="mt-6">
               <div className="text-sm font-medium text-gray-700 mb-2">Code d'invitation</div>
 
@@ -1037,133 +3142,2702 @@ function GroupPage() {
               </button>
 
               <p className="text-xs text-gray-500 mt-2 text-center">Partage ce code pour inviter des membres</p>
+              {can(myRole, "invite.manage") && (
+                <Link to={`/groups/${id}/invitations`} className="block mt-3 text-sm text-emerald-600 font-medium text-center">→ Gérer les invitations</Link>
+              )}
             </div>
+            )}
+
+            {(labels.length > 0 || can(myRole, "label.manage")) && (
+              <LabelManager labels={labels} onCreate={can(myRole, "label.manage") ? createLabel : undefined} onUpdate={can(myRole, "label.manage") ? updateLabel : undefined} onRemove={can(myRole, "label.manage") ? removeLabel : undefined} />
+            )}
+
+            {departures.length > 0 && <DeparturesLog departures={departures} />}
           </aside>
         </div>
+
+        {view === "list" && selection.selected.length > 0 && (
+          <BulkTaskBar
+            tasks={tasks.filter((t) => selection.isSelected(t.id))}
+            selectable={selectable.length}
+            hasMore={hasMore}
+            total={total}
+            groupId={id ?? null}
+            canEdit={can(myRole, "task.edit")}
+            canDelete={(t) => canDeleteTask(myRole, t, userId)}
+            onSelectAll={selection.selectAll}
+            onDone={selection.set}
+            setTasks={setTasks}
+          />
+        )}
+
+        {detailTask && (
+          <TaskDetailPanel
+            task={detailTask}
+            members={members}
+            labels={labels}
+            canEdit={can(myRole, "task.edit")}
+            onChange={(update) => setTasks(prev => prev.map(t => (t.id === detailTask.id ? update(t) : t)))}
+            onClose={closeDetail}
+            thread={<CommentsThread taskId={detailTask.id} members={members} comments={comments} userId={userId} canComment={can(myRole, "comment.create")} onCommentsChange={setComments} />}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+/* the group's labels; creating, renaming, recoloring and deleting them is for owners and admins (clicking a label loads it in the form) */
+function LabelManager({ labels, onCreate, onUpdate, onRemove }: { labels: Label[]; onCreate?: (input: LabelInput) => Promise<boolean>; onUpdate?: (label: Label, input: LabelInput) => Promise<boolean>; onRemove?: (label: Label) => void }) {
+  const [name, setName] = useState("");
+  const [color, setColor] = useState<LabelColor>("blue");
+  const [editing, setEditing] = useState<Label | null>(null);
+
+  function edit(label: Label | null) {
+    setEditing(label);
+    setName(label?.name ?? "");
+    setColor(label?.color ?? "blue");
+  }
+
+  async function submit(e: FormEvent) {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (editing) {
+      if (onUpdate && await onUpdate(editing, { name: trimmed, color })) edit(null);
+    } else if (onCreate && await onCreate({ name: trimmed, color })) {
+      setName("");
+    }
+  }
+
+  return (
+    <div className="mt-6">
+      <div className="text-sm font-medium text-gray-700 mb-2">Étiquettes</div>
+      <div className="flex flex-wrap gap-2">
+        {labels.length === 0 && <span className="text-xs text-gray-500">Aucune étiquette</span>}
+        {labels.map((l) => (
+          <span key={l.id} className={`inline-flex items-center gap-1 ${editing?.id === l.id ? "rounded-full ring-2 ring-emerald-300" : ""}`}>
+            {onUpdate ? <button onClick={() => edit(l)} title="Renommer / changer la couleur"><LabelChip label={l} /></button> : <LabelChip label={l} />}
+            {onRemove && <button onClick={() => { if (editing?.id === l.id) edit(null); onRemove(l); }} aria-label={`Supprimer l'étiquette ${l.name}`} className="text-gray-400 hover:text-red-500"><FiX /></button>}
+          </span>
+        ))}
       </div>
+      {(onCreate || editing) && (
+        <form onSubmit={submit} className="mt-3 space-y-2">
+          <input value={name} onChange={(e) => setName(e.target.value)} maxLength={30} placeholder={editing ? "Nom de l'étiquette" : "Nouvelle étiquette"} aria-label={editing ? `Renommer l'étiquette ${editing.name}` : undefined} className="w-full px-3 py-2 rounded-xl border border-gray-200 text-sm" />
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex flex-wrap gap-1" role="radiogroup" aria-label="Couleur">
+              {LABEL_COLORS.map((c) => (
+                <button key={c} type="button" role="radio" aria-checked={color === c} aria-label={c} onClick={() => setColor(c)} className={`w-5 h-5 rounded-full ${LABEL_DOT[c]} ${color === c ? "ring-2 ring-offset-1 ring-gray-400" : ""}`} />
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              {editing && <button type="button" onClick={() => edit(null)} className="px-3 py-1 rounded-lg border border-gray-200 text-sm">Annuler</button>}
+              <button type="submit" disabled={!name.trim()} className="px-3 py-1 rounded-lg bg-emerald-600 text-white text-sm disabled:opacity-50">{editing ? "Enregistrer" : "Ajouter"}</button>
+            </div>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
+
+/* owner/admin view of who left the group, and what became of their tasks */
+function DeparturesLog({ departures }: { departures: Departure[] }) {
+  return (
+    <div className="mt-6">
+      <div className="text-sm font-medium text-gray-700 mb-2">Départs</div>
+      <div className="space-y-2">
+        {departures.map((d) => (
+          <div key={d.id} className="p-3 rounded-xl bg-gray-50 text-xs text-gray-600">
+            <div className="flex items-center gap-2">
+              <MemberAvatar small member={d.member} />
+              <span className="font-medium text-gray-800 truncate">{d.member.fullname || d.member.id.slice(0, 8)}</span>
+              <span>{d.reason === "removed" ? `retiré${d.by?.fullname ? ` par ${d.by.fullname}` : ""}` : "a quitté le groupe"}</span>
+            </div>
+            <div className="mt-1 flex items-center justify-between gap-2">
+              <span>{d.taskCount > 0 && d.tasks ? `${d.taskCount} tâche${d.taskCount > 1 ? "s" : ""} ${LEAVE_TASK_LABELS[d.tasks]}` : "Aucune tâche créée"}</span>
+              {d.at && <span className="text-gray-400">{new Date(d.at).toLocaleDateString()}</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const LIVE_LABELS: Record<RealtimeStatus["state"], { label: string; dot: string }> = {
+  open: { label: "En direct", dot: "bg-emerald-500" },
+  connecting: { label: "Connexion…", dot: "bg-yellow-400" },
+  closed: { label: "Temps réel indisponible", dot: "bg-gray-300" },
+};
+
+/* realtime connection state + the other members who currently have the group open */
+function LivePresence({ status, presence, members, selfId }: { status: RealtimeStatus | null; presence: Member[]; members: Member[]; selfId: string | null }) {
+  if (!status) return null;
+  const others = presence
+    .filter((p) => !sameId(p.id, selfId))
+    .map((p) => members.find((m) => m.id === p.id) ?? p);
+  const { label, dot } = LIVE_LABELS[status.state];
+  return (
+    <div className="flex items-center gap-3 mt-2 text-xs text-gray-500 flex-wrap">
+      <span className="flex items-center gap-1" title={status.transport === "sse" ? "Server-Sent Events" : "WebSocket"}>
+        <span className={`w-2 h-2 rounded-full ${dot}`} /> {label}
+      </span>
+      {status.state === "open" && others.length > 0 && (
+        <span className="flex items-center gap-2">
+          <span className="flex items-center -space-x-1">{others.map((m) => <MemberAvatar key={m.id} small member={m} />)}</span>
+          {others.length === 1 ? `${others[0].fullname || "Un membre"} consulte aussi ce groupe` : `${others.length} membres consultent aussi ce groupe`}
+        </span>
+      )}
     </div>
   );
 }
 
 /* ==========================
-   Profile Drawer (global)
+   Task detail (Markdown description, checklist, attachments, comments)
    ========================== */
 
-function ProfileDrawer({ open, onClose }: { open: boolean; onClose: () => void }) {
-  const [user, setUser] = useState<any>(null);
-  const nav = useNavigate();
+function CommentsButton({ count, onClick }: { count: number; onClick: () => void }) {
+  return (
+    <button onClick={onClick} title={count ? `${count} commentaire${count > 1 ? "s" : ""} non lu${count > 1 ? "s" : ""}` : "Discussion"} className="relative p-2 rounded-lg bg-white border">
+      <FiMessageSquare />
+      {count > 0 && <span className="absolute -top-1.5 -right-1.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] leading-[18px] text-center">{count > 99 ? "99+" : count}</span>}
+    </button>
+  );
+}
+
+/* textarea with @mention autocompletion on the group members; Ctrl/Cmd+Enter submits */
+function MentionTextarea({ value, onChange, members, onSubmit, placeholder, autoFocus = false }: { value: string; onChange: (v: string) => void; members: Member[]; onSubmit: () => void; placeholder?: string; autoFocus?: boolean }) {
+  const [caret, setCaret] = useState(0);
+  const [active, setActive] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+  const ref = useRef<HTMLTextAreaElement>(null);
+  const query = dismissed ? null : mentionQuery(value, caret);
+  const suggestions = query ? suggestMembers(query.query, members) : [];
+
+  function pick(m: Member) {
+    if (!query) return;
+    const inserted = `@${m.fullname} `;
+    const next = value.slice(0, query.start) + inserted + value.slice(caret);
+    const pos = query.start + inserted.length;
+    onChange(next);
+    setCaret(pos);
+    requestAnimationFrame(() => { ref.current?.focus(); ref.current?.setSelectionRange(pos, pos); });
+  }
+
+  function onKeyDown(e: KeyboardEvent<HTMLTextAreaElement>) {
+    if (suggestions.length) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        setActive((a) => (a + (e.key === "ArrowDown" ? 1 : suggestions.length - 1)) % suggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") { e.preventDefault(); pick(suggestions[Math.min(active, suggestions.length - 1)]); return; }
+      // stopPropagation: Escape only closes the suggestions, not the panel around
+      if (e.key === "Escape") { e.preventDefault(); e.stopPropagation(); setDismissed(true); return; }
+    }
+    if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) { e.preventDefault(); onSubmit(); }
+  }
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={ref}
+        autoFocus={autoFocus}
+        value={value}
+        rows={2}
+        placeholder={placeholder}
+        onChange={(e) => { onChange(e.target.value); setCaret(e.target.selectionStart); setActive(0); setDismissed(false); }}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+        onKeyDown={onKeyDown}
+        className="w-full px-3 py-2 rounded-xl border border-gray-200 text-sm resize-y min-w-0 box-border"
+      />
+      {suggestions.length > 0 && (
+        <div role="listbox" className="absolute left-0 bottom-full mb-1 z-10 w-64 max-w-full bg-white rounded-xl shadow-lg border border-gray-100 py-1">
+          {suggestions.map((m, i) => (
+            <button
+              key={m.id}
+              role="option"
+              aria-selected={i === active}
+              onMouseDown={(e) => { e.preventDefault(); pick(m); }}
+              className={`w-full flex items-center gap-2 px-3 py-2 text-sm text-left ${i === active ? "bg-emerald-50" : ""}`}
+            >
+              <MemberAvatar small member={m} /> {m.fullname}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CommentBody({ body, members, selfId }: { body: string; members: Member[]; selfId: string | null }) {
+  return (
+    <div className="text-sm text-gray-800 whitespace-pre-wrap break-words">
+      {splitMentions(body, members).map((p, i) => ("member" in p
+        ? <span key={i} className={`px-1 rounded font-medium ${sameId(p.member.id, selfId) ? "bg-yellow-100 text-yellow-800" : "bg-emerald-50 text-emerald-700"}`}>{p.text}</span>
+        : <span key={i}>{p.text}</span>))}
+    </div>
+  );
+}
+
+type CommentsUpdate = (update: (prev: Comment[] | null) => Comment[] | null) => void;
+
+/* replies deeper than this are shown at this indentation */
+const MAX_THREAD_INDENT = 3;
+
+/* the thread itself lives with the caller (GroupPage merges realtime events into it) */
+function CommentsThread({ taskId, members, comments, userId, canComment, onCommentsChange }: { taskId: string; members: Member[]; comments: Comment[] | null; userId: string | null; canComment: boolean; onCommentsChange: CommentsUpdate }) {
+  const [draft, setDraft] = useState("");
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyDraft, setReplyDraft] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState("");
   const alerts = useAlerts();
 
-  useEffect(() => {
-    if (open) fetchMe();
-  }, [open]);
+  const upsert = (c: Comment) => onCommentsChange((prev) => (prev ? (prev.some((x) => x.id === c.id) ? prev.map((x) => (x.id === c.id ? c : x)) : [...prev, c]) : [c]));
 
-  async function fetchMe() {
+  async function post(body: string, parentId: string | null) {
+    if (!body.trim()) return false;
     try {
-      const res = await api.get("/auth/me");
-      setUser(res.data);
-    } catch (err: any) {
-      if (err?.response?.status === 401) { localStorage.removeItem("token"); nav("/"); return; }
-      alerts.showToast({ type: "error", message: "Impossible de lire le profil" });
+      upsert(await commentsApi.create(taskId, { body: body.trim(), parentId, mentions: mentionedIds(body, members) }));
+      return true;
+    } catch (err) {
+      alerts.showToast({ type: "error", message: apiErrorMessage(err, "Impossible d'envoyer le commentaire") });
+      return false;
     }
   }
 
-  function logout() {
-    localStorage.removeItem("token");
-    onClose();
-    nav("/");
+  async function submitDraft() { if (await post(draft, null)) setDraft(""); }
+  async function submitReply() { if (replyTo && await post(replyDraft, replyTo)) { setReplyTo(null); setReplyDraft(""); } }
+
+  async function saveEdit() {
+    if (!editingId || !editDraft.trim()) return;
+    try {
+      upsert(await commentsApi.update(taskId, editingId, { body: editDraft.trim(), mentions: mentionedIds(editDraft, members) }));
+      setEditingId(null);
+    } catch (err) {
+      alerts.showToast({ type: "error", message: apiErrorMessage(err, "Impossible de modifier le commentaire") });
+    }
   }
 
-  async function deleteAccount() {
-    const ok = await alerts.confirm({ title: "Supprimer le compte", message: "Es-tu sûr de vouloir supprimer ton compte ? Cette action est irréversible.", okLabel: "Supprimer", cancelLabel: "Annuler" });
+  async function remove(c: Comment) {
+    const ok = await alerts.confirm({ message: "Supprimer ce commentaire ?", okLabel: "Supprimer", cancelLabel: "Annuler" });
     if (!ok) return;
     try {
-      await api.delete("/auth/me");
-      alerts.showToast({ type: "success", message: "Compte supprimé" });
-      localStorage.removeItem("token");
-      onClose();
-      nav("/");
-    } catch (err: any) {
-      try {
-        const uid = getUserIdFromToken();
-        if (uid) {
-          await api.delete(`/users/${uid}`);
-          alerts.showToast({ type: "success", message: "Compte supprimé" });
-          localStorage.removeItem("token");
-          onClose();
-          nav("/");
-          return;
-        }
-      } catch {}
-      alerts.showToast({ type: "error", message: err?.response?.data?.message || "Erreur suppression compte" });
+      const kept = await commentsApi.remove(taskId, c.id);
+      if (kept) upsert(kept);
+      else onCommentsChange((prev) => prev?.filter((x) => x.id !== c.id) ?? null);
+    } catch (err) {
+      alerts.showToast({ type: "error", message: apiErrorMessage(err, "Impossible de supprimer le commentaire") });
     }
   }
 
-  return (
-    <div className={`fixed inset-0 z-70 transition-transform ${open ? "pointer-events-auto" : "pointer-events-none"}`}>
-      <div onClick={onClose} className={`absolute inset-0 bg-black/30 ${open ? "opacity-100" : "opacity-0"} transition-opacity`}></div>
-      <div className={`absolute right-0 top-0 h-full w-full sm:w-96 bg-white shadow-2xl p-4 sm:p-6 transform transition-transform ${open ? "translate-x-0" : "translate-x-full"}`}>
-        <div className="flex items-center justify-between mb-4">
-          <div className="flex items-center gap-3">
-            <div className="w-12 h-12 rounded-lg bg-emerald-100 flex items-center justify-center text-emerald-700 font-bold">TU</div>
-            <div>
-              <div className="text-lg font-semibold">{user?.fullname || "Utilisateur"}</div>
-              <div className="text-xs text-gray-500">Membre depuis {user?.createdAt ? new Date(user.createdAt).toLocaleDateString() : "—"}</div>
-            </div>
+  const list = comments ?? [];
+  const ids = new Set(list.map((c) => c.id));
+  const childrenOf = (parentId: string | null) => sortByCreatedDesc(list.filter((c) => (parentId === null ? !c.parentId || !ids.has(c.parentId) : c.parentId === parentId))).reverse();
+  const authorOf = (c: Comment) => members.find((m) => sameId(m.id, c.authorId)) ?? c.author ?? { id: c.authorId ?? "", fullname: "Ancien membre" };
+  const visibleCount = list.filter((c) => !c.deleted).length;
+
+  function renderComment(c: Comment, depth: number): ReactNode {
+    const author = authorOf(c);
+    const mine = sameId(c.authorId, userId);
+    return (
+      <div key={c.id} className={depth > 0 ? "ml-5 pl-3 border-l-2 border-gray-100" : ""}>
+        <div className="py-2">
+          <div className="flex items-center gap-2 text-xs text-gray-500">
+            <MemberAvatar small member={author} />
+            <span className="font-medium text-gray-800">{author.fullname || author.id.slice(0, 8)}</span>
+            {c.createdAt && <span>{new Date(c.createdAt).toLocaleString()}</span>}
+            {c.editedAt && !c.deleted && <span title={new Date(c.editedAt).toLocaleString()}>(modifié)</span>}
           </div>
-          <button onClick={onClose} className="text-gray-400">✕</button>
+          {c.deleted ? (
+            <div className="mt-1 text-sm italic text-gray-400">Commentaire supprimé</div>
+          ) : editingId === c.id ? (
+            <div className="mt-1 space-y-2">
+              <MentionTextarea autoFocus value={editDraft} onChange={setEditDraft} members={members} onSubmit={saveEdit} />
+              <div className="flex gap-2">
+                <button onClick={saveEdit} className="px-3 py-1 rounded-lg bg-emerald-600 text-white text-xs">Enregistrer</button>
+                <button onClick={() => setEditingId(null)} className="px-3 py-1 rounded-lg border text-xs">Annuler</button>
+              </div>
+            </div>
+          ) : (
+            <div className="mt-1"><CommentBody body={c.body} members={members} selfId={userId} /></div>
+          )}
+          {!c.deleted && editingId !== c.id && (
+            <div className="flex gap-3 mt-1 text-xs">
+              {canComment && <button onClick={() => { setReplyTo(c.id); setReplyDraft(""); }} className="text-emerald-600">Répondre</button>}
+              {mine && <button onClick={() => { setEditingId(c.id); setEditDraft(c.body); }} className="text-gray-500">Modifier</button>}
+              {mine && <button onClick={() => remove(c)} className="text-red-500">Supprimer</button>}
+            </div>
+          )}
+          {replyTo === c.id && (
+            <div className="mt-2 space-y-2">
+              <MentionTextarea autoFocus value={replyDraft} onChange={setReplyDraft} members={members} onSubmit={submitReply} placeholder={`Répondre à ${author.fullname || "ce commentaire"}…`} />
+              <div className="flex gap-2">
+                <button onClick={submitReply} className="px-3 py-1 rounded-lg bg-emerald-600 text-white text-xs">Répondre</button>
+                <button onClick={() => setReplyTo(null)} className="px-3 py-1 rounded-lg border text-xs">Annuler</button>
+              </div>
+            </div>
+          )}
         </div>
+        {childrenOf(c.id).map((r) => renderComment(r, Math.min(depth + 1, MAX_THREAD_INDENT)))}
+      </div>
+    );
+  }
 
-        <div className="mb-6">
-          <div className="text-sm text-gray-600 mb-2">Informations</div>
-          <div className="text-sm"><span className="font-medium">Nom complet:</span> {user?.fullname}</div>
-          <div className="text-sm mt-2"><span className="font-medium">Email:</span> {user?.email || "—"}</div>
+  return (
+    <div>
+      <div className="text-sm font-medium text-gray-700 mb-2">Discussion{visibleCount ? ` (${visibleCount})` : ""}</div>
+      {comments === null ? (
+        <div className="text-sm text-gray-500">Chargement…</div>
+      ) : list.length === 0 ? (
+        <div className="text-sm text-gray-500">Aucun commentaire pour l'instant.</div>
+      ) : (
+        <div className="divide-y divide-gray-50">{childrenOf(null).map((c) => renderComment(c, 0))}</div>
+      )}
+
+      {canComment && (
+        <div className="mt-4 space-y-2">
+          <MentionTextarea value={draft} onChange={setDraft} members={members} onSubmit={submitDraft} placeholder="Écrire un commentaire… (@ pour mentionner)" />
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-400">Ctrl+Entrée pour envoyer</span>
+            <button onClick={submitDraft} disabled={!draft.trim()} className="px-4 py-2 rounded-xl bg-emerald-600 text-white text-sm disabled:opacity-50">Envoyer</button>
+          </div>
         </div>
+      )}
+    </div>
+  );
+}
 
-        <div className="space-y-3">
-          <button onClick={logout} className="w-full px-4 py-3 rounded-xl bg-red-500 text-white flex items-center justify-center gap-2"><FiLogOut /> Déconnexion</button>
-          <button onClick={deleteAccount} className="w-full px-4 py-3 rounded-xl bg-transparent border border-red-200 text-red-600">Supprimer mon compte</button>
+function MarkdownInline({ nodes }: { nodes: MdInline[] }) {
+  return (
+    <>
+      {nodes.map((n, i) => {
+        switch (n.type) {
+          case "text": return <span key={i}>{n.text}</span>;
+          case "code": return <code key={i} className="px-1 rounded bg-gray-100 text-[0.9em]">{n.text}</code>;
+          case "strong": return <strong key={i}><MarkdownInline nodes={n.children} /></strong>;
+          case "em": return <em key={i}><MarkdownInline nodes={n.children} /></em>;
+          case "link": return <a key={i} href={n.href} target="_blank" rel="noopener noreferrer" className="text-emerald-600 underline break-all"><MarkdownInline nodes={n.children} /></a>;
+        }
+      })}
+    </>
+  );
+}
+
+const HEADING_CLASS = { 1: "text-lg font-bold", 2: "text-base font-bold", 3: "text-sm font-semibold" };
+
+function Markdown({ source }: { source: string }) {
+  return (
+    <div className="space-y-2 text-sm text-gray-800 break-words">
+      {parseMarkdown(source).map((b, i) => {
+        switch (b.type) {
+          case "heading": return <div key={i} role="heading" aria-level={b.level + 2} className={HEADING_CLASS[b.level]}><MarkdownInline nodes={b.children} /></div>;
+          case "paragraph": return <p key={i} className="whitespace-pre-wrap"><MarkdownInline nodes={b.children} /></p>;
+          case "quote": return <blockquote key={i} className="border-l-4 border-gray-200 pl-3 text-gray-600 whitespace-pre-wrap"><MarkdownInline nodes={b.children} /></blockquote>;
+          case "code": return <pre key={i} className="p-3 rounded-lg bg-gray-50 text-xs overflow-x-auto">{b.text}</pre>;
+          case "rule": return <hr key={i} className="border-gray-200" />;
+          case "list": {
+            const items = b.items.map((item, j) => <li key={j}><MarkdownInline nodes={item} /></li>);
+            return b.ordered ? <ol key={i} className="list-decimal pl-5 space-y-1">{items}</ol> : <ul key={i} className="list-disc pl-5 space-y-1">{items}</ul>;
+          }
+        }
+      })}
+    </div>
+  );
+}
+
+/* textarea + preview tab; the toolbar wraps the selection in Markdown syntax */
+function MarkdownEditor({ value, onChange }: { value: string; onChange: (v: string) => void }) {
+  const [preview, setPreview] = useState(false);
+  const ref = useRef<HTMLTextAreaElement>(null);
+
+  function wrap(before: string, after: string, placeholder: string) {
+    const el = ref.current;
+    if (!el) return;
+    const { selectionStart: s, selectionEnd: e } = el;
+    const selected = value.slice(s, e) || placeholder;
+    onChange(value.slice(0, s) + before + selected + after + value.slice(e));
+    requestAnimationFrame(() => { el.focus(); el.setSelectionRange(s + before.length, s + before.length + selected.length); });
+  }
+
+  function bullet() {
+    const el = ref.current;
+    if (!el) return;
+    const lineStart = value.lastIndexOf("\n", el.selectionStart - 1) + 1;
+    onChange(`${value.slice(0, lineStart)}- ${value.slice(lineStart)}`);
+    const pos = el.selectionStart + 2;
+    requestAnimationFrame(() => { el.focus(); el.setSelectionRange(pos, pos); });
+  }
+
+  const tab = (on: boolean) => `px-3 py-1 rounded-lg ${on ? "bg-emerald-600 text-white" : "text-gray-600"}`;
+
+  return (
+    <div className="rounded-xl border border-gray-200">
+      <div className="flex items-center justify-between gap-2 px-2 py-1 border-b border-gray-100 text-sm">
+        <div className="inline-flex gap-1" role="group" aria-label="Mode de la description">
+          <button type="button" onClick={() => setPreview(false)} aria-pressed={!preview} className={tab(!preview)}>Écrire</button>
+          <button type="button" onClick={() => setPreview(true)} aria-pressed={preview} className={tab(preview)}>Aperçu</button>
         </div>
+        {!preview && (
+          <div className="inline-flex gap-1 text-gray-600">
+            <button type="button" onClick={() => wrap("**", "**", "gras")} title="Gras" className="px-2 font-bold">B</button>
+            <button type="button" onClick={() => wrap("*", "*", "italique")} title="Italique" className="px-2 italic">I</button>
+            <button type="button" onClick={bullet} title="Liste" className="px-2">•</button>
+            <button type="button" onClick={() => wrap("[", "](https://)", "lien")} title="Lien" className="px-2"><FiLink /></button>
+          </div>
+        )}
       </div>
+      {preview ? (
+        <div className="p-3 min-h-[10rem]">{value.trim() ? <Markdown source={value} /> : <div className="text-sm text-gray-400">Rien à prévisualiser</div>}</div>
+      ) : (
+        <textarea ref={ref} value={value} onChange={(e) => onChange(e.target.value)} rows={8} placeholder="Description (Markdown : **gras**, *italique*, - liste, [lien](https://…))" className="w-full p-3 rounded-b-xl text-sm outline-none resize-y box-border" />
+      )}
     </div>
   );
 }
 
-/* ==========================
-   PrivateRoute & App
-   ========================== */
-
-function PrivateRoute({ children }: { children: any }) {
-  const token = localStorage.getItem("token");
-  if (!token) return <Navigate to="/" replace />;
-  return children;
+function ChecklistProgress({ items }: { items: ChecklistItem[] }) {
+  if (!items.length) return null;
+  const done = items.filter((i) => i.done).length;
+  return (
+    <span className="inline-flex items-center gap-1" title="Sous-tâches terminées">
+      <FiCheckSquare /> {done}/{items.length}
+      <span className="w-12 h-1.5 rounded-full bg-gray-200 overflow-hidden"><span className={`block h-full ${done === items.length ? "bg-emerald-500" : "bg-emerald-400"}`} style={{ width: `${(done / items.length) * 100}%` }} /></span>
+    </span>
+  );
 }
 
-export default function App() {
-  const [profileOpen, setProfileOpen] = useState(false);
+function Checklist({ items, canEdit, onChange }: { items: ChecklistItem[]; canEdit: boolean; onChange: (items: ChecklistItem[]) => void }) {
+  const [text, setText] = useState("");
+
+  function add(e: FormEvent) {
+    e.preventDefault();
+    if (!text.trim()) return;
+    onChange([...items, { id: Math.random().toString(36).slice(2, 9), text: text.trim(), done: false }]);
+    setText("");
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-sm font-medium text-gray-700">Sous-tâches</div>
+        <span className="text-xs text-gray-500"><ChecklistProgress items={items} /></span>
+      </div>
+      <div className="space-y-1">
+        {items.map((item) => (
+          <div key={item.id} className="flex items-center gap-2 group">
+            <input
+              type="checkbox"
+              checked={item.done}
+              disabled={!canEdit}
+              onChange={() => onChange(items.map((i) => (i.id === item.id ? { ...i, done: !i.done } : i)))}
+              className="accent-emerald-600"
+              aria-label={item.text}
+            />
+            <span className={`flex-1 text-sm break-words ${item.done ? "line-through text-gray-400" : "text-gray-800"}`}>{item.text}</span>
+            {canEdit && <button onClick={() => onChange(items.filter((i) => i.id !== item.id))} title="Retirer" className="text-gray-300 hover:text-red-500 text-xs px-1">✕</button>}
+          </div>
+        ))}
+        {items.length === 0 && !canEdit && <div className="text-sm text-gray-500">Aucune sous-tâche</div>}
+      </div>
+      {canEdit && (
+        <form onSubmit={add} className="flex gap-2 mt-2">
+          <input value={text} onChange={(e) => setText(e.target.value)} placeholder="Ajouter une sous-tâche" className="flex-1 px-3 py-2 rounded-xl border border-gray-200 text-sm min-w-0" />
+          <button type="submit" className="px-3 py-2 rounded-xl border border-gray-200 bg-white text-emerald-600"><FiPlus /></button>
+        </form>
+      )}
+    </div>
+  );
+}
 
-  // On load: if token exists in localStorage, inject it to axios defaults
+/* loads an attachment (auth header needed for API-served files) and frees it on unmount */
+function useAttachmentUrl(path: string | null) {
+  const [url, setUrl] = useState<string | null>(null);
   useEffect(() => {
-    const token = localStorage.getItem("token");
-    if (token) {
-      api.defaults.headers.common = api.defaults.headers.common || {};
-      api.defaults.headers.common["Authorization"] = `Bearer ${token}`;
-    }
+    if (!path) return;
+    let current: string | null = null;
+    let cancelled = false;
+    attachmentsApi.objectUrl(path).then((u) => {
+      if (cancelled) { if (u.startsWith("blob:")) URL.revokeObjectURL(u); return; }
+      current = u;
+      setUrl(u);
+    }, () => {});
+    return () => {
+      cancelled = true;
+      if (current?.startsWith("blob:")) URL.revokeObjectURL(current);
+    };
+  }, [path]);
+  return url;
+}
+
+function AttachmentItem({ attachment, canEdit, onRemove }: { attachment: Attachment; canEdit: boolean; onRemove: () => void }) {
+  const isImage = attachment.mimeType.startsWith("image/");
+  const thumb = useAttachmentUrl(isImage ? attachment.thumbnailUrl ?? attachment.url : null);
+  const alerts = useAlerts();
+
+  async function download() {
+    try {
+      const url = await attachmentsApi.objectUrl(attachment.url);
+      if (url.startsWith("blob:")) {
+        downloadUrl(attachment.name, url);
+        URL.revokeObjectURL(url);
+      } else {
+        window.open(url, "_blank", "noopener");
+      }
+    } catch (err) {
+      alerts.showToast({ type: "error", message: apiErrorMessage(err, "Impossible de télécharger le fichier") });
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-3 p-2 rounded-xl bg-gray-50">
+      <button onClick={download} title="Télécharger" className="w-14 h-14 shrink-0 rounded-lg bg-white border border-gray-100 flex items-center justify-center overflow-hidden text-gray-400">
+        {isImage && thumb ? <img src={thumb} alt={attachment.name} className="w-full h-full object-cover" /> : <FiPaperclip />}
+      </button>
+      <div className="flex-1 min-w-0">
+        <button onClick={download} className="block text-sm font-medium text-gray-800 truncate max-w-full text-left">{attachment.name}</button>
+        <div className="text-xs text-gray-500">{formatBytes(attachment.size)}{attachment.createdAt ? ` · ${new Date(attachment.createdAt).toLocaleDateString()}` : ""}</div>
+      </div>
+      <button onClick={download} title="Télécharger" className="p-2 rounded-lg bg-white border text-gray-600"><FiDownload /></button>
+      {canEdit && <button onClick={onRemove} title="Supprimer" className="p-2 rounded-lg bg-red-50 text-red-600"><FiTrash2 /></button>}
+    </div>
+  );
+}
+
+type TaskUpdate = (update: (t: Task) => Task) => void;
+
+/*
+ * Task content shared by the /tasks/:id page and the panel opened from the lists.
+ * Occurrences are opened through their series: everything here applies to the whole series.
+ */
+function TaskDetail({ task, members, labels = [], canEdit, onChange }: { task: Task; members: Member[]; labels?: Label[]; canEdit: boolean; onChange: TaskUpdate }) {
+  const [editing, setEditing] = useState(false);
+  const [title, setTitle] = useState(task.title);
+  const [description, setDescription] = useState(task.description);
+  const [uploads, setUploads] = useState<{ key: string; name: string; progress: number }[]>([]);
+  const [dragOver, setDragOver] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const alerts = useAlerts();
+
+  function startEditing() {
+    setTitle(task.title);
+    setDescription(task.description);
+    setEditing(true);
+  }
+
+  async function saveText() {
+    if (!title.trim()) { alerts.showToast({ type: "info", message: "Titre requis" }); return; }
+    try {
+      const updated = await tasksApi.update(task.id, { title: title.trim(), description }, task);
+      onChange(() => updated);
+      setEditing(false);
+    } catch (err) {
+      alerts.showToast({ type: "error", message: apiErrorMessage(err, "Erreur mise à jour") });
+    }
+  }
+
+  /* applied right away, rolled back if the server refuses */
+  async function saveChecklist(checklist: ChecklistItem[]) {
+    const previous = task.checklist;
+    onChange((t) => ({ ...t, checklist }));
+    try {
+      const updated = await tasksApi.update(task.id, { checklist }, { ...task, checklist });
+      onChange((t) => ({ ...updated, attachments: t.attachments }));
+    } catch (err) {
+      onChange((t) => ({ ...t, checklist: previous }));
+      alerts.showToast({ type: "error", message: apiErrorMessage(err, "Erreur mise à jour des sous-tâches") });
+    }
+  }
+
+  async function upload(files: FileList | null) {
+    for (const file of Array.from(files ?? [])) {
+      if (file.size > MAX_ATTACHMENT_BYTES) {
+        alerts.showToast({ type: "warning", message: `${file.name} dépasse ${formatBytes(MAX_ATTACHMENT_BYTES)}` });
+        continue;
+      }
+      const key = Math.random().toString(36).slice(2, 9);
+      setUploads((u) => [...u, { key, name: file.name, progress: 0 }]);
+      attachmentsApi.upload(task.id, file, (progress) => setUploads((u) => u.map((x) => (x.key === key ? { ...x, progress } : x))))
+        .then((att) => onChange((t) => ({ ...t, attachments: [...t.attachments, att] })))
+        .catch((err) => alerts.showToast({ type: "error", message: apiErrorMessage(err, `Échec de l'envoi de ${file.name}`) }))
+        .finally(() => setUploads((u) => u.filter((x) => x.key !== key)));
+    }
+  }
+
+  async function removeAttachment(att: Attachment) {
+    const ok = await alerts.confirm({ message: `Supprimer ${att.name} ?`, okLabel: "Supprimer", cancelLabel: "Annuler" });
+    if (!ok) return;
+    try {
+      await attachmentsApi.remove(task.id, att.id);
+      onChange((t) => ({ ...t, attachments: t.attachments.filter((a) => a.id !== att.id) }));
+    } catch (err) {
+      alerts.showToast({ type: "error", message: apiErrorMessage(err, "Impossible de supprimer le fichier") });
+    }
+  }
+
+  // files go to the server right away: a task created offline has no server id yet
+  const canAttach = canEdit && !task.pending;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        {editing ? (
+          <input value={title} onChange={(e) => setTitle(e.target.value)} className="w-full px-4 py-2 rounded-xl border border-gray-200 text-lg font-semibold min-w-0 box-border" placeholder="Titre" />
+        ) : (
+          <div className="flex items-start justify-between gap-3">
+            <h2 className="text-xl font-semibold break-words min-w-0">{task.title}</h2>
+            {canEdit && <button onClick={startEditing} title="Modifier le titre et la description" className="p-2 rounded-lg bg-white border shrink-0"><FiEdit2 /></button>}
+          </div>
+        )}
+        <div className="flex items-center gap-3 mt-2 text-xs text-gray-500 flex-wrap">
+          <TaskStatusBadge task={task} />
+          <PriorityBadge priority={task.priority} />
+          <LabelChips ids={task.labelIds} labels={labels} />
+          {task.pending && <PendingSyncBadge />}
+          <RecurrenceBadge rule={task.recurrence} />
+          <ReminderBadge taskId={task.id} />
+          <AssigneeAvatars ids={task.assigneeIds} members={members} />
+        </div>
+        <div className="flex items-center gap-3 mt-2 text-xs text-gray-500 flex-wrap">
+          <div className="flex items-center gap-1"><FiClock /> Début: {task.startDate ? new Date(task.startDate).toLocaleString() : "—"}</div>
+          <div className="flex items-center gap-1"><FiCalendar /> Fin: {task.endDate ? new Date(task.endDate).toLocaleString() : "—"}</div>
+        </div>
+      </div>
+
+      <div>
+        <div className="text-sm font-medium text-gray-700 mb-2">Description</div>
+        {editing ? (
+          <div className="space-y-2">
+            <MarkdownEditor value={description} onChange={setDescription} />
+            <div className="flex gap-2 justify-end">
+              <button onClick={() => setEditing(false)} className="px-3 py-2 rounded-lg border">Annuler</button>
+              <button onClick={saveText} className="px-3 py-2 rounded-lg bg-emerald-600 text-white">Enregistrer</button>
+            </div>
+          </div>
+        ) : task.description.trim() ? (
+          <Markdown source={task.description} />
+        ) : (
+          <div className="text-sm text-gray-400">Pas de description</div>
+        )}
+      </div>
+
+      <Checklist items={task.checklist} canEdit={canEdit} onChange={saveChecklist} />
+
+      <div
+        onDragOver={(e) => { if (canAttach) { e.preventDefault(); setDragOver(true); } }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={(e) => { if (!canAttach) return; e.preventDefault(); setDragOver(false); upload(e.dataTransfer.files); }}
+        className={`rounded-xl ${dragOver ? "ring-2 ring-emerald-300 bg-emerald-50" : ""}`}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <div className="text-sm font-medium text-gray-700">Pièces jointes{task.attachments.length ? ` (${task.attachments.length})` : ""}</div>
+          {canAttach && (
+            <>
+              <button onClick={() => fileInput.current?.click()} className="px-3 py-1 rounded-lg border border-gray-200 bg-white text-sm flex items-center gap-1"><FiPaperclip /> Joindre</button>
+              <input ref={fileInput} type="file" multiple hidden onChange={(e) => { upload(e.target.files); e.target.value = ""; }} />
+            </>
+          )}
+        </div>
+        <div className="space-y-2">
+          {task.attachments.map((att) => <AttachmentItem key={att.id} attachment={att} canEdit={canEdit} onRemove={() => removeAttachment(att)} />)}
+          {uploads.map((u) => (
+            <div key={u.key} className="p-2 rounded-xl bg-gray-50 text-xs text-gray-600">
+              <div className="truncate">{u.name}</div>
+              <div className="mt-1 h-1.5 rounded-full bg-gray-200 overflow-hidden"><div className="h-full bg-emerald-500" style={{ width: `${Math.round(u.progress * 100)}%` }} /></div>
+            </div>
+          ))}
+          {task.attachments.length === 0 && uploads.length === 0 && (
+            <div className="text-sm text-gray-400">{canAttach ? "Glisse des fichiers ici ou utilise « Joindre »" : task.pending ? "Disponible une fois la tâche synchronisée" : "Aucune pièce jointe"}</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* modal variant of /tasks/:id, opened from the task lists */
+function TaskDetailPanel({ task, members, labels, canEdit, onChange, onClose, thread }: { task: Task; members: Member[]; labels?: Label[]; canEdit: boolean; onChange: TaskUpdate; onClose: () => void; thread?: ReactNode }) {
+  useEffect(() => {
+    const onKey = (e: globalThis.KeyboardEvent) => { if (e.key === "Escape") onClose(); };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-60">
+      <div onClick={onClose} className="absolute inset-0 bg-black/30"></div>
+      <div role="dialog" aria-label={task.title} className="absolute right-0 top-0 h-full w-full sm:w-[36rem] bg-white shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-4 sm:px-6 py-3 border-b border-gray-100">
+          <Link to={`/tasks/${task.id}`} className="text-sm text-emerald-600">Ouvrir en pleine page ↗</Link>
+          <button onClick={onClose} className="text-gray-400">✕</button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-4 sm:p-6 space-y-6">
+          <TaskDetail task={task} members={members} labels={labels} canEdit={canEdit} onChange={onChange} />
+          {thread && <div className="pt-6 border-t border-gray-100">{thread}</div>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* remounted for each id, so nothing of the previous task lingers while the next one loads */
+function TaskPage() {
+  const { id } = useParams();
+  return <TaskView key={id} id={id!} />;
+}
+
+function TaskView({ id }: { id: string }) {
+  const [task, setTask] = useState<Task | null>(null);
+  const [group, setGroup] = useState<Group | null>(null);
+  const [comments, setComments] = useState<Comment[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const nav = useNavigate();
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const t = await tasksApi.get(id);
+        if (cancelled) return;
+        setTask(t);
+        if (!t.groupId) return;
+        const [g, list] = await Promise.all([groupsApi.get(t.groupId), commentsApi.list(t.id)]);
+        if (cancelled) return;
+        setGroup(g);
+        setComments(list);
+        commentsApi.markRead(t.id).catch(() => {});
+      } catch (err) {
+        if (cancelled || apiErrorStatus(err) === 401) return; // session manager already redirected to login
+        setError(apiErrorStatus(err) === 404 ? "Cette tâche n'existe pas ou plus" : apiErrorMessage(err, "Impossible de charger la tâche"));
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [id]);
+
+  const userId = getUserIdFromToken();
+  const role = roleOf(group, userId);
+  const back = task?.groupId ? `/groups/${task.groupId}` : "/dashboard";
+
+  return (
+    <div className="min-h-screen w-full bg-gradient-to-br from-emerald-50 via-white to-emerald-25 py-6">
+      <div className="w-full max-w-full sm:max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        <button onClick={() => nav(back)} className="text-sm text-emerald-600">◀ {task?.groupId ? group?.name || "Groupe" : "Tableau de bord"}</button>
+
+        {error ? (
+          <div className="mt-6 p-6 rounded-2xl bg-white border-dashed border-2 border-gray-200 text-center text-gray-600">{error}</div>
+        ) : !task ? (
+          <div className="mt-6 text-gray-500">Chargement…</div>
+        ) : (
+          <div className="mt-4 space-y-6">
+            <div className="bg-white p-4 sm:p-6 rounded-2xl shadow-lg border border-gray-50">
+              <TaskDetail
+                task={task}
+                members={group?.members ?? []}
+                labels={group?.labels}
+                canEdit={task.groupId ? can(role, "task.edit") : true}
+                onChange={(update) => setTask((t) => (t ? update(t) : t))}
+              />
+            </div>
+            {task.groupId && (
+              <div className="bg-white p-4 sm:p-6 rounded-2xl shadow-lg border border-gray-50">
+                <CommentsThread taskId={task.id} members={group?.members ?? []} comments={comments} userId={userId} canComment={can(role, "comment.create")} onCommentsChange={setComments} />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/* ==========================
+   Invitations (management page, QR code, join link)
+   ========================== */
+
+const INVITE_EXPIRY: { id: string; label: string; ms: number | null }[] = [
+  { id: "1h", label: "1 heure", ms: 60 * 60 * 1000 },
+  { id: "24h", label: "24 heures", ms: DUE_SOON_MS },
+  { id: "7d", label: "7 jours", ms: 7 * DAY_MS },
+  { id: "30d", label: "30 jours", ms: 30 * DAY_MS },
+  { id: "never", label: "Jamais", ms: null },
+];
+
+const INVITATION_BADGE: Record<InvitationState, BadgeColor> = {
+  active: "green",
+  expired: "gray",
+  exhausted: "blue",
+  revoked: "red",
+};
+
+/* deep link handled by JoinPage; works before login thanks to PrivateRoute's `next` */
+function inviteLink(code: string) {
+  return `${window.location.origin}/join/${encodeURIComponent(code)}`;
+}
+
+/* SVG so it stays sharp when printed or zoomed; 4-module white margin as the spec requires */
+function QrCode({ value, size = 160 }: { value: string; size?: number }) {
+  let modules: boolean[][];
+  try {
+    modules = encodeQr(value);
+  } catch {
+    return <div className="text-xs text-gray-500">Lien trop long pour un QR code</div>;
+  }
+  const n = modules.length + 8;
+  let d = "";
+  modules.forEach((row, y) => row.forEach((dark, x) => { if (dark) d += `M${x + 4} ${y + 4}h1v1h-1z`; }));
+  return (
+    <svg viewBox={`0 0 ${n} ${n}`} width={size} height={size} shapeRendering="crispEdges" role="img" aria-label={`QR code : ${value}`} className="rounded-lg border border-gray-100">
+      <rect width={n} height={n} fill="#fff" />
+      <path d={d} fill="#111827" />
+    </svg>
+  );
+}
+
+function InvitationsPage() {
+  const { id } = useParams();
+  const [group, setGroup] = useState<Group | null>(null);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [expiry, setExpiry] = useState("7d");
+  const [maxUses, setMaxUses] = useState("");
+  const [qrFor, setQrFor] = useState<string | null>(null);
+  const nav = useNavigate();
+  const alerts = useAlerts();
+  const now = useNow(invitations.flatMap((inv) => (inv.expiresAt ? [new Date(inv.expiresAt).getTime()] : [])));
+
+  useEffect(() => {
+    if (!id) return;
+    let cancelled = false;
+    groupsApi.get(id).then(
+      (g) => { if (!cancelled) setGroup(g); },
+      (err) => {
+        if (cancelled || apiErrorStatus(err) === 401) return; // session manager already redirected to login
+        alerts.showToast({ type: "error", message: "Impossible de charger le groupe" });
+      }
+    );
+    invitationsApi.list(id).then(
+      (list) => { if (!cancelled) setInvitations(sortByCreatedDesc(list)); },
+      (err) => {
+        if (cancelled || apiErrorStatus(err) === 401 || apiErrorStatus(err) === 403) return; // 403: the page shows the notice instead
+        alerts.showToast({ type: "error", message: "Impossible de charger les invitations" });
+      }
+    );
+    return () => { cancelled = true; };
+  }, [id, alerts]);
+
+  async function copy(text: string, what: string) {
+    try {
+      await navigator.clipboard.writeText(text);
+      alerts.showToast({ type: "success", message: `${what} copié` });
+    } catch {
+      alerts.showToast({ type: "error", message: "Impossible de copier" });
+    }
+  }
+
+  async function regenerate() {
+    const ok = await alerts.confirm({
+      title: "Régénérer le code",
+      message: "Le code actuel et les liens partagés avec lui ne fonctionneront plus.",
+      okLabel: "Régénérer",
+      cancelLabel: "Annuler",
+    });
+    if (!ok) return;
+    try {
+      setGroup(await groupsApi.regenerateInviteCode(id!));
+      alerts.showToast({ type: "success", message: "Nouveau code généré" });
+    } catch (err) {
+      alerts.showToast({ type: "error", message: apiErrorMessage(err, "Erreur régénération du code") });
+    }
+  }
+
+  async function revokeCode() {
+    const ok = await alerts.confirm({
+      title: "Révoquer le code",
+      message: "Plus personne ne pourra rejoindre le groupe avec ce code. Les invitations restent utilisables.",
+      okLabel: "Révoquer",
+      cancelLabel: "Annuler",
+    });
+    if (!ok) return;
+    try {
+      setGroup(await groupsApi.revokeInviteCode(id!));
+      alerts.showToast({ type: "success", message: "Code révoqué" });
+    } catch (err) {
+      alerts.showToast({ type: "error", message: apiErrorMessage(err, "Erreur révocation du code") });
+    }
+  }
+
+  async function createInvitation(e: FormEvent) {
+    e.preventDefault();
+    const uses = maxUses ? Number(maxUses) : null;
+    if (uses !== null && (!Number.isInteger(uses) || uses < 1)) { alerts.showToast({ type: "info", message: "Nombre d'utilisations invalide" }); return; }
+    const ms = INVITE_EXPIRY.find((o) => o.id === expiry)?.ms ?? null;
+    try {
+      const created = await invitationsApi.create(id!, { expiresAt: ms === null ? null : new Date(Date.now() + ms).toISOString(), maxUses: uses });
+      setInvitations((prev) => [created, ...prev]);
+      setQrFor(created.id);
+      setMaxUses("");
+      alerts.showToast({ type: "success", message: "Invitation créée" });
+    } catch (err) {
+      alerts.showToast({ type: "error", message: apiErrorMessage(err, "Erreur création de l'invitation") });
+    }
+  }
+
+  async function revokeInvitation(inv: Invitation) {
+    const ok = await alerts.confirm({ title: "Révoquer l'invitation", message: `Le code ${inv.code} ne permettra plus de rejoindre le groupe.`, okLabel: "Révoquer", cancelLabel: "Annuler" });
+    if (!ok) return;
+    try {
+      await invitationsApi.revoke(id!, inv.id);
+      setInvitations((prev) => prev.map((x) => (x.id === inv.id ? { ...x, revoked: true } : x)));
+      alerts.showToast({ type: "success", message: "Invitation révoquée" });
+    } catch (err) {
+      alerts.showToast({ type: "error", message: apiErrorMessage(err, "Erreur révocation de l'invitation") });
+    }
+  }
+
+  const myRole = roleOf(group, getUserIdFromToken());
+  const members = group?.members ?? [];
+  const pending = invitations.filter((inv) => invitationState(inv, now) === "active");
+  const closed = invitations.filter((inv) => invitationState(inv, now) !== "active");
+
+  function renderInvitation(inv: Invitation) {
+    const state = invitationState(inv, now);
+    const expiresAt = inv.expiresAt ? new Date(inv.expiresAt).getTime() : null;
+    return (
+      <div key={inv.id} className="p-4 rounded-xl bg-gray-50">
+        <div className="flex items-start justify-between gap-3 flex-wrap">
+          <div className="min-w-0">
+            <div className="font-mono font-semibold text-emerald-700 truncate">{inv.code}</div>
+            <div className="flex items-center gap-3 mt-2 text-xs text-gray-500 flex-wrap">
+              <Badge color={INVITATION_BADGE[state]}>{INVITATION_STATE_LABELS[state]}</Badge>
+              <span>Utilisations : {inv.uses}{inv.maxUses !== null ? ` / ${inv.maxUses}` : ""}</span>
+              <span>
+                {expiresAt === null ? "Sans expiration" : expiresAt > now ? `Expire dans ${formatDuration(expiresAt - now)}` : `Expirée le ${new Date(expiresAt).toLocaleString()}`}
+              </span>
+              {inv.usedBy.length > 0 && (
+                <span className="flex items-center -space-x-1" title={inv.usedBy.map((m) => members.find((x) => x.id === m.id)?.fullname || m.fullname || m.id.slice(0, 8)).join(", ")}>
+                  {inv.usedBy.map((m) => <MemberAvatar key={m.id} small member={members.find((x) => x.id === m.id) ?? m} />)}
+                </span>
+              )}
+            </div>
+          </div>
+          {state === "active" && (
+            <div className="flex items-center gap-2">
+              <button onClick={() => copy(inviteLink(inv.code), "Lien")} className="px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm">Copier le lien</button>
+              <button onClick={() => setQrFor(qrFor === inv.id ? null : inv.id)} className={`px-3 py-2 rounded-lg border text-sm ${qrFor === inv.id ? "bg-emerald-600 text-white border-emerald-600" : "bg-white border-gray-200"}`}>QR</button>
+              <button onClick={() => revokeInvitation(inv)} className="px-3 py-2 rounded-lg bg-red-50 text-red-600 text-sm">Révoquer</button>
+            </div>
+          )}
+        </div>
+        {state === "active" && qrFor === inv.id && (
+          <div className="mt-3 flex justify-center"><QrCode value={inviteLink(inv.code)} /></div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen w-full bg-gradient-to-br from-emerald-50 via-white to-emerald-25 py-6">
+      <div className="w-full max-w-full sm:max-w-3xl md:max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-6">
+          <button onClick={() => nav(`/groups/${id}`)} className="text-sm text-emerald-600">◀ Retour au groupe</button>
+          <h1 className="text-2xl sm:text-3xl font-bold mt-2">Invitations</h1>
+          <div className="text-sm text-gray-600 mt-1">{group?.name || "Groupe"}</div>
+        </div>
+
+        {group && !can(myRole, "invite.manage") ? (
+          <div className="p-6 rounded-2xl bg-white border-dashed border-2 border-gray-200 text-center text-gray-600">
+            Seuls le propriétaire et les admins du groupe gèrent les invitations.
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="bg-white p-4 sm:p-6 rounded-2xl shadow-lg border border-gray-50">
+              <h3 className="text-lg font-semibold mb-1">Code du groupe</h3>
+              <p className="text-sm text-gray-500 mb-4">Permanent, sans limite d'utilisations. Régénère-le s'il a circulé trop largement.</p>
+              {group?.inviteCode ? (
+                <div className="flex flex-col sm:flex-row gap-6 items-center">
+                  <QrCode value={inviteLink(group.inviteCode)} />
+                  <div className="flex-1 min-w-0 w-full space-y-3">
+                    <div className="px-4 py-3 bg-emerald-50 rounded-xl text-center font-mono font-semibold text-emerald-700">{group.inviteCode}</div>
+                    <div className="text-xs text-gray-500 truncate">{inviteLink(group.inviteCode)}</div>
+                    <div className="flex gap-2 flex-wrap">
+                      <button onClick={() => copy(inviteLink(group.inviteCode!), "Lien")} className="px-3 py-2 rounded-lg bg-emerald-600 text-white text-sm">Copier le lien</button>
+                      <button onClick={() => copy(group.inviteCode!, "Code")} className="px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm">Copier le code</button>
+                      <button onClick={regenerate} className="px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm">Régénérer</button>
+                      <button onClick={revokeCode} className="px-3 py-2 rounded-lg bg-red-50 text-red-600 text-sm">Révoquer</button>
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between gap-3 flex-wrap">
+                  <div className="text-sm text-gray-600">Aucun code actif : seules les invitations ci-dessous permettent de rejoindre le groupe.</div>
+                  <button onClick={regenerate} className="px-3 py-2 rounded-lg bg-emerald-600 text-white text-sm">Générer un code</button>
+                </div>
+              )}
+            </div>
+
+            <form onSubmit={createInvitation} className="bg-white p-4 sm:p-6 rounded-2xl shadow-lg border border-gray-50">
+              <h3 className="text-lg font-semibold mb-4">Nouvelle invitation</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+                <div>
+                  <label className="text-sm font-medium text-gray-700 block mb-1">Expire après</label>
+                  <select value={expiry} onChange={(e) => setExpiry(e.target.value)} className="w-full px-3 py-3 rounded-xl border border-gray-200 bg-white">
+                    {INVITE_EXPIRY.map((o) => <option key={o.id} value={o.id}>{o.label}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-700 block mb-1">Utilisations max</label>
+                  <input type="number" min={1} value={maxUses} onChange={(e) => setMaxUses(e.target.value)} placeholder="Illimitées" className="w-full px-4 py-3 rounded-xl border border-gray-200 min-w-0" />
+                </div>
+                <button type="submit" className="px-4 py-3 rounded-xl bg-emerald-600 text-white flex items-center justify-center gap-2"><FiPlus /> Créer</button>
+              </div>
+            </form>
+
+            <div className="bg-white p-4 sm:p-6 rounded-2xl shadow-lg border border-gray-50">
+              <h3 className="text-lg font-semibold mb-4">En attente</h3>
+              {pending.length === 0 ? <div className="text-sm text-gray-500">Aucune invitation active</div> : <div className="space-y-3">{pending.map(renderInvitation)}</div>}
+
+              {closed.length > 0 && (
+                <>
+                  <h3 className="text-lg font-semibold mt-6 mb-4">Utilisées, expirées ou révoquées</h3>
+                  <div className="space-y-3">{closed.map(renderInvitation)}</div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/* `/join/:code`: PrivateRoute sends visitors through login/register first, then back here */
+function JoinPage() {
+  const { code } = useParams();
+  const [error, setError] = useState<string | null>(null);
+  const started = useRef(false);
+  const nav = useNavigate();
+  const alerts = useAlerts();
+
+  useEffect(() => {
+    // StrictMode runs effects twice in dev: a second join would fail with "already a member"
+    if (!code || started.current) return;
+    started.current = true;
+    groupsApi.join(code).then(
+      (group) => {
+        alerts.showToast({ type: "success", message: `Tu as rejoint ${group.name || "le groupe"}` });
+        nav(`/groups/${group.id}`, { replace: true });
+      },
+      (err) => setError(apiErrorMessage(err, "Ce lien d'invitation n'est plus valide"))
+    );
+  }, [code, alerts, nav]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-emerald-50 to-green-25 p-4">
+      <div className="w-full max-w-md bg-white p-6 sm:p-8 rounded-2xl shadow-md text-center">
+        {error ? (
+          <>
+            <div className="text-lg font-semibold text-gray-900">Impossible de rejoindre le groupe</div>
+            <p className="text-sm text-gray-600 mt-2">{error}</p>
+            <Link to="/dashboard" className="inline-block mt-4 text-sm text-emerald-600 font-medium">→ Retour au tableau de bord</Link>
+          </>
+        ) : (
+          <div className="text-gray-600">Connexion au groupe…</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/* ==========================
+   Recurring tasks (editor + series helpers)
+   ========================== */
+
+/* list views show what's coming: occurrences over the next month, a few per series */
+const LIST_WINDOW_DAYS = 30;
+const LIST_OCCURRENCES_PER_SERIES = 10;
+
+function expandForList(tasks: Task[]) {
+  const from = addDays(new Date(), -1);
+  const to = addDays(new Date(), LIST_WINDOW_DAYS);
+  return tasks.flatMap((t) => {
+    if (!t.recurrence) return [t];
+    const occ = expandOccurrences(t, from, to, LIST_OCCURRENCES_PER_SERIES);
+    // nothing in the window (series not started yet / finished): still show the series itself
+    return occ.length ? occ : [t];
+  });
+}
+
+function askRecurrenceScope(alerts: AlertsContextType, action: "Modifier" | "Supprimer") {
+  return alerts.choose<RecurrenceScope>({
+    title: `${action} une tâche récurrente`,
+    message: "Cette modification s'applique à :",
+    options: [
+      { value: "occurrence", label: "Cette occurrence" },
+      { value: "series", label: "Toute la série" },
+    ],
+  });
+}
+
+/*
+ * "occurrence": a standalone task takes the occurrence's place, then its date is excluded from
+ * the series (the task is deleted again if that fails, so the occurrence is never lost).
+ * "series": the series is updated; date changes made on the occurrence are applied as a shift.
+ */
+async function saveRecurringEdit(series: Task, occ: Task, scope: RecurrenceScope, payload: TaskInput) {
+  if (scope === "occurrence") {
+    const detached = await tasksApi.create({
+      title: occ.title,
+      description: occ.description,
+      startDate: occ.startDate,
+      endDate: occ.endDate,
+      status: occ.status,
+      priority: occ.priority,
+      labels: occ.labelIds,
+      checklist: occ.checklist,
+      assignees: series.assigneeIds,
+      ...payload,
+      recurrence: null,
+      ...(series.groupId ? { groupId: series.groupId } : {}),
+    });
+    try {
+      const updated = await tasksApi.update(series.id, { exdates: [...series.exdates, occ.occurrenceStart!] }, series);
+      return { series: updated, detached };
+    } catch (err) {
+      await tasksApi.remove(detached.id, detached).catch(() => undefined);
+      throw err;
+    }
+  }
+
+  // moves the series date by as much as the occurrence's date was moved
+  const shift = (occDate: string | null, edited: string | null | undefined, seriesDate: string | null) => {
+    if (edited === undefined) return seriesDate;
+    if (edited === null || !occDate || !seriesDate) return edited;
+    return new Date(new Date(seriesDate).getTime() + new Date(edited).getTime() - new Date(occDate).getTime()).toISOString();
+  };
+  const startDate = shift(occ.startDate, payload.startDate, series.startDate);
+  // excluded dates follow the series so they still match their occurrences
+  const delta = startDate && series.startDate ? new Date(startDate).getTime() - new Date(series.startDate).getTime() : 0;
+  const updated = await tasksApi.update(series.id, {
+    ...payload,
+    startDate,
+    endDate: shift(occ.endDate, payload.endDate, series.endDate),
+    ...(delta ? { exdates: series.exdates.map((x) => new Date(new Date(x).getTime() + delta).toISOString()) } : {}),
+  }, series);
+  return { series: updated, detached: null };
+}
+
+/* the occurrence's date is excluded from its series (deleting the whole series is deleteTasksUndoable) */
+function removeOccurrence(series: Task, occ: Task) {
+  return tasksApi.update(series.id, { exdates: [...series.exdates, occ.occurrenceStart!] }, series);
+}
+
+function RecurrenceBadge({ rule }: { rule: string | null }) {
+  const r = parseRRule(rule);
+  if (!r) return null;
+  return <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-sky-50 text-sky-700"><FiRepeat /> {describeRecurrence(r)}</span>;
+}
+
+/* edits an RRULE value; null = no recurrence */
+function RecurrenceEditor({ value, onChange, hasStart }: { value: string | null; onChange: (v: string | null) => void; hasStart: boolean }) {
+  const rule = parseRRule(value);
+  const endMode = rule?.count ? "count" : rule?.until ? "until" : "never";
+
+  function update(patch: Partial<Recurrence>) {
+    const base: Recurrence = rule ?? { freq: "WEEKLY", interval: 1, byDay: [], until: null, count: null };
+    onChange(toRRule({ ...base, ...patch }));
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <FiRepeat className="text-gray-500" />
+      <select
+        value={rule?.freq ?? ""}
+        onChange={(e) => (e.target.value ? update({ freq: e.target.value as Frequency }) : onChange(null))}
+        disabled={!hasStart}
+        title={hasStart ? undefined : "Définis une date de début pour répéter la tâche"}
+        className="px-3 py-2 rounded-xl border border-gray-200 bg-white"
+      >
+        <option value="">Ne se répète pas</option>
+        <option value="DAILY">Chaque jour</option>
+        <option value="WEEKLY">Chaque semaine</option>
+        <option value="MONTHLY">Chaque mois</option>
+      </select>
+
+      {rule && (
+        <>
+          <label className="flex items-center gap-1 text-xs text-gray-600">
+            tous les
+            <input type="number" min={1} max={99} value={rule.interval} onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })} className="w-14 px-2 py-1 rounded-lg border border-gray-200" />
+            {rule.freq === "DAILY" ? "jour(s)" : rule.freq === "WEEKLY" ? "semaine(s)" : "mois"}
+          </label>
+
+          {rule.freq === "WEEKLY" && (
+            <div className="flex gap-1" role="group" aria-label="Jours de la semaine">
+              {WEEKDAYS.map((d) => {
+                const on = rule.byDay.includes(d);
+                return (
+                  <button key={d} type="button" aria-pressed={on} onClick={() => update({ byDay: on ? rule.byDay.filter((x) => x !== d) : [...rule.byDay, d] })} className={`w-8 h-8 rounded-full text-xs ${on ? "bg-emerald-600 text-white" : "bg-gray-100 text-gray-600"}`}>
+                    {WEEKDAY_SHORT[d].slice(0, 2)}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          <select
+            value={endMode}
+            onChange={(e) => update(e.target.value === "count" ? { count: 5, until: null } : e.target.value === "until" ? { count: null, until: addDays(new Date(), 30).toISOString() } : { count: null, until: null })}
+            className="px-3 py-2 rounded-xl border border-gray-200 bg-white text-xs"
+          >
+            <option value="never">Sans fin</option>
+            <option value="until">Jusqu'au</option>
+            <option value="count">Nombre de fois</option>
+          </select>
+          {endMode === "until" && (
+            <input type="date" value={rule.until ? toDateKey(new Date(rule.until)) : ""} onChange={(e) => { const d = parseDateKey(e.target.value); if (d) { d.setHours(23, 59, 59); update({ until: d.toISOString() }); } }} className="px-2 py-1 rounded-lg border border-gray-200 text-xs" />
+          )}
+          {endMode === "count" && (
+            <input type="number" min={1} max={999} value={rule.count ?? 1} onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })} className="w-16 px-2 py-1 rounded-lg border border-gray-200 text-xs" />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+/* ==========================
+   Reminders (picker + badge)
+   ========================== */
+
+const REMINDER_ANCHORS: { id: ReminderAnchor; label: string }[] = [
+  { id: "start", label: "Avant le début" },
+  { id: "end", label: "Avant la fin" },
+];
+
+function ReminderPicker({ value, onChange, hasStart, hasEnd }: { value: Reminder[]; onChange: (v: Reminder[]) => void; hasStart: boolean; hasEnd: boolean }) {
+  function toggle(anchor: ReminderAnchor, minutesBefore: number) {
+    const on = value.some((r) => r.anchor === anchor && r.minutesBefore === minutesBefore);
+    onChange(on ? value.filter((r) => !(r.anchor === anchor && r.minutesBefore === minutesBefore)) : [...value, { anchor, minutesBefore }]);
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+      <FiBell className="text-gray-500" />
+      {REMINDER_ANCHORS.map((a) => {
+        const enabled = a.id === "start" ? hasStart : hasEnd;
+        return (
+          <div key={a.id} className="flex items-center gap-1" role="group" aria-label={`Rappels ${a.label.toLowerCase()}`}>
+            <span className="text-xs text-gray-600 mr-1">{a.label}</span>
+            {REMINDER_OFFSETS.map((m) => {
+              const on = value.some((r) => r.anchor === a.id && r.minutesBefore === m);
+              return (
+                <button
+                  key={m}
+                  type="button"
+                  aria-pressed={on}
+                  disabled={!enabled}
+                  title={enabled ? describeReminder({ anchor: a.id, minutesBefore: m }) : "Définis la date correspondante pour ajouter ce rappel"}
+                  onClick={() => toggle(a.id, m)}
+                  className={`px-2 py-1 rounded-full text-xs disabled:opacity-40 ${on ? "bg-amber-500 text-white" : "bg-gray-100 text-gray-600"}`}
+                >
+                  {formatOffset(m)}
+                </button>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function ReminderBadge({ taskId }: { taskId: string }) {
+  const reminders = getReminders(taskId);
+  if (!reminders.length) return null;
+  return (
+    <span title={reminders.map(describeReminder).join("\n")} className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-amber-50 text-amber-700">
+      <FiBell /> {reminders.length}
+    </span>
+  );
+}
+
+/* ==========================
+   Task board (kanban by status)
+   ========================== */
+
+type TasksView = "list" | "board" | "activity" | "stats";
+
+function readGroupView(groupId?: string): TasksView {
+  const stored = groupId ? localStorage.getItem(`groupView:${groupId}`) : null;
+  return stored === "board" || stored === "activity" || stored === "stats" ? stored : "list";
+}
+
+type BoardDrag = { id: string; from: TaskStatus; x0: number; y0: number; dx: number; dy: number; over: TaskStatus | null };
+
+/*
+ * Columns per status. Cards move with the handle (pointer events, so mouse and touch share
+ * one code path) or with the keyboard: Espace to grab, ←/→ to pick a column, Espace to drop.
+ * Without `onMove` the board is read-only.
+ */
+function TaskBoard({ tasks, members = [], labels = [], onMove, onOpen, unread = {} }: { tasks: Task[]; members?: Member[]; labels?: Label[]; onMove?: (t: Task, status: TaskStatus) => void; onOpen?: (t: Task) => void; unread?: Record<string, number> }) {
+  const [drag, setDrag] = useState<BoardDrag | null>(null);
+  const [grab, setGrab] = useState<{ id: string; target: TaskStatus } | null>(null);
+  const [announce, setAnnounce] = useState("");
+  // cards change column by themselves when a task starts or ends
+  const now = useNow(tasks.flatMap(statusInstants));
+
+  function columnAt(x: number, y: number): TaskStatus | null {
+    const el = document.elementsFromPoint(x, y).find((e) => e instanceof HTMLElement && e.dataset.column);
+    const col = el instanceof HTMLElement ? el.dataset.column : undefined;
+    return isTaskStatus(col) ? col : null;
+  }
+
+  function onPointerDown(e: PointerEvent<HTMLElement>, t: Task) {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ id: t.id, from: effectiveStatus(t), x0: e.clientX, y0: e.clientY, dx: 0, dy: 0, over: null });
+  }
+
+  function onPointerMove(e: PointerEvent<HTMLElement>) {
+    if (!drag) return;
+    setDrag({ ...drag, dx: e.clientX - drag.x0, dy: e.clientY - drag.y0, over: columnAt(e.clientX, e.clientY) });
+  }
+
+  function onPointerUp() {
+    if (!drag) return;
+    const t = tasks.find((x) => x.id === drag.id);
+    if (t && drag.over && drag.over !== drag.from) onMove?.(t, drag.over);
+    setDrag(null);
+  }
+
+  function onCardKey(e: KeyboardEvent<HTMLElement>, t: Task) {
+    if (!onMove) return;
+    const current = effectiveStatus(t);
+    if (!grab || grab.id !== t.id) {
+      if (e.key === " " || e.key === "Enter") {
+        e.preventDefault();
+        setGrab({ id: t.id, target: current });
+        setAnnounce(`« ${t.title} » saisie. Flèches gauche/droite pour choisir la colonne, Espace pour déposer, Échap pour annuler.`);
+      }
+      return;
+    }
+    const idx = TASK_STATUSES.indexOf(grab.target);
+    if (e.key === "ArrowRight" || e.key === "ArrowLeft") {
+      e.preventDefault();
+      const next = TASK_STATUSES[Math.min(TASK_STATUSES.length - 1, Math.max(0, idx + (e.key === "ArrowRight" ? 1 : -1)))];
+      setGrab({ id: t.id, target: next });
+      setAnnounce(`Colonne ${STATUS_LABELS[next]}`);
+    } else if (e.key === " " || e.key === "Enter") {
+      e.preventDefault();
+      if (grab.target !== current) onMove(t, grab.target);
+      setAnnounce(`« ${t.title} » déposée dans ${STATUS_LABELS[grab.target]}`);
+      setGrab(null);
+    } else if (e.key === "Escape") {
+      setGrab(null);
+      setAnnounce("Déplacement annulé");
+    }
+  }
+
+  const highlighted = drag?.over ?? grab?.target ?? null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="sr-only" aria-live="assertive">{announce}</div>
+      {TASK_STATUSES.map((status) => {
+        const column = sortByCreatedDesc(tasks.filter((t) => effectiveStatus(t, now) === status));
+        return (
+          <section
+            key={status}
+            data-column={status}
+            aria-label={STATUS_LABELS[status]}
+            className={`p-3 rounded-2xl min-h-[160px] transition-colors ${highlighted === status ? "bg-emerald-50 ring-2 ring-emerald-300" : "bg-gray-50"}`}
+          >
+            <div className="flex items-center justify-between mb-3 px-1">
+              <Badge color={STATUS_BADGE[status]}>{STATUS_LABELS[status]}</Badge>
+              <span className="text-xs text-gray-500">{column.length}</span>
+            </div>
+            <div className="space-y-2">
+              {column.map((t) => {
+                const dragging = drag?.id === t.id;
+                const grabbed = grab?.id === t.id;
+                return (
+                  <div
+                    key={t.id}
+                    tabIndex={0}
+                    role="button"
+                    aria-roledescription={onMove ? "carte déplaçable" : undefined}
+                    aria-pressed={grabbed}
+                    onKeyDown={(e) => onCardKey(e, t)}
+                    onBlur={() => { if (grabbed) setGrab(null); }}
+                    style={dragging ? { transform: `translate(${drag.dx}px, ${drag.dy}px)` } : undefined}
+                    className={`p-3 rounded-xl bg-white shadow-sm border outline-none focus:ring-2 focus:ring-emerald-400 ${dragging ? "relative z-10 shadow-lg opacity-90" : ""} ${grabbed ? "border-emerald-400" : "border-gray-100"}`}
+                  >
+                    <div className="flex items-start gap-2">
+                      {onMove && (
+                        <span
+                          onPointerDown={(e) => onPointerDown(e, t)}
+                          onPointerMove={onPointerMove}
+                          onPointerUp={onPointerUp}
+                          onPointerCancel={() => setDrag(null)}
+                          className="mt-1 text-gray-400 cursor-grab touch-none"
+                          title="Glisser pour changer de statut"
+                        >
+                          <FiMove />
+                        </span>
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium truncate">{t.title}</div>
+                        {t.description && <div className="text-xs text-gray-600 mt-1 truncate">{markdownToText(t.description)}</div>}
+                        <div className="flex items-center gap-2 mt-2 text-xs text-gray-500 flex-wrap">
+                          {t.endDate && <span className="flex items-center gap-1"><FiCalendar /> {new Date(t.endDate).toLocaleDateString()}</span>}
+                          <TaskStatusBadge task={t} hideStatus />
+                          <PriorityBadge priority={t.priority} />
+                          <LabelChips ids={t.labelIds} labels={labels} />
+                          <ChecklistProgress items={t.checklist} />
+                          {t.pending && <PendingSyncBadge />}
+                          <span className="ml-auto"><AssigneeAvatars ids={t.assigneeIds} members={members} /></span>
+                        </div>
+                      </div>
+                      {onOpen && <CommentsButton count={unread[t.seriesId ?? t.id] ?? 0} onClick={() => onOpen(t)} />}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
+
+/* ==========================
+   iCalendar (.ics) export / import
+   ========================== */
+
+type IcsPreviewRow = { event: IcsEvent; problem: string | null; selected: boolean };
+
+/* same rules as addTask: title required, start not in the past, end after start */
+function checkIcsEvent(ev: IcsEvent): string | null {
+  if (!ev.title.trim()) return "Titre manquant";
+  if (ev.start && ev.start.getTime() < Date.now()) return "Début dans le passé";
+  if (ev.start && ev.end && ev.end.getTime() < ev.start.getTime()) return "Fin avant le début";
+  return null;
+}
+
+/* without `onImported` only the export is offered (read-only access) */
+function IcsTools({ tasks, name, groupId, onImported }: { tasks: Task[]; name: string; groupId?: string; onImported?: (created: Task[]) => void }) {
+  const [preview, setPreview] = useState<IcsPreviewRow[] | null>(null);
+  const [importing, setImporting] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const alerts = useAlerts();
+
+  function exportIcs() {
+    const dated = tasks.filter((t) => t.startDate || t.endDate);
+    if (dated.length === 0) { alerts.showToast({ type: "info", message: "Aucune tâche datée à exporter" }); return; }
+    downloadFile(`${slugify(name)}.ics`, tasksToIcs(dated, name, effectiveStatus), "text/calendar;charset=utf-8");
+    const skipped = tasks.length - dated.length;
+    alerts.showToast({ type: "success", message: `${dated.length} tâche(s) exportée(s)${skipped ? `, ${skipped} sans date ignorée(s)` : ""}` });
+  }
+
+  async function onFile(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    let events: IcsEvent[];
+    try {
+      events = parseIcs(await file.text());
+    } catch {
+      alerts.showToast({ type: "error", message: "Impossible de lire ce fichier iCalendar" });
+      return;
+    }
+    if (events.length === 0) { alerts.showToast({ type: "info", message: "Aucun événement trouvé dans ce fichier" }); return; }
+    setPreview(events.map((event) => {
+      const problem = checkIcsEvent(event);
+      return { event, problem, selected: !problem };
+    }));
+  }
+
+  async function runImport() {
+    if (!preview) return;
+    setImporting(true);
+    const created: Task[] = [];
+    let failed = 0;
+    for (const { event, selected, problem } of preview) {
+      if (!selected || problem) continue;
+      // only rules we can expand are kept (FREQ=YEARLY etc. import as a single task)
+      const recurrence = event.start && parseRRule(event.recurrence) ? event.recurrence : null;
+      try {
+        created.push(await tasksApi.create({
+          title: event.title,
+          description: event.description,
+          startDate: event.start?.toISOString() ?? null,
+          endDate: event.end?.toISOString() ?? null,
+          recurrence,
+          ...(recurrence && event.exdates.length ? { exdates: event.exdates.map((d) => d.toISOString()) } : {}),
+          ...(groupId ? { groupId } : {}),
+        }));
+      } catch {
+        failed++;
+      }
+    }
+    setImporting(false);
+    setPreview(null);
+    if (created.length) onImported?.(created);
+    alerts.showToast({
+      type: failed ? "warning" : "success",
+      title: "Import .ics",
+      message: `${created.length} tâche(s) créée(s)${failed ? `, ${failed} refusée(s) par le serveur` : ""}`,
+    });
+  }
+
+  const selectedCount = preview?.filter((r) => r.selected && !r.problem).length ?? 0;
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        <button onClick={exportIcs} className="flex items-center gap-1 px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm"><FiDownload /> Exporter .ics</button>
+        {onImported && (
+          <>
+            <button onClick={() => fileRef.current?.click()} className="flex items-center gap-1 px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm"><FiUpload /> Importer .ics</button>
+            <input ref={fileRef} type="file" accept=".ics,text/calendar" onChange={onFile} className="hidden" />
+          </>
+        )}
+      </div>
+
+      {preview && (
+        <div className="fixed inset-0 z-60 flex items-center justify-center bg-black/40 p-4">
+          <div className="w-full max-w-2xl bg-white rounded-3xl shadow-2xl overflow-hidden">
+            <div className="p-6">
+              <div className="text-lg font-bold mb-1">Importer {preview.length} événement(s)</div>
+              <div className="text-sm text-gray-600 mb-4">Les événements signalés seraient refusés et ne seront pas importés.</div>
+              <div className="max-h-[50vh] overflow-auto space-y-2">
+                {preview.map((row, i) => (
+                  <label key={i} className={`flex items-start gap-3 p-3 rounded-xl border ${row.problem ? "border-red-100 bg-red-50/50" : "border-gray-100"}`}>
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      disabled={!!row.problem}
+                      checked={row.selected && !row.problem}
+                      onChange={(e) => setPreview((p) => p && p.map((r, j) => (j === i ? { ...r, selected: e.target.checked } : r)))}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium truncate">{row.event.title || "(sans titre)"}</div>
+                      <div className="text-xs text-gray-500 mt-1 flex flex-wrap gap-3">
+                        <span className="flex items-center gap-1"><FiClock /> {row.event.start ? row.event.start.toLocaleString() : "—"}</span>
+                        <span className="flex items-center gap-1"><FiCalendar /> {row.event.end ? row.event.end.toLocaleString() : "—"}</span>
+                        <RecurrenceBadge rule={row.event.recurrence} />
+                      </div>
+                    </div>
+                    {row.problem && <span className="text-xs px-2 py-1 rounded-full bg-red-100 text-red-700 shrink-0">{row.problem}</span>}
+                  </label>
+                ))}
+              </div>
+              <div className="flex gap-3 justify-end mt-4">
+                <button onClick={() => setPreview(null)} disabled={importing} className="px-4 py-2 rounded-xl border border-gray-200 bg-white text-sm">Annuler</button>
+                <button onClick={runImport} disabled={importing || selectedCount === 0} className="px-4 py-2 rounded-xl bg-emerald-600 text-white text-sm disabled:opacity-50">
+                  {importing ? "Import…" : `Importer ${selectedCount} tâche(s)`}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+/* ==========================
+   CSV / JSON export and import wizard
+   ========================== */
+
+type ImportFailure = { index: number; title: string; message: string };
+
+type ImportState =
+  | { step: "mapping"; mapping: ImportMapping }
+  | { step: "preview"; mapping: ImportMapping; rows: ImportedRow[]; onlyProblems: boolean }
+  | { step: "importing"; done: number; total: number }
+  | { step: "report"; created: number; failures: ImportFailure[] };
+
+function importInput(row: ImportedRow, groupId: string | undefined): TaskInput {
+  return {
+    title: row.title,
+    description: row.description,
+    status: row.status,
+    priority: row.priority,
+    startDate: row.startDate,
+    endDate: row.endDate,
+    recurrence: row.recurrence,
+    exdates: row.exdates,
+    checklist: row.checklist,
+    // labels and assignees only exist within a group
+    ...(groupId ? { groupId, labels: row.labelIds, assignees: row.assigneeIds } : {}),
+  };
+}
+
+/*
+ * Mapping of the file's columns onto task fields, dry run (every row checked, nothing sent),
+ * then the import itself and a report of the rows the server refused, downloadable as CSV
+ * to fix them and import them again.
+ */
+function ImportWizard({ fileName, table, group, onClose, onImported }: { fileName: string; table: ImportTable; group?: Group; onClose: () => void; onImported: (created: Task[]) => void }) {
+  const [state, setState] = useState<ImportState>(() => ({ step: "mapping", mapping: guessMapping(table.columns) }));
+  const ctx: ExportContext = { members: group?.members ?? [], labels: group?.labels ?? [] };
+  const fields = group ? IMPORT_FIELDS : IMPORT_FIELDS.filter((f) => f !== "labels" && f !== "assignees");
+
+  function check(mapping: ImportMapping) {
+    setState({ step: "preview", mapping, rows: table.rows.map((r) => readImportRow(r, mapping, ctx)), onlyProblems: false });
+  }
+
+  async function run(rows: ImportedRow[]) {
+    const ready = rows.map((row, index) => ({ row, index })).filter(({ row }) => !row.problems.length);
+    const created: Task[] = [];
+    const failures: ImportFailure[] = [];
+    setState({ step: "importing", done: 0, total: ready.length });
+    for (const { row, index } of ready) {
+      try {
+        created.push(await tasksApi.create(importInput(row, group?.id)));
+      } catch (err) {
+        failures.push({ index, title: row.title, message: apiErrorMessage(err, "Refusée par le serveur") });
+      }
+      setState({ step: "importing", done: created.length + failures.length, total: ready.length });
+    }
+    if (created.length) onImported(created);
+    setState({ step: "report", created: created.length, failures });
+  }
+
+  function downloadFailures(failures: ImportFailure[]) {
+    const rows = failures.map((f) => [...table.columns.map((_, i) => table.rows[f.index][i] ?? ""), f.message]);
+    downloadFile(`${slugify(fileName.replace(/\.\w+$/, ""))}-refusees.csv`, toCsv([[...table.columns, "erreur"], ...rows]), "text/csv;charset=utf-8");
+  }
+
+  const sample = table.rows[0] ?? [];
+
+  return (
+    <div className="fixed inset-0 z-60 flex items-center justify-center bg-black/40 p-4">
+      <div role="dialog" aria-modal="true" aria-label="Importer des tâches" className="w-full max-w-2xl bg-white rounded-3xl shadow-2xl overflow-hidden">
+        <div className="p-6">
+          <div className="text-lg font-bold mb-1">Importer « {fileName} »</div>
+
+          {state.step === "mapping" && (
+            <>
+              <div className="text-sm text-gray-600 mb-4">{table.rows.length} ligne(s). Choisis la colonne du fichier pour chaque champ (exemple tiré de la première ligne).</div>
+              <div className="max-h-[50vh] overflow-auto space-y-2">
+                {fields.map((f) => {
+                  const col = state.mapping[f];
+                  return (
+                    <div key={f} className="grid grid-cols-[8rem_1fr] sm:grid-cols-[8rem_12rem_1fr] items-center gap-2 text-sm">
+                      <label htmlFor={`map-${f}`} className="font-medium text-gray-700">{IMPORT_FIELD_LABELS[f]}{f === "title" ? " *" : ""}</label>
+                      <select
+                        id={`map-${f}`}
+                        value={col ?? ""}
+                        onChange={(e) => setState({ step: "mapping", mapping: { ...state.mapping, [f]: e.target.value === "" ? null : Number(e.target.value) } })}
+                        className="px-3 py-2 rounded-xl border border-gray-200 bg-white min-w-0"
+                      >
+                        <option value="">— ignorer —</option>
+                        {table.columns.map((c, i) => <option key={i} value={i}>{c || `Colonne ${i + 1}`}</option>)}
+                      </select>
+                      <span className="hidden sm:block text-xs text-gray-400 truncate">{col === null ? "" : sample[col] || "(vide)"}</span>
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="flex gap-3 justify-end mt-4">
+                <button onClick={onClose} className="px-4 py-2 rounded-xl border border-gray-200 bg-white text-sm">Annuler</button>
+                <button onClick={() => check(state.mapping)} disabled={state.mapping.title === null} className="px-4 py-2 rounded-xl bg-emerald-600 text-white text-sm disabled:opacity-50">Vérifier</button>
+              </div>
+            </>
+          )}
+
+          {state.step === "preview" && (() => {
+            const ready = state.rows.filter((r) => !r.problems.length).length;
+            const shown = state.rows.map((row, i) => ({ row, i })).filter(({ row }) => !state.onlyProblems || row.problems.length);
+            return (
+              <>
+                <div className="text-sm text-gray-600 mb-2">Simulation : rien n'a encore été envoyé. {ready} tâche(s) prête(s), {state.rows.length - ready} ligne(s) en erreur ignorée(s).</div>
+                <label className="flex items-center gap-2 text-sm text-gray-600 mb-3">
+                  <input type="checkbox" checked={state.onlyProblems} onChange={(e) => setState({ ...state, onlyProblems: e.target.checked })} />
+                  Seulement les lignes en erreur
+                </label>
+                <div className="max-h-[50vh] overflow-auto space-y-2">
+                  {shown.map(({ row, i }) => (
+                    <div key={i} className={`p-3 rounded-xl border text-sm ${row.problems.length ? "border-red-100 bg-red-50/50" : "border-gray-100"}`}>
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-gray-400 shrink-0">n° {i + 1}</span>
+                        <span className="font-medium truncate flex-1">{row.title || "(sans titre)"}</span>
+                        {row.status && <span className="text-xs text-gray-500">{STATUS_LABELS[row.status]}</span>}
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1 flex flex-wrap gap-3">
+                        <span className="flex items-center gap-1"><FiClock /> {row.startDate ? new Date(row.startDate).toLocaleString() : "—"}</span>
+                        <span className="flex items-center gap-1"><FiCalendar /> {row.endDate ? new Date(row.endDate).toLocaleString() : "—"}</span>
+                      </div>
+                      {row.problems.map((p) => <div key={p} className="mt-1 text-xs text-red-700">{p}</div>)}
+                      {row.notes.map((n) => <div key={n} className="mt-1 text-xs text-orange-700">{n}</div>)}
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-3 justify-end mt-4">
+                  <button onClick={() => setState({ step: "mapping", mapping: state.mapping })} className="px-4 py-2 rounded-xl border border-gray-200 bg-white text-sm">Retour</button>
+                  <button onClick={() => run(state.rows)} disabled={ready === 0} className="px-4 py-2 rounded-xl bg-emerald-600 text-white text-sm disabled:opacity-50">Importer {ready} tâche(s)</button>
+                </div>
+              </>
+            );
+          })()}
+
+          {state.step === "importing" && (
+            <div className="py-6">
+              <div className="text-sm text-gray-600 mb-2" role="status">Import… {state.done}/{state.total}</div>
+              <div className="h-1.5 rounded-full bg-gray-200 overflow-hidden"><div className="h-full bg-emerald-500" style={{ width: `${state.total ? (state.done / state.total) * 100 : 0}%` }} /></div>
+            </div>
+          )}
+
+          {state.step === "report" && (
+            <>
+              <div className="text-sm text-gray-600 mb-3">{state.created} tâche(s) créée(s){state.failures.length ? `, ${state.failures.length} refusée(s) par le serveur :` : "."}</div>
+              {state.failures.length > 0 && (
+                <div className="max-h-[40vh] overflow-auto space-y-2">
+                  {state.failures.map((f) => (
+                    <div key={f.index} className="p-3 rounded-xl border border-red-100 bg-red-50/50 text-sm">
+                      <div className="flex items-center gap-2"><span className="text-xs text-gray-400">n° {f.index + 1}</span><span className="font-medium truncate">{f.title}</span></div>
+                      <div className="mt-1 text-xs text-red-700">{f.message}</div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-3 justify-end mt-4">
+                {state.failures.length > 0 && <button onClick={() => downloadFailures(state.failures)} className="flex items-center gap-1 px-4 py-2 rounded-xl border border-gray-200 bg-white text-sm"><FiDownload /> Lignes refusées (.csv)</button>}
+                <button onClick={onClose} className="px-4 py-2 rounded-xl bg-emerald-600 text-white text-sm">Fermer</button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/*
+ * Backup of a group (tasks, members, labels) or, without `group`, of the personal tasks.
+ * Every task is fetched again for the export: the list on screen is paged and filtered.
+ * Without `onImported` only the export is offered.
+ */
+function DataTools({ group, onImported }: { group?: Group; onImported?: (created: Task[]) => void }) {
+  const [file, setFile] = useState<{ name: string; table: ImportTable } | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const alerts = useAlerts();
+
+  async function exportAs(format: "csv" | "json") {
+    setExporting(true);
+    try {
+      const tasks = group ? await tasksApi.listByGroup(group.id) : await tasksApi.listPersonal();
+      const base = slugify(group?.name ?? "taches-personnelles");
+      if (format === "json") {
+        downloadFile(`${base}.json`, exportJson(tasks, group ?? null), "application/json;charset=utf-8");
+      } else {
+        downloadFile(`${base}-taches.csv`, tasksToCsv(tasks, { members: group?.members ?? [], labels: group?.labels ?? [] }), "text/csv;charset=utf-8");
+        // CSV is one table per file: members go in their own
+        if (group) downloadFile(`${base}-membres.csv`, membersToCsv(group), "text/csv;charset=utf-8");
+      }
+      alerts.showToast({ type: "success", message: `${tasks.length} tâche(s) exportée(s) en ${format.toUpperCase()}` });
+    } catch (err) {
+      alerts.showToast({ type: "error", message: apiErrorMessage(err, "Export impossible") });
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  async function onFile(e: ChangeEvent<HTMLInputElement>) {
+    const picked = e.target.files?.[0];
+    e.target.value = "";
+    if (!picked) return;
+    try {
+      const table = readImportFile(picked.name, await picked.text());
+      if (table.rows.length === 0) { alerts.showToast({ type: "info", message: "Aucune ligne à importer dans ce fichier" }); return; }
+      setFile({ name: picked.name, table });
+    } catch (err) {
+      alerts.showToast({ type: "error", message: err instanceof Error ? err.message : "Fichier illisible" });
+    }
+  }
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        <button onClick={() => exportAs("csv")} disabled={exporting} className="flex items-center gap-1 px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm disabled:opacity-50"><FiDownload /> CSV</button>
+        <button onClick={() => exportAs("json")} disabled={exporting} className="flex items-center gap-1 px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm disabled:opacity-50"><FiDownload /> JSON</button>
+        {onImported && (
+          <>
+            <button onClick={() => fileRef.current?.click()} className="flex items-center gap-1 px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm"><FiUpload /> Importer CSV/JSON</button>
+            <input ref={fileRef} type="file" accept=".csv,.json,text/csv,application/json" onChange={onFile} className="hidden" />
+          </>
+        )}
+      </div>
+      {file && onImported && <ImportWizard fileName={file.name} table={file.table} group={group} onClose={() => setFile(null)} onImported={onImported} />}
+    </>
+  );
+}
+
+/* ==========================
+   Time tracking (task timer, manual entries, weekly timesheet)
+   ========================== */
+
+/* shorter than this, a stopped timer records nothing (started by mistake) */
+const MIN_ENTRY_MS = 60 * 1000;
+
+/* time spent, in hours and minutes: 5400000 -> "1 h 30" */
+function formatSpent(ms: number) {
+  const minutes = Math.round(ms / 60000);
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  if (!h) return `${m} min`;
+  return m ? `${h} h ${String(m).padStart(2, "0")}` : `${h} h`;
+}
+
+function plannedMs(t: Task) {
+  if (!t.startDate || !t.endDate) return null;
+  const ms = new Date(t.endDate).getTime() - new Date(t.startDate).getTime();
+  return ms > 0 ? ms : null;
+}
+
+/* a recorded entry added to the total of its task in a list */
+function addTimeSpent(tasks: Task[], taskId: string, ms: number) {
+  return tasks.map((t) => (t.id === taskId ? { ...t, timeSpentMs: t.timeSpentMs + ms } : t));
+}
+
+type TimeLogged = (taskId: string, ms: number) => void;
+
+/* stops the running timer and records it; when the server refuses, the timer keeps running */
+async function stopRunningTimer(showToast: ShowToast, onLogged?: TimeLogged, atLogout = false) {
+  const timer = stopTimer();
+  if (!timer) return;
+  const endedAt = new Date();
+  if (endedAt.getTime() - new Date(timer.startedAt).getTime() < MIN_ENTRY_MS) {
+    showToast({ type: "info", message: "Moins d'une minute : rien n'a été enregistré" });
+    return;
+  }
+  try {
+    const entry = await timeApi.create(timer.taskId, { startedAt: timer.startedAt, endedAt: endedAt.toISOString() });
+    onLogged?.(timer.taskId, entry.duration);
+    showToast({ type: "success", message: `${formatSpent(entry.duration)} enregistrées sur « ${timer.taskTitle} »` });
+  } catch (err) {
+    if (apiErrorStatus(err) === 404) {
+      showToast({ type: "error", message: `« ${timer.taskTitle} » n'existe plus : temps non enregistré` });
+      return;
+    }
+    resumeTimer(timer);
+    showToast({ type: "error", message: apiErrorMessage(err, atLogout ? "Temps non enregistré : le chronomètre sera repris à ta prochaine connexion" : "Temps non enregistré : le chronomètre continue") });
+  }
+}
+
+/* time entered by hand: when it started and how long it lasted, at most until now */
+function TimeEntryForm({ task, onClose, onLogged }: { task: { id: string; title: string }; onClose: () => void; onLogged: TimeLogged }) {
+  const [start, setStart] = useState(() => isoToLocalInput(new Date(Date.now() - 60 * 60 * 1000).toISOString()));
+  const [hours, setHours] = useState("1");
+  const [minutes, setMinutes] = useState("0");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const alerts = useAlerts();
+
+  async function save(e: FormEvent) {
+    e.preventDefault();
+    const duration = ((Number(hours) || 0) * 60 + (Number(minutes) || 0)) * 60 * 1000;
+    if (!start || duration <= 0) { alerts.showToast({ type: "info", message: "Indique le début et une durée" }); return; }
+    const startedAt = new Date(start);
+    const endedAt = new Date(startedAt.getTime() + duration);
+    if (endedAt.getTime() > Date.now()) { alerts.showToast({ type: "error", message: "Le temps saisi ne peut pas finir dans le futur" }); return; }
+    setSaving(true);
+    try {
+      const entry = await timeApi.create(task.id, { startedAt: startedAt.toISOString(), endedAt: endedAt.toISOString(), note: note.trim() || undefined });
+      onLogged(task.id, entry.duration);
+      alerts.showToast({ type: "success", message: `${formatSpent(entry.duration)} ajoutées à « ${task.title} »` });
+      onClose();
+    } catch (err) {
+      alerts.showToast({ type: "error", message: apiErrorMessage(err, "Erreur saisie du temps") });
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-60 flex items-center justify-center bg-black/40 p-4">
+      <form onSubmit={save} role="dialog" aria-modal="true" aria-label="Saisir du temps" className="w-full max-w-md bg-white rounded-3xl shadow-2xl p-6 space-y-3">
+        <div className="text-lg font-bold truncate">Temps passé sur « {task.title} »</div>
+        <label className="block text-sm">
+          <span className="text-gray-700">Début</span>
+          <input type="datetime-local" value={start} onChange={(e) => setStart(e.target.value)} className="mt-1 w-full px-3 py-2 rounded-xl border border-gray-200" />
+        </label>
+        <div className="flex items-end gap-2 text-sm">
+          <label className="block">
+            <span className="text-gray-700">Heures</span>
+            <input type="number" min={0} value={hours} onChange={(e) => setHours(e.target.value)} className="mt-1 w-24 px-3 py-2 rounded-xl border border-gray-200" />
+          </label>
+          <label className="block">
+            <span className="text-gray-700">Minutes</span>
+            <input type="number" min={0} max={59} value={minutes} onChange={(e) => setMinutes(e.target.value)} className="mt-1 w-24 px-3 py-2 rounded-xl border border-gray-200" />
+          </label>
+        </div>
+        <label className="block text-sm">
+          <span className="text-gray-700">Note</span>
+          <input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Facultatif" className="mt-1 w-full px-3 py-2 rounded-xl border border-gray-200" />
+        </label>
+        <div className="flex gap-3 justify-end pt-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-xl border border-gray-200 bg-white text-sm">Annuler</button>
+          <button type="submit" disabled={saving} className="px-4 py-2 rounded-xl bg-emerald-600 text-white text-sm disabled:opacity-50">{saving ? "Enregistrement…" : "Ajouter"}</button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+/*
+ * Card line: time spent (every member) against the planned duration, the start/stop timer and
+ * manual entry. Occurrences of a recurring task count for their series. Read-only without `onLogged`.
+ */
+function TaskTimer({ task, onLogged }: { task: Task; onLogged?: TimeLogged }) {
+  const active = useSyncExternalStore(onTimerChange, getActiveTimer);
+  const now = useNow([]);
+  const [adding, setAdding] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const { showToast } = useAlerts();
+  const target = { id: task.seriesId ?? task.id, title: task.title, groupId: task.groupId };
+  const running = active?.taskId === target.id;
+  const spent = task.timeSpentMs + (running ? Math.max(0, now - new Date(active.startedAt).getTime()) : 0);
+  const planned = plannedMs(task);
+
+  async function toggle() {
+    if (!onLogged) return;
+    setBusy(true);
+    // one timer at a time: the one running elsewhere is recorded first
+    if (active) await stopRunningTimer(showToast, onLogged);
+    if (!running && !getActiveTimer()) startTimer(target);
+    setBusy(false);
+  }
+
+  if (!onLogged && !spent) return null;
+  return (
+    <span className="inline-flex items-center gap-1">
+      {onLogged && (
+        <button onClick={toggle} disabled={busy || !!task.pending} aria-pressed={running} title={running ? "Arrêter le chronomètre" : "Démarrer le chronomètre"} className={`p-1 rounded-md disabled:opacity-50 ${running ? "bg-red-50 text-red-600" : "bg-gray-50 text-gray-600"}`}>
+          {running ? <FiSquare /> : <FiPlay />}
+        </button>
+      )}
+      {(spent > 0 || planned !== null) && (
+        <span title="Temps passé / durée prévue" className={planned !== null && spent > planned ? "text-red-600" : running ? "text-emerald-700" : ""}>
+          {formatSpent(spent)}{planned !== null ? ` / ${formatSpent(planned)} prévues` : ""}
+        </span>
+      )}
+      {running && <span className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse" aria-label="Chronomètre en cours" />}
+      {onLogged && !task.pending && <button onClick={() => setAdding(true)} title="Saisir du temps" aria-label="Saisir du temps" className="p-1 rounded-md bg-gray-50 text-gray-600"><FiPlus /></button>}
+      {adding && onLogged && <TimeEntryForm task={target} onClose={() => setAdding(false)} onLogged={onLogged} />}
+    </span>
+  );
+}
+
+/*
+ * Week of time entries, per task and day: the user's own ("Moi"), or every member's on a
+ * group's tasks. Week and scope are in the URL (?week=YYYY-MM-DD&group=id).
+ */
+function TimesheetPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [loaded, setLoaded] = useState<{ key: string; entries: TimeEntry[] } | null>(null);
+  const nav = useNavigate();
+  const { showToast } = useAlerts();
+
+  const weekStart = startOfWeek(parseDateKey(searchParams.get("week")) ?? new Date());
+  const groupId = searchParams.get("group") ?? "";
+  const group = groups.find((g) => g.id === groupId) ?? null;
+  const key = `${toDateKey(weekStart)}|${groupId}`;
+
+  useEffect(() => {
+    groupsApi.list().then(setGroups, () => setGroups([]));
+  }, []);
+
+  useEffect(() => {
+    const [week, gid] = key.split("|");
+    const range = weekRange(parseDateKey(week)!);
+    let cancelled = false;
+    timeApi.list({ ...range, ...(gid ? { groupId: gid } : {}) }).then(
+      (entries) => { if (!cancelled) setLoaded({ key, entries }); },
+      (err) => {
+        if (cancelled) return;
+        setLoaded({ key, entries: [] });
+        if (apiErrorStatus(err) !== 401) showToast({ type: "error", message: "Impossible de charger les temps" });
+      }
+    );
+    return () => { cancelled = true; };
+  }, [key, showToast]);
+
+  function go(next: { week?: Date; group?: string }) {
+    const params: Record<string, string> = { week: toDateKey(next.week ?? weekStart) };
+    const g = next.group ?? groupId;
+    if (g) params.group = g;
+    setSearchParams(params, { replace: true });
+  }
+
+  const current = loaded?.key === key ? loaded : null;
+  const sheet = buildTimesheet(current?.entries ?? [], weekStart, !!groupId);
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const groupName = (gid: string | null) => (gid ? groups.find((g) => g.id === gid)?.name ?? "Groupe" : "Personnel");
+  const who = (r: TimesheetRow) => r.user?.fullname || r.user?.id.slice(0, 8) || "—";
+
+  function exportCsv() {
+    const header = [...(groupId ? ["membre"] : []), "groupe", "tâche", ...days.map((d) => toDateKey(d)), "total"];
+    const rows = sheet.rows.map((r) => [...(groupId ? [who(r)] : []), groupName(r.groupId), r.taskTitle, ...r.days.map(formatClock), formatClock(r.total)]);
+    const totals = [...(groupId ? [""] : []), "", "Total", ...sheet.days.map(formatClock), formatClock(sheet.total)];
+    downloadFile(`temps-${slugify(group?.name ?? "moi")}-${toDateKey(weekStart)}.csv`, toCsv([header, ...rows, totals]), "text/csv;charset=utf-8");
+  }
+
+  return (
+    <div className="min-h-screen w-full bg-gradient-to-br from-emerald-50 via-white to-emerald-25 py-6">
+      <div className="w-full max-w-full sm:max-w-3xl md:max-w-5xl lg:max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <Header onLogout={async () => { await signOut(showToast); nav("/"); }} />
+
+        <div className="mt-6 p-4 sm:p-6 rounded-2xl bg-white shadow-lg border border-gray-50">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <div className="flex items-center gap-2">
+              <button onClick={() => go({ week: addDays(weekStart, -7) })} className="px-3 py-2 rounded-lg border border-gray-200" aria-label="Semaine précédente">◀</button>
+              <button onClick={() => go({ week: new Date() })} className="px-3 py-2 rounded-lg border border-gray-200 text-sm">Cette semaine</button>
+              <button onClick={() => go({ week: addDays(weekStart, 7) })} className="px-3 py-2 rounded-lg border border-gray-200" aria-label="Semaine suivante">▶</button>
+              <h2 className="ml-2 text-lg font-semibold">Semaine du {weekStart.toLocaleDateString(undefined, { day: "numeric", month: "long", year: "numeric" })}</h2>
+            </div>
+            <div className="flex items-center gap-2">
+              <select value={groupId} onChange={(e) => go({ group: e.target.value })} aria-label="Feuille de temps de" className="px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm">
+                <option value="">Moi (tous mes groupes)</option>
+                {groups.map((g) => <option key={g.id} value={g.id}>{g.name} (tous les membres)</option>)}
+              </select>
+              <button onClick={exportCsv} disabled={!sheet.rows.length} className="flex items-center gap-1 px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm disabled:opacity-50"><FiDownload /> CSV</button>
+            </div>
+          </div>
+
+          {!sheet.rows.length ? (
+            <div className="p-6 rounded-2xl bg-gray-50 text-center text-gray-600">{current ? "Aucun temps enregistré cette semaine" : "Chargement…"}</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500">
+                    {groupId && <th className="py-2 pr-3 font-medium">Membre</th>}
+                    <th className="py-2 pr-3 font-medium">Tâche</th>
+                    {days.map((d) => <th key={d.getTime()} className="py-2 px-2 font-medium text-right capitalize">{d.toLocaleDateString(undefined, { weekday: "short", day: "numeric" })}</th>)}
+                    <th className="py-2 pl-2 font-medium text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sheet.rows.map((r) => (
+                    <tr key={`${r.user?.id ?? ""}|${r.taskId ?? r.taskTitle}`} className="border-t border-gray-100">
+                      {groupId && <td className="py-2 pr-3 whitespace-nowrap">{who(r)}</td>}
+                      <td className="py-2 pr-3 min-w-0">
+                        {r.taskId ? <Link to={`/tasks/${r.taskId}`} className="font-medium hover:text-emerald-700">{r.taskTitle || "(sans titre)"}</Link> : <span className="font-medium">{r.taskTitle || "(supprimée)"}</span>}
+                        {!groupId && <div className="text-xs text-gray-400">{groupName(r.groupId)}</div>}
+                      </td>
+                      {r.days.map((ms, i) => <td key={i} className={`py-2 px-2 text-right tabular-nums ${ms ? "" : "text-gray-300"}`}>{ms ? formatSpent(ms) : "—"}</td>)}
+                      <td className="py-2 pl-2 text-right font-semibold tabular-nums">{formatSpent(r.total)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="border-t-2 border-gray-200 font-semibold">
+                    <td className="py-2 pr-3" colSpan={groupId ? 2 : 1}>Total</td>
+                    {sheet.days.map((ms, i) => <td key={i} className="py-2 px-2 text-right tabular-nums">{ms ? formatSpent(ms) : "—"}</td>)}
+                    <td className="py-2 pl-2 text-right tabular-nums">{formatSpent(sheet.total)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ==========================
+   Calendar (month / week / day)
+   ========================== */
+
+const HOUR_PX = 48;
+const CALENDAR_MODES: { id: CalendarMode; label: string }[] = [
+  { id: "month", label: "Mois" },
+  { id: "week", label: "Semaine" },
+  { id: "day", label: "Jour" },
+];
+const WEEKDAY_LABELS = ["Lun", "Mar", "Mer", "Jeu", "Ven", "Sam", "Dim"];
+
+/* `locked`: a task the user may not edit only opens on click */
+type CalDrag = { id: string; kind: "move" | "resize"; y0: number; fromDay: string; dayDelta: number; minuteDelta: number; moved: boolean; locked: boolean };
+
+function CalendarPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [drag, setDrag] = useState<CalDrag | null>(null);
+  const nav = useNavigate();
+  const alerts = useAlerts();
+  const userId = getUserIdFromToken();
+
+  const modeParam = searchParams.get("view");
+  const mode: CalendarMode = modeParam === "week" || modeParam === "day" ? modeParam : "month";
+  const anchor = parseDateKey(searchParams.get("date")) ?? startOfDay(new Date());
+  const days = visibleDays(mode, anchor);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const [gs, personal] = await Promise.all([groupsApi.list(), tasksApi.listPersonal()]);
+        const perGroup = await Promise.all(gs.map((g) => tasksApi.listByGroup(g.id).catch(() => [])));
+        if (cancelled) return;
+        setGroups(gs);
+        setTasks([...personal, ...perGroup.flat()]);
+      } catch (err) {
+        if (apiErrorStatus(err) === 401) return;
+        alerts.showToast({ type: "error", message: "Impossible de charger le calendrier" });
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [alerts]);
+
+  function go(next: { mode?: CalendarMode; date?: Date }) {
+    setSearchParams({ view: next.mode ?? mode, date: toDateKey(next.date ?? anchor) });
+  }
+
+  function colorFor(groupId: string | null) {
+    if (!groupId) return PERSONAL_COLOR;
+    const idx = groups.findIndex((g) => g.id === groupId);
+    return GROUP_COLORS[Math.max(0, idx) % GROUP_COLORS.length];
+  }
+
+  function sourceFor(groupId: string | null) {
+    if (!groupId) return "Personnel";
+    return groups.find((g) => g.id === groupId)?.name || "Groupe";
+  }
+
+  /* personal tasks, and group tasks the user's role lets them edit (as in the group list and board) */
+  function canEdit(t: Task) {
+    if (!t.groupId) return true;
+    return can(roleOf(groups.find((g) => g.id === t.groupId) ?? null, userId), "task.edit");
+  }
+
+  /* start/end of an event as currently previewed by the drag */
+  function withDrag(e: CalendarEvent): CalendarEvent {
+    if (!drag || drag.id !== e.task.id) return e;
+    // whole days through the calendar (a drag across a DST change keeps the time of day)
+    const shift = (d: Date) => new Date(addDays(d, drag.dayDelta).getTime() + drag.minuteDelta * 60000);
+    if (drag.kind === "move") return { ...e, start: shift(e.start), end: shift(e.end) };
+    const end = new Date(Math.max(shift(e.end).getTime(), e.start.getTime() + 15 * 60000));
+    return { ...e, end };
+  }
+
+  // recurring tasks are expanded into their occurrences for the visible range
+  const shown = expandTasks(tasks, days[0], addDays(days[days.length - 1], 1));
+  const events = shown
+    .map((t) => toEvent(t, colorFor(t.groupId), sourceFor(t.groupId)))
+    .filter((e): e is CalendarEvent => !!e)
+    .map(withDrag);
+
+  function beginDrag(e: PointerEvent<HTMLElement>, ev: CalendarEvent, kind: CalDrag["kind"], day: Date) {
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({ id: ev.task.id, kind, y0: e.clientY, fromDay: toDateKey(day), dayDelta: 0, minuteDelta: 0, moved: false, locked: !canEdit(ev.task) });
+  }
+
+  async function reschedule(task: Task, ev: CalendarEvent) {
+    const payload: TaskInput = { startDate: ev.start.toISOString(), endDate: ev.end.toISOString() };
+    setTasks((prev) => prev.map((t) => (t.id === task.id ? { ...t, ...payload } : t)));
+    try {
+      const updated = await tasksApi.update(task.id, payload, { ...task, ...payload });
+      setTasks((prev) => prev.map((t) => (t.id === task.id ? updated : t)));
+      alerts.showToast({ type: "success", message: "Tâche replanifiée" });
+    } catch (err) {
+      setTasks((prev) => prev.map((t) => (t.id === task.id ? task : t)));
+      alerts.showToast({ type: "error", message: apiErrorMessage(err, "Erreur mise à jour") });
+    }
+  }
+
+  /* pointer released at `now`: reads the drag as last rendered */
+  const endDrag = useEffectEvent((now: number) => {
+    if (!drag) return;
+    const task = shown.find((t) => t.id === drag.id);
+    const ev = task && toEvent(task, "", "");
+    const moved = ev && withDrag(ev);
+    if (task?.seriesId && drag.moved) alerts.showToast({ type: "info", message: "Modifiez une tâche récurrente depuis sa liste pour choisir l'occurrence ou la série" });
+    else if (moved && drag.moved && moved.start.getTime() < now) alerts.showToast({ type: "error", message: "La date/heure de début ne peut pas être passée" });
+    else if (task && moved && drag.moved) reschedule(task, moved);
+    else if (task && !drag.moved) nav(task.groupId ? `/groups/${task.groupId}` : "/dashboard");
+    setDrag(null);
+  });
+
+  // window listeners: the dragged block re-mounts in another column, so element capture would be lost
+  const dragging = drag !== null;
+  useEffect(() => {
+    if (!dragging) return;
+    function onMove(e: globalThis.PointerEvent) {
+      const el = document.elementsFromPoint(e.clientX, e.clientY).find((x) => x instanceof HTMLElement && x.dataset.day);
+      const over = el instanceof HTMLElement ? parseDateKey(el.dataset.day) : null;
+      setDrag((d) => {
+        if (!d || d.locked) return d;
+        const from = parseDateKey(d.fromDay)!;
+        const dayDelta = over ? Math.round((over.getTime() - from.getTime()) / DAY_MS) : d.dayDelta;
+        const minuteDelta = mode === "month" ? 0 : snapMinutes(((e.clientY - d.y0) / HOUR_PX) * 60);
+        return { ...d, dayDelta, minuteDelta, moved: d.moved || dayDelta !== 0 || minuteDelta !== 0 };
+      });
+    }
+    const onUp = () => endDrag(Date.now());
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+    window.addEventListener("pointercancel", onUp);
+    return () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+      window.removeEventListener("pointercancel", onUp);
+    };
+  }, [dragging, mode]);
+
+  const title = mode === "month"
+    ? anchor.toLocaleDateString(undefined, { month: "long", year: "numeric" })
+    : mode === "week"
+      ? `${days[0].toLocaleDateString()} – ${days[6].toLocaleDateString()}`
+      : anchor.toLocaleDateString(undefined, { weekday: "long", day: "numeric", month: "long", year: "numeric" });
+
+  return (
+    <div className="min-h-screen w-full bg-gradient-to-br from-emerald-50 via-white to-emerald-25 py-6">
+      <div className="w-full max-w-full sm:max-w-3xl md:max-w-5xl lg:max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <Header onLogout={async () => { await signOut(alerts.showToast); nav("/"); }} />
+
+        <div className="mt-6 p-4 sm:p-6 rounded-2xl bg-white shadow-lg border border-gray-50">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <div className="flex items-center gap-2">
+              <button onClick={() => go({ date: shiftAnchor(mode, anchor, -1) })} className="px-3 py-2 rounded-lg border border-gray-200" aria-label="Précédent">◀</button>
+              <button onClick={() => go({ date: new Date() })} className="px-3 py-2 rounded-lg border border-gray-200 text-sm">Aujourd'hui</button>
+              <button onClick={() => go({ date: shiftAnchor(mode, anchor, 1) })} className="px-3 py-2 rounded-lg border border-gray-200" aria-label="Suivant">▶</button>
+              <h2 className="ml-2 text-lg font-semibold capitalize">{title}</h2>
+            </div>
+            <div className="inline-flex rounded-xl border border-gray-200 bg-white p-1 text-sm" role="group" aria-label="Vue du calendrier">
+              {CALENDAR_MODES.map((m) => (
+                <button key={m.id} onClick={() => go({ mode: m.id })} aria-pressed={mode === m.id} className={`px-3 py-1 rounded-lg ${mode === m.id ? "bg-emerald-600 text-white" : "text-gray-600"}`}>{m.label}</button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 mb-4 text-xs text-gray-600">
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-full" style={{ background: PERSONAL_COLOR }} /> Personnel</span>
+            {groups.map((g) => (
+              <span key={g.id} className="flex items-center gap-1"><span className="w-3 h-3 rounded-full" style={{ background: colorFor(g.id) }} /> {g.name}</span>
+            ))}
+          </div>
+
+          {mode === "month" ? (
+            <MonthGrid days={days} anchor={anchor} events={events} draggingId={drag?.id ?? null} onPick={(d) => go({ mode: "day", date: d })} canEdit={canEdit} onDragStart={beginDrag} />
+          ) : (
+            <TimeGrid days={days} events={events} draggingId={drag?.id ?? null} canEdit={canEdit} onDragStart={beginDrag} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type CalendarDragStart = (e: PointerEvent<HTMLElement>, ev: CalendarEvent, kind: CalDrag["kind"], day: Date) => void;
+
+function MonthGrid({ days, anchor, events, draggingId, onPick, canEdit, onDragStart }: { days: Date[]; anchor: Date; events: CalendarEvent[]; draggingId: string | null; onPick: (d: Date) => void; canEdit: (t: Task) => boolean; onDragStart: CalendarDragStart }) {
+  const today = new Date();
+  return (
+    <div className="grid grid-cols-7 gap-px bg-gray-100 rounded-xl overflow-hidden select-none">
+      {WEEKDAY_LABELS.map((l) => <div key={l} className="bg-gray-50 text-xs font-medium text-gray-500 text-center py-2">{l}</div>)}
+      {days.map((day) => {
+        const dayEvents = eventsOnDay(events, day);
+        const outside = day.getMonth() !== anchor.getMonth();
+        return (
+          <div key={toDateKey(day)} data-day={toDateKey(day)} className={`min-h-[96px] p-1 ${outside ? "bg-gray-50 text-gray-400" : "bg-white"}`}>
+            <button onClick={() => onPick(day)} className={`text-xs w-6 h-6 rounded-full ${isSameDay(day, today) ? "bg-emerald-600 text-white" : ""}`}>{day.getDate()}</button>
+            <div className="space-y-1 mt-1">
+              {dayEvents.slice(0, 3).map((ev) => (
+                <div
+                  key={ev.task.id}
+                  onPointerDown={(e) => onDragStart(e, ev, "move", day)}
+                  title={`${ev.task.title} — ${ev.source}`}
+                  className={`text-[11px] leading-tight px-1.5 py-0.5 rounded text-white truncate touch-none ${canEdit(ev.task) ? "cursor-grab" : "cursor-pointer"} ${draggingId === ev.task.id ? "opacity-70 ring-2 ring-emerald-300" : ""}`}
+                  style={{ background: ev.color }}
+                >
+                  {ev.start.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })} {ev.task.title}
+                </div>
+              ))}
+              {dayEvents.length > 3 && <button onClick={() => onPick(day)} className="text-[11px] text-gray-500">+{dayEvents.length - 3} autres</button>}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function TimeGrid({ days, events, draggingId, canEdit, onDragStart }: { days: Date[]; events: CalendarEvent[]; draggingId: string | null; canEdit: (t: Task) => boolean; onDragStart: CalendarDragStart }) {
+  const now = new Date();
+  return (
+    <div className="overflow-auto max-h-[70vh] rounded-xl border border-gray-100 select-none">
+      <div className="grid sticky top-0 z-20 bg-white border-b border-gray-100" style={{ gridTemplateColumns: `48px repeat(${days.length}, minmax(0, 1fr))` }}>
+        <div />
+        {days.map((d) => (
+          <div key={toDateKey(d)} className={`text-xs text-center py-2 font-medium ${isSameDay(d, now) ? "text-emerald-700" : "text-gray-500"}`}>
+            {WEEKDAY_LABELS[(d.getDay() + 6) % 7]} {d.getDate()}
+          </div>
+        ))}
+      </div>
+      <div className="grid" style={{ gridTemplateColumns: `48px repeat(${days.length}, minmax(0, 1fr))` }}>
+        <div className="relative" style={{ height: 24 * HOUR_PX }}>
+          {Array.from({ length: 24 }, (_, h) => (
+            <div key={h} className="absolute right-1 text-[10px] text-gray-400" style={{ top: h * HOUR_PX - 6 }}>{h > 0 ? `${h}:00` : ""}</div>
+          ))}
+        </div>
+        {days.map((day) => {
+          const dayEvents = eventsOnDay(events, day);
+          const lanes = layoutLanes(dayEvents);
+          return (
+            <div key={toDateKey(day)} data-day={toDateKey(day)} className="relative border-l border-gray-100" style={{ height: 24 * HOUR_PX }}>
+              {Array.from({ length: 24 }, (_, h) => <div key={h} className="absolute inset-x-0 border-t border-gray-50" style={{ top: h * HOUR_PX }} />)}
+              {isSameDay(day, now) && <div className="absolute inset-x-0 border-t-2 border-red-400 z-10" style={{ top: (minutesInDay(now, day) / 60) * HOUR_PX }} />}
+              {dayEvents.map((ev) => {
+                const top = (minutesInDay(ev.start, day) / 60) * HOUR_PX;
+                const height = Math.max(18, ((minutesInDay(ev.end, day) - minutesInDay(ev.start, day)) / 60) * HOUR_PX);
+                const { lane, lanes: count } = lanes.get(ev.task.id) ?? { lane: 0, lanes: 1 };
+                const endsToday = isSameDay(ev.end, day) || ev.end.getTime() === addDays(startOfDay(day), 1).getTime();
+                return (
+                  <div
+                    key={ev.task.id}
+                    onPointerDown={(e) => onDragStart(e, ev, "move", day)}
+                    title={`${ev.task.title} — ${ev.source}`}
+                    className={`absolute rounded-md px-1.5 py-0.5 text-[11px] text-white overflow-hidden touch-none shadow-sm ${canEdit(ev.task) ? "cursor-grab" : "cursor-pointer"} ${draggingId === ev.task.id ? "opacity-80 ring-2 ring-emerald-300 z-10" : ""}`}
+                    style={{ top, height, left: `calc(${(lane / count) * 100}% + 2px)`, width: `calc(${100 / count}% - 4px)`, background: ev.color }}
+                  >
+                    <div className="font-semibold truncate">{ev.task.title}</div>
+                    <div className="opacity-90 truncate">{ev.start.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })} – {ev.end.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}</div>
+                    {endsToday && canEdit(ev.task) && (
+                      <div onPointerDown={(e) => onDragStart(e, ev, "resize", day)} className="absolute inset-x-0 bottom-0 h-2 cursor-ns-resize" title="Étirer pour changer la fin" />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/* ==========================
+   Profile Drawer (global)
+   ========================== */
+
+function ProfileDrawer({ open, onClose }: { open: boolean; onClose: () => void }) {
+  const [user, setUser] = useState<User | null>(null);
+  const nav = useNavigate();
+  const alerts = useAlerts();
+
+  useEffect(() => {
+    if (open) fetchMe();
+  }, [open]);
+
+  async function fetchMe() {
+    try {
+      setUser(await authApi.me());
+    } catch (err) {
+      if (apiErrorStatus(err) === 401) return; // session manager already redirected to login
+      alerts.showToast({ type: "error", message: "Impossible de lire le profil" });
+    }
+  }
+
+  async function logout() {
+    await signOut(alerts.showToast);
+    onClose();
+    nav("/");
+  }
+
+  async function deleteAccount() {
+    const ok = await alerts.confirm({ title: "Supprimer le compte", message: "Es-tu sûr de vouloir supprimer ton compte ? Cette action est irréversible.", okLabel: "Supprimer", cancelLabel: "Annuler" });
+    if (!ok) return;
+    try {
+      await authApi.deleteMe();
+      alerts.showToast({ type: "success", message: "Compte supprimé" });
+      await signOut();
+      onClose();
+      nav("/");
+    } catch (err) {
+      try {
+        const uid = getUserIdFromToken();
+        if (uid) {
+          await authApi.deleteUser(uid);
+          alerts.showToast({ type: "success", message: "Compte supprimé" });
+          await signOut();
+          onClose();
+          nav("/");
+          return;
+        }
+      } catch {
+        // la route de secours a échoué aussi : on affiche l'erreur d'origine
+      }
+      alerts.showToast({ type: "error", message: apiErrorMessage(err, "Erreur suppression compte") });
+    }
+  }
+
+  return (
+    <div className={`fixed inset-0 z-70 transition-transform ${open ? "pointer-events-auto" : "pointer-events-none"}`}>
+      <div onClick={onClose} className={`absolute inset-0 bg-black/30 ${open ? "opacity-100" : "opacity-0"} transition-opacity`}></div>
+      <div className={`absolute right-0 top-0 h-full w-full sm:w-96 bg-white shadow-2xl p-4 sm:p-6 transform transition-transform ${open ? "translate-x-0" : "translate-x-full"}`}>
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 rounded-lg bg-emerald-100 flex items-center justify-center text-emerald-700 font-bold">TU</div>
+            <div>
+              <div className="text-lg font-semibold">{user?.fullname || "Utilisateur"}</div>
+              <div className="text-xs text-gray-500">Membre depuis {user?.createdAt ? new Date(user.createdAt).toLocaleDateString() : "—"}</div>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400">✕</button>
+        </div>
+
+        <div className="mb-6">
+          <div className="text-sm text-gray-600 mb-2">Informations</div>
+          <div className="text-sm"><span className="font-medium">Nom complet:</span> {user?.fullname}</div>
+          <div className="text-sm mt-2"><span className="font-medium">Email:</span> {user?.email || "—"}</div>
+        </div>
+
+        {/* remounted on each opening: the permission may have changed in the browser settings */}
+        <NotificationSettings key={String(open)} />
+
+        <div className="space-y-3">
+          <button onClick={logout} className="w-full px-4 py-3 rounded-xl bg-red-500 text-white flex items-center justify-center gap-2"><FiLogOut /> Déconnexion</button>
+          <button onClick={deleteAccount} className="w-full px-4 py-3 rounded-xl bg-transparent border border-red-200 text-red-600">Supprimer mon compte</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function NotificationSettings() {
+  const [permission, setPermission] = useState<NotificationState>(() => notificationPermission());
+  const [enabled, setEnabled] = useState(() => notificationsEnabled());
+  const alerts = useAlerts();
+
+  async function allow() {
+    const result = await requestNotificationPermission();
+    setPermission(result);
+    setEnabled(notificationsEnabled());
+    if (result === "denied") alerts.showToast({ type: "warning", message: "Notifications refusées : les rappels s'afficheront dans l'application" });
+  }
+
+  function toggle(v: boolean) {
+    setNotificationsEnabled(v);
+    setEnabled(v);
+  }
+
+  async function test() {
+    const shown = await showNotification("Notifications activées", { body: "Les rappels de tes tâches s'afficheront ainsi.", tag: "test" });
+    if (!shown) alerts.showToast({ type: "info", message: "Notification impossible : les rappels s'afficheront dans l'application" });
+  }
+
+  return (
+    <div className="mb-6">
+      <div className="text-sm text-gray-600 mb-2 flex items-center gap-2"><FiBell /> Notifications</div>
+      {permission === "unsupported" && <div className="text-sm text-gray-500">Ce navigateur ne gère pas les notifications : les rappels s'affichent dans l'application.</div>}
+      {permission === "default" && (
+        <button onClick={allow} className="w-full px-4 py-2 rounded-xl border border-emerald-200 text-emerald-700 text-sm">Autoriser les notifications</button>
+      )}
+      {permission === "denied" && <div className="text-sm text-gray-500">Notifications bloquées par le navigateur. Autorise-les dans les réglages du site ; en attendant, les rappels s'affichent dans l'application.</div>}
+      {permission === "granted" && (
+        <div className="flex items-center justify-between gap-3">
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={enabled} onChange={(e) => toggle(e.target.checked)} />
+            Rappels en notification système
+          </label>
+          <button onClick={test} disabled={!enabled} className="px-3 py-1 rounded-lg border border-gray-200 text-xs disabled:opacity-50">Tester</button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ==========================
+   Undo / redo history (shortcuts + deferred deletions)
+   ========================== */
+
+/* Ctrl/Cmd+Z undoes the last change, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes it; fields keep their own */
+function HistoryWatcher() {
+  const { showToast } = useAlerts();
+
+  useEffect(() => {
+    const onKey = (e: globalThis.KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextField(e.target)) return;
+      const key = e.key.toLowerCase();
+      const direction = key === "z" ? (e.shiftKey ? "redo" : "undo") : key === "y" && !e.shiftKey ? "redo" : null;
+      if (!direction) return;
+      e.preventDefault();
+      void runHistory(showToast, direction);
+    };
+    window.addEventListener("keydown", onKey);
+    const stop = startHistory();
+    return () => { window.removeEventListener("keydown", onKey); stop(); };
+  }, [showToast]);
+
+  return null;
+}
+
+/* ==========================
+   Offline sync (banner + replay reports)
+   ========================== */
+
+function SyncWatcher() {
+  const alerts = useAlerts();
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [pending, setPending] = useState(0);
+
+  useEffect(() => {
+    const refreshPending = () => pendingCount().then(setPending);
+    const off = onOfflineEvent((e) => {
+      if (e.type === "status") setOnline(e.online);
+      if (e.type === "queued") setPending(e.pending);
+      if (e.type === "synced") {
+        alerts.showToast({ type: "success", title: "Synchronisé", message: `${e.count} modification(s) hors ligne envoyée(s)` });
+        refreshPending();
+      }
+      // reminders set on a task created offline follow it to its server id
+      if (e.type === "created") renameReminders(e.tempId, e.id);
+      if (e.type === "conflict") {
+        if (e.entry.kind === "create") forgetReminders(e.entry.taskId);
+        const label = e.entry.kind === "create" ? "Création" : e.entry.kind === "update" ? "Modification" : "Suppression";
+        alerts.showToast({ type: "error", title: `${label} refusée${e.entry.title ? ` : ${e.entry.title}` : ""}`, message: e.message, timeout: 8000 });
+        refreshPending();
+      }
+    });
+    const stop = startOfflineSync();
+    refreshPending();
+    return () => { off(); stop(); };
+  }, [alerts]);
+
+  if (online && pending === 0) return null;
+  return (
+    <div className="fixed bottom-4 left-4 z-50 flex items-center gap-2 px-3 py-2 rounded-xl bg-gray-800 text-white text-xs shadow-lg">
+      <FiCloudOff />
+      <span>{online ? "Synchronisation…" : "Hors ligne"}{pending > 0 ? ` · ${pending} modification(s) en attente` : ""}</span>
+    </div>
+  );
+}
+
+/* ==========================
+   Reminder notifications (scheduler + delivery)
+   ========================== */
+
+function reminderNotification(due: DueReminder): Omit<ScheduledNotification, "at"> {
+  const { task } = due;
+  const url = task.groupId ? `/groups/${task.groupId}` : "/dashboard";
+  return { tag: due.key, title: `Rappel : ${task.title}`, body: describeDue(due), url };
+}
+
+/*
+ * The service worker schedules the coming reminders where the browser allows it (they then show
+ * with the app closed); otherwise the page scheduler shows a system notification when allowed,
+ * a toast when not (denied, unsupported or muted in the profile).
+ */
+function ReminderWatcher() {
+  const alerts = useAlerts();
+
+  useEffect(() => {
+    registerServiceWorker();
+    const schedule = () => scheduleNotifications(upcomingReminders().map(({ due, at }) => ({ ...reminderNotification(due), at })));
+    const off = onReminderEvent(async (e) => {
+      // each change, and each reminder fired, moves the window handed to the worker
+      schedule();
+      if (e.type !== "due" || notificationsScheduled()) return;
+      const { title, body, tag, url } = reminderNotification(e.due);
+      const shown = await showNotification(title, { body, tag, url });
+      if (!shown) alerts.showToast({ type: "info", title, message: body, timeout: 10000 });
+    });
+    const offSettings = onNotificationSettingsChange(schedule);
+    const stop = startReminders();
+    schedule();
+    return () => { off(); offSettings(); stop(); };
+  }, [alerts]);
+
+  return null;
+}
+
+/* ==========================
+   PrivateRoute & App
+   ========================== */
+
+function PrivateRoute({ children }: { children: ReactNode }) {
+  const location = useLocation();
+  if (!hasSession()) return <Navigate to={`/?next=${encodeURIComponent(location.pathname + location.search)}`} replace />;
+  return children;
+}
+
+/* only same-app paths are accepted as post-login destination */
+function safeReturnTo(next: string | null) {
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/dashboard";
+}
+
+/* Bridges session manager events (lib/session) to toasts + navigation */
+function SessionWatcher() {
+  const nav = useNavigate();
+  const alerts = useAlerts();
+
+  useEffect(() => {
+    const off = onSessionEvent((e) => {
+      if (e.type === "expiring") {
+        alerts.showToast({ type: "warning", title: "Session", message: `Ta session expire à ${new Date(e.expiresAt).toLocaleTimeString()}`, timeout: 8000 });
+      } else if (e.type === "expired") {
+        alerts.showToast({ type: "warning", title: "Session expirée", message: "Reconnecte-toi pour continuer", timeout: 5000 });
+        nav(`/?next=${encodeURIComponent(e.returnTo)}`, { replace: true });
+      }
+    });
+    // arm the timers only once we listen, so an already-expired token still redirects
+    scheduleExpiry();
+    return off;
+  }, [alerts, nav]);
+
+  return null;
+}
+
+export default function App() {
+  const [profileOpen, setProfileOpen] = useState(false);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+
+  // on every page, not just those with a Header
+  useEffect(() => {
+    const onKey = (e: globalThis.KeyboardEvent) => {
+      if (!isPaletteShortcut(e) || !hasSession()) return;
+      e.preventDefault(); // the browser's own Ctrl+K focuses its address bar
+      setPaletteOpen((o) => !o);
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
   }, []);
 
   return (
     <AlertsProvider>
       <ProfileContext.Provider value={{ open: () => setProfileOpen(true) }}>
+      <PaletteContext.Provider value={{ open: () => setPaletteOpen(true) }}>
         <div className="min-h-screen w-full">
+          <SessionWatcher />
+          <SyncWatcher />
+          <HistoryWatcher />
+          <ReminderWatcher />
           <ProfileDrawer open={profileOpen} onClose={() => setProfileOpen(false)} />
+          {paletteOpen && <CommandPalette onClose={() => setPaletteOpen(false)} />}
           <Routes>
             {/* If user already logged in, redirect to dashboard */}
-            <Route path="/" element={localStorage.getItem("token") ? <Navigate to="/dashboard" replace /> : <Login />} />
-            <Route path="/register" element={localStorage.getItem("token") ? <Navigate to="/dashboard" replace /> : <Register />} />
+            <Route path="/" element={hasSession() ? <Navigate to="/dashboard" replace /> : <Login />} />
+            <Route path="/register" element={hasSession() ? <Navigate to="/dashboard" replace /> : <Register />} />
             <Route path="/dashboard" element={<PrivateRoute><Dashboard /></PrivateRoute>} />
             <Route path="/groups/:id" element={<PrivateRoute><GroupPage /></PrivateRoute>} />
+            <Route path="/groups/:id/invitations" element={<PrivateRoute><InvitationsPage /></PrivateRoute>} />
+            <Route path="/join/:code" element={<PrivateRoute><JoinPage /></PrivateRoute>} />
+            <Route path="/calendar" element={<PrivateRoute><CalendarPage /></PrivateRoute>} />
+            <Route path="/timesheet" element={<PrivateRoute><TimesheetPage /></PrivateRoute>} />
+            <Route path="/tasks/:id" element={<PrivateRoute><TaskPage /></PrivateRoute>} />
           </Routes>
         </div>
+      </PaletteContext.Provider>
       </ProfileContext.Provider>
     </AlertsProvider>
   );
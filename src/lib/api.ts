@@ -1,20 +1,25 @@
 import axios from "axios";
+import type { AxiosError, InternalAxiosRequestConfig } from "axios";
+import { API_TIMEOUT, API_URL } from "./config";
+import { expireSession, getToken, refreshSession, waitForRefresh } from "./session";
 
 const api = axios.create({
-  baseURL: import.meta.env.VITE_API_URL || "http://localhost:4000",
-  timeout: 10000,
+  baseURL: API_URL,
+  timeout: API_TIMEOUT,
 });
 
 
-const token = localStorage.getItem("token");
+const token = getToken();
 if (token) {
   api.defaults.headers.common = api.defaults.headers.common || {};
   api.defaults.headers.common["Authorization"] = `Bearer ${token}`;
 }
 
 
-api.interceptors.request.use((config) => {
-  const t = localStorage.getItem("token");
+api.interceptors.request.use(async (config) => {
+  // a refresh is in flight: hold the request until the new token is stored
+  await waitForRefresh();
+  const t = getToken();
   if (t) {
     config.headers = config.headers || {};
     config.headers.Authorization = `Bearer ${t}`;
@@ -23,16 +28,44 @@ api.interceptors.request.use((config) => {
 });
 
 
+type RetriableConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
+/* login/register answer 401 for bad credentials: never treat those as an expired session */
+function isAuthRoute(url?: string) {
+  return !!url && /\/auth\/(login|register|refresh)$/.test(url);
+}
+
 api.interceptors.response.use(
   (r) => r,
-  (err) => {
-    if (err?.response?.status === 401) {
-
-      localStorage.removeItem("token");
+  async (err: AxiosError) => {
+    const config = err.config as RetriableConfig | undefined;
+    if (err.response?.status !== 401 || !config || isAuthRoute(config.url)) return Promise.reject(err);
 
+    if (!config._retried) {
+      config._retried = true;
+      // concurrent 401s all await the same refresh, then replay with the new token
+      const fresh = await refreshSession();
+      if (fresh) {
+        config.headers.Authorization = `Bearer ${fresh}`;
+        return api(config);
+      }
     }
+
+    expireSession();
     return Promise.reject(err);
   }
 );
 
-export default api;
\ No newline at end of file
+/*
+ * For requests sent while the page unloads (pagehide), which axios can't be relied on for:
+ * fetch with `keepalive` outlives the page. Nothing is left to report to, so no result;
+ * false when offline, for the caller to fall back on its usual request (the outbox).
+ */
+export function sendOnUnload(method: "DELETE", url: string) {
+  if (!navigator.onLine) return false;
+  const t = getToken();
+  fetch(API_URL + url, { method, keepalive: true, headers: t ? { Authorization: `Bearer ${t}` } : {} }).catch(() => undefined);
+  return true;
+}
+
+export default api;
@@ -0,0 +1,126 @@
+// src/lib/calendar.ts
+// Date math for the calendar views. Weeks start on Monday; all helpers work in local time.
+import type { Task } from "./models";
+
+export type CalendarMode = "month" | "week" | "day";
+
+export type CalendarEvent = {
+  task: Task;
+  start: Date;
+  end: Date;
+  color: string;
+  source: string;
+};
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+/* tasks with a single date are drawn as one-hour blocks */
+const DEFAULT_DURATION_MS = 60 * 60 * 1000;
+
+export function startOfDay(d: Date) {
+  const x = new Date(d);
+  x.setHours(0, 0, 0, 0);
+  return x;
+}
+
+export function addDays(d: Date, n: number) {
+  const x = new Date(d);
+  x.setDate(x.getDate() + n);
+  return x;
+}
+
+export function addMonths(d: Date, n: number) {
+  const x = new Date(d);
+  x.setDate(1);
+  x.setMonth(x.getMonth() + n);
+  return x;
+}
+
+export function startOfWeek(d: Date) {
+  const x = startOfDay(d);
+  const offset = (x.getDay() + 6) % 7; // Monday = 0
+  return addDays(x, -offset);
+}
+
+export function isSameDay(a: Date, b: Date) {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
+
+/* "YYYY-MM-DD" in local time (toISOString would shift to UTC) */
+export function toDateKey(d: Date) {
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${m}-${day}`;
+}
+
+export function parseDateKey(key: string | null | undefined): Date | null {
+  const m = key?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m) return null;
+  return new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+}
+
+/* the days shown for a mode: 6 full weeks for month, 7 for week, 1 for day */
+export function visibleDays(mode: CalendarMode, anchor: Date): Date[] {
+  if (mode === "day") return [startOfDay(anchor)];
+  if (mode === "week") return Array.from({ length: 7 }, (_, i) => addDays(startOfWeek(anchor), i));
+  const first = startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1));
+  return Array.from({ length: 42 }, (_, i) => addDays(first, i));
+}
+
+export function shiftAnchor(mode: CalendarMode, anchor: Date, dir: 1 | -1) {
+  if (mode === "month") return addMonths(anchor, dir);
+  return addDays(anchor, dir * (mode === "week" ? 7 : 1));
+}
+
+export function toEvent(task: Task, color: string, source: string): CalendarEvent | null {
+  if (!task.startDate && !task.endDate) return null;
+  const start = task.startDate ? new Date(task.startDate) : new Date(new Date(task.endDate!).getTime() - DEFAULT_DURATION_MS);
+  const end = task.endDate ? new Date(task.endDate) : new Date(start.getTime() + DEFAULT_DURATION_MS);
+  return { task, start, end: end > start ? end : new Date(start.getTime() + DEFAULT_DURATION_MS), color, source };
+}
+
+export function eventsOnDay(events: CalendarEvent[], day: Date) {
+  const from = startOfDay(day).getTime();
+  const to = from + DAY_MS;
+  return events
+    .filter((e) => e.start.getTime() < to && e.end.getTime() > from)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/* minutes since midnight of `day`, clamped to the day */
+export function minutesInDay(d: Date, day: Date) {
+  const m = (d.getTime() - startOfDay(day).getTime()) / 60000;
+  return Math.min(24 * 60, Math.max(0, m));
+}
+
+export function snapMinutes(m: number, step = 15) {
+  return Math.round(m / step) * step;
+}
+
+export const GROUP_COLORS = ["#0ea5e9", "#8b5cf6", "#f97316", "#ec4899", "#14b8a6", "#eab308", "#6366f1", "#ef4444"];
+export const PERSONAL_COLOR = "#059669";
+
+/* side-by-side columns for overlapping blocks of one day: lane index + lane count per task id */
+export function layoutLanes(events: CalendarEvent[]) {
+  const result = new Map<string, { lane: number; lanes: number }>();
+  let cluster: CalendarEvent[] = [];
+  let laneEnds: number[] = [];
+  let clusterEnd = 0;
+
+  const flush = () => {
+    cluster.forEach((e) => { result.set(e.task.id, { lane: result.get(e.task.id)!.lane, lanes: laneEnds.length }); });
+    cluster = [];
+    laneEnds = [];
+  };
+
+  for (const e of [...events].sort((a, b) => a.start.getTime() - b.start.getTime())) {
+    if (cluster.length && e.start.getTime() >= clusterEnd) flush();
+    let lane = laneEnds.findIndex((end) => end <= e.start.getTime());
+    if (lane === -1) { lane = laneEnds.length; laneEnds.push(0); }
+    laneEnds[lane] = e.end.getTime();
+    result.set(e.task.id, { lane, lanes: 1 });
+    cluster.push(e);
+    clusterEnd = Math.max(clusterEnd, e.end.getTime());
+  }
+  flush();
+  return result;
+}
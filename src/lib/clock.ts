@@ -0,0 +1,67 @@
+// src/lib/clock.ts
+// One shared clock for the whole app. Subscribers register the instants they care about
+// (a task starting, ending...) and the clock wakes up exactly then, plus once a minute
+// for countdowns, instead of every badge running its own timer.
+
+type Listener = () => void;
+
+const MINUTE_MS = 60 * 1000;
+/* setTimeout overflows past ~24.8 days */
+const MAX_DELAY_MS = 2 ** 31 - 1;
+
+let now = Date.now();
+let timer: ReturnType<typeof setTimeout> | undefined;
+const listeners = new Set<Listener>();
+const watched = new Map<symbol, number[]>();
+
+function tick() {
+  now = Date.now();
+  listeners.forEach((l) => l());
+  arm();
+}
+
+/* sleeps until the next watched instant or the next minute boundary, whichever comes first */
+function arm() {
+  clearTimeout(timer);
+  if (listeners.size === 0) return;
+  const current = Date.now();
+  let next = Math.ceil((current + 1) / MINUTE_MS) * MINUTE_MS;
+  for (const instants of watched.values()) {
+    for (const t of instants) if (t > current && t < next) next = t;
+  }
+  timer = setTimeout(tick, Math.min(MAX_DELAY_MS, next - current));
+}
+
+/* hidden tabs get their timers throttled: catch up as soon as the page is visible again */
+function onVisible() {
+  if (document.visibilityState === "visible") tick();
+}
+
+export function getNow() {
+  return now;
+}
+
+export function subscribeClock(listener: Listener) {
+  if (listeners.size === 0) document.addEventListener("visibilitychange", onVisible);
+  listeners.add(listener);
+  now = Date.now();
+  arm();
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      clearTimeout(timer);
+      document.removeEventListener("visibilitychange", onVisible);
+    }
+  };
+}
+
+/* registers (or replaces, for the same key) the instants a subscriber must be woken at */
+export function watchInstants(key: symbol, instants: number[]) {
+  if (instants.length) watched.set(key, instants);
+  else watched.delete(key);
+  arm();
+  return () => {
+    watched.delete(key);
+    arm();
+  };
+}
@@ -0,0 +1,5 @@
+// src/lib/config.ts
+export const API_URL: string = import.meta.env.VITE_API_URL || "http://localhost:4000";
+export const API_TIMEOUT = 10000;
+/* realtime channel (WebSocket, SSE fallback); `npm run mock:realtime` serves one on :4001 */
+export const REALTIME_URL: string = import.meta.env.VITE_REALTIME_URL || API_URL;
@@ -0,0 +1,33 @@
+// src/lib/files.ts
+// Browser-side file helpers for exports.
+
+export function downloadFile(filename: string, content: string, mime: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  downloadUrl(filename, url);
+  URL.revokeObjectURL(url);
+}
+
+/* same-origin or blob: URL (the `download` attribute is ignored cross-origin) */
+export function downloadUrl(filename: string, url: string) {
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+}
+
+/* 1536 -> "1,5 Ko" */
+export function formatBytes(n: number) {
+  if (n < 1024) return `${n} o`;
+  const units = ["Ko", "Mo", "Go"];
+  let v = n / 1024;
+  let i = 0;
+  while (v >= 1024 && i < units.length - 1) { v /= 1024; i++; }
+  return `${v.toLocaleString("fr-FR", { maximumFractionDigits: 1 })} ${units[i]}`;
+}
+
+/* "Équipe #1" -> "equipe-1" */
+export function slugify(v: string) {
+  return v.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "export";
+}
@@ -0,0 +1,41 @@
+// src/lib/fuzzy.ts
+// Fuzzy matching for the command palette: the characters of the query must appear in order
+// in the text, ignoring case and accents. Consecutive characters and word starts score higher,
+// so "rdv" finds "Rendez-vous" and "pres" ranks "Présentation" above "Cahier des prestations".
+
+/* lowercase, without accents: "Élève" -> "eleve" */
+export function foldText(s: string) {
+  return s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+function isWordStart(text: string, i: number) {
+  return i === 0 || /[\s\-_/.,:;'"()[\]]/.test(text[i - 1]);
+}
+
+/* null when `query` doesn't match `text`; higher is better */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = foldText(query).replace(/\s+/g, "");
+  if (!q) return 0;
+  const t = foldText(text);
+  let score = 0;
+  let from = 0;
+  let prev = -2;
+  for (const ch of q) {
+    const i = t.indexOf(ch, from);
+    if (i < 0) return null;
+    score += 1;
+    if (i === prev + 1) score += 2;
+    if (isWordStart(t, i)) score += 3;
+    prev = i;
+    from = i + 1;
+  }
+  if (t.includes(q)) score += q.length * 2;
+  // shorter texts first when everything else is equal
+  return score - t.length / 1000;
+}
+
+/* plain substring test, for long texts (descriptions) where scattered letters would match anything */
+export function containsFolded(text: string, query: string) {
+  const q = foldText(query).trim();
+  return !!q && foldText(text).includes(q);
+}
@@ -0,0 +1,179 @@
+// src/lib/history.ts
+// Undo/redo history of the user's own changes (tasks, members, groups). A change carries
+// the requests that revert and replay it; deletions are not sent right away but deferred,
+// so undoing one within the delay is just cancelling a timer. Those still waiting are sent
+// at logout (awaited, while the token is valid) and when the page closes (keepalive).
+
+export type Change = {
+  /* shown in the "Annulé : …" toast */
+  label: string;
+  undo: () => Promise<void> | void;
+  redo: () => Promise<void> | void;
+};
+
+type Deferred = { timer: ReturnType<typeof setTimeout>; send: () => Promise<void>; unload?: () => boolean };
+
+export type DeferOptions = {
+  delay?: number;
+  /* sends the commit from a closing page (fetch keepalive); false when it can't */
+  unload?: () => boolean;
+};
+
+export const UNDO_DELAY_MS = 6000;
+const MAX_CHANGES = 50;
+
+let past: Change[] = [];
+let future: Change[] = [];
+let running = false;
+let version = 0;
+const deferred = new Map<string, Deferred>();
+/* keys of commits in flight, and of those the server accepted */
+const sending = new Set<string>();
+const removed = new Set<string>();
+const listeners = new Set<() => void>();
+
+function emit() {
+  version++;
+  listeners.forEach((l) => l());
+}
+
+/* for useSyncExternalStore */
+export function onHistoryChange(listener: () => void) {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function historyVersion() {
+  return version;
+}
+
+/* ---------------------------
+   Undo / redo stacks
+   --------------------------- */
+
+export function recordChange(change: Change) {
+  past.push(change);
+  if (past.length > MAX_CHANGES) past.shift();
+  future = [];
+  emit();
+}
+
+/* for changes that can't be undone anymore (a deferred removal that got sent) */
+export function forgetChange(change: Change) {
+  past = past.filter((c) => c !== change);
+  future = future.filter((c) => c !== change);
+  emit();
+}
+
+export function canUndo() {
+  return past.length > 0;
+}
+
+export function canRedo() {
+  return future.length > 0;
+}
+
+/*
+ * Undoes the latest change, or `only` if it is the latest one (a toast's "Annuler" must not
+ * undo something else). Resolves to null when there was nothing to do; a failed undo drops
+ * the change, since what is left on the server is unknown.
+ */
+export async function undoChange(only?: Change): Promise<Change | null> {
+  const change = past[past.length - 1];
+  if (running || !change || (only && only !== change)) return null;
+  running = true;
+  past.pop();
+  try {
+    await change.undo();
+    future.push(change);
+    return change;
+  } finally {
+    running = false;
+    emit();
+  }
+}
+
+export async function redoChange(): Promise<Change | null> {
+  const change = future[future.length - 1];
+  if (running || !change) return null;
+  running = true;
+  future.pop();
+  try {
+    await change.redo();
+    past.push(change);
+    return change;
+  } finally {
+    running = false;
+    emit();
+  }
+}
+
+/* ---------------------------
+   Deferred commits
+   --------------------------- */
+
+/*
+ * Runs `commit` after `delay` unless cancelled first. `key` names the removed thing
+ * ("task:<id>"...), so lists can hide it meanwhile; `onFailed` is for putting it back.
+ */
+export function deferCommit(key: string, commit: () => Promise<void>, onFailed?: (err: unknown) => void, { delay = UNDO_DELAY_MS, unload }: DeferOptions = {}) {
+  cancelCommit(key);
+  const send = () => {
+    deferred.delete(key);
+    sending.add(key);
+    return commit()
+      .then(() => { removed.add(key); }, (err) => onFailed?.(err))
+      .finally(() => { sending.delete(key); emit(); });
+  };
+  deferred.set(key, { timer: setTimeout(send, delay), send, unload });
+  emit();
+}
+
+/* true when the commit had not been sent yet */
+export function cancelCommit(key: string) {
+  const pending = deferred.get(key);
+  if (!pending) return false;
+  clearTimeout(pending.timer);
+  deferred.delete(key);
+  emit();
+  return true;
+}
+
+/* waiting for its commit, being sent, or removed for good */
+export function isRemoved(key: string) {
+  return deferred.has(key) || sending.has(key) || removed.has(key);
+}
+
+/* sends every pending commit now (logout); resolves once all have settled */
+export async function flushCommits() {
+  const sends = [...deferred.values()].map((pending) => {
+    clearTimeout(pending.timer);
+    return pending.send();
+  });
+  await Promise.all(sends);
+}
+
+/* the page is closing: a normal request may be cancelled, so keepalive where the commit has one */
+function flushOnUnload() {
+  for (const [key, pending] of [...deferred]) {
+    clearTimeout(pending.timer);
+    if (pending.unload?.()) {
+      deferred.delete(key);
+      removed.add(key);
+    } else {
+      pending.send();
+    }
+  }
+}
+
+export function clearHistory() {
+  past = [];
+  future = [];
+  emit();
+}
+
+/* a closing page would lose the deferred deletions */
+export function startHistory() {
+  window.addEventListener("pagehide", flushOnUnload);
+  return () => window.removeEventListener("pagehide", flushOnUnload);
+}
@@ -0,0 +1,153 @@
+// src/lib/ics.ts
+// RFC 5545 (iCalendar) serialization of tasks as VEVENTs, and a tolerant parser
+// for files exported by other calendars (Google, Outlook, Apple).
+import { STATUS_LABELS } from "./models";
+import type { Task, TaskStatus } from "./models";
+
+export type IcsEvent = {
+  uid: string | null;
+  title: string;
+  description: string;
+  start: Date | null;
+  end: Date | null;
+  /* RRULE value, kept as-is (see lib/recurrence) */
+  recurrence: string | null;
+  /* EXDATE values: deleted occurrences of the series */
+  exdates: Date[];
+};
+
+const CRLF = "\r\n";
+
+/* VEVENT STATUS only knows TENTATIVE / CONFIRMED / CANCELLED; the exact status goes in an X- property */
+const VEVENT_STATUS: Record<TaskStatus, string> = {
+  "en-attente": "TENTATIVE",
+  "en-cours": "CONFIRMED",
+  "terminee": "CONFIRMED",
+};
+
+/* ---------------------------
+   Export
+   --------------------------- */
+
+function escapeText(v: string) {
+  return v.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function formatUtc(d: Date) {
+  return d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/* lines longer than 75 octets are folded with CRLF + space (§3.1) */
+function fold(line: string) {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+  const out: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const ch of line) {
+    const n = new TextEncoder().encode(ch).length;
+    if (size + n > (out.length ? 74 : 75)) {
+      out.push(current);
+      current = "";
+      size = 0;
+    }
+    current += ch;
+    size += n;
+  }
+  out.push(current);
+  return out.join(CRLF + " ");
+}
+
+/* tasks without any date can't be placed in a calendar and are skipped */
+export function tasksToIcs(tasks: Task[], calendarName: string, statusOf: (t: Task) => TaskStatus) {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//TacheUnie//Taches//FR",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  for (const t of tasks) {
+    if (!t.startDate && !t.endDate) continue;
+    const start = new Date((t.startDate ?? t.endDate)!);
+    const end = t.endDate ? new Date(t.endDate) : null;
+    const status = statusOf(t);
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${t.id}@tacheunie`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatUtc(start)}`,
+      ...(end && end > start ? [`DTEND:${formatUtc(end)}`] : []),
+      `SUMMARY:${escapeText(t.title)}`,
+      ...(t.description ? [`DESCRIPTION:${escapeText(t.description)}`] : []),
+      ...(t.recurrence ? [`RRULE:${t.recurrence}`] : []),
+      ...(t.recurrence && t.exdates.length ? [`EXDATE:${t.exdates.map((x) => formatUtc(new Date(x))).join(",")}`] : []),
+      `STATUS:${VEVENT_STATUS[status]}`,
+      `CATEGORIES:${escapeText(STATUS_LABELS[status])}`,
+      `X-TACHEUNIE-STATUS:${status}`,
+      "END:VEVENT",
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join(CRLF) + CRLF;
+}
+
+/* ---------------------------
+   Import
+   --------------------------- */
+
+/* one pass: "\\n" in the file (an escaped backslash, then "n") stays a backslash and an "n" */
+function unescapeText(v: string) {
+  return v.replace(/\\([\\;,nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+/*
+ * 20250131T083000Z (UTC), 20250131T083000 (floating or TZID) and 20250131 (all-day).
+ * Without a timezone database, TZID times are read as local time.
+ */
+function parseIcsDate(value: string): Date | null {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!m) return null;
+  const [, y, mo, d, h = "0", mi = "0", s = "0", z] = m;
+  const parts = [Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)] as const;
+  return z ? new Date(Date.UTC(...parts)) : new Date(...parts);
+}
+
+/* VEVENT and VTODO (DUE is used as the end) are both accepted */
+export function parseIcs(text: string): IcsEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let current: IcsEvent | null = null;
+
+  for (const line of lines) {
+    if (/^BEGIN:(VEVENT|VTODO)$/i.test(line)) {
+      current = { uid: null, title: "", description: "", start: null, end: null, recurrence: null, exdates: [] };
+      continue;
+    }
+    if (/^END:(VEVENT|VTODO)$/i.test(line)) {
+      if (current) events.push(current);
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const colon = line.indexOf(":");
+    if (colon < 0) continue;
+    const name = line.slice(0, colon).split(";")[0].toUpperCase();
+    const value = line.slice(colon + 1);
+
+    if (name === "UID") current.uid = value;
+    else if (name === "SUMMARY") current.title = unescapeText(value);
+    else if (name === "DESCRIPTION") current.description = unescapeText(value);
+    else if (name === "DTSTART") current.start = parseIcsDate(value);
+    else if (name === "DTEND" || name === "DUE") current.end = parseIcsDate(value);
+    else if (name === "RRULE") current.recurrence = value;
+    // EXDATE may list several dates and may be repeated
+    else if (name === "EXDATE") current.exdates.push(...value.split(",").map(parseIcsDate).filter((d): d is Date => d !== null));
+  }
+
+  return events;
+}
@@ -0,0 +1,125 @@
+// src/lib/markdown.ts
+// Small Markdown subset for task descriptions: headings, paragraphs, lists, quotes, code,
+// **bold**, *italic*, `code` and links. Parsed to a tree the UI renders as React elements,
+// never to an HTML string, so a description can't inject markup.
+
+export type MdInline =
+  | { type: "text"; text: string }
+  | { type: "strong" | "em"; children: MdInline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: MdInline[] };
+
+export type MdBlock =
+  | { type: "heading"; level: 1 | 2 | 3; children: MdInline[] }
+  | { type: "paragraph"; children: MdInline[] }
+  | { type: "list"; ordered: boolean; items: MdInline[][] }
+  | { type: "quote"; children: MdInline[] }
+  | { type: "code"; text: string }
+  | { type: "rule" };
+
+/* `code` | **strong** | *em* | [text](href) | bare URL */
+const INLINE = /`([^`]+)`|\*\*(.+?)\*\*|\*([^*\s](?:[^*]*[^*\s])?)\*|\[([^\]]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s<]*[^\s<.,;:!?)\]'"])/g;
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const RULE = /^\s*(?:-{3,}|\*{3,})\s*$/;
+
+/* javascript:, data: and the like are dropped: only web and mail links */
+function safeHref(href: string) {
+  return /^(https?:\/\/|mailto:)/i.test(href) ? href : null;
+}
+
+export function parseInline(src: string): MdInline[] {
+  const out: MdInline[] = [];
+  let last = 0;
+  for (const m of src.matchAll(INLINE)) {
+    if (m.index > last) out.push({ type: "text", text: src.slice(last, m.index) });
+    if (m[1] !== undefined) out.push({ type: "code", text: m[1] });
+    else if (m[2] !== undefined) out.push({ type: "strong", children: parseInline(m[2]) });
+    else if (m[3] !== undefined) out.push({ type: "em", children: parseInline(m[3]) });
+    else if (m[4] !== undefined) {
+      const href = safeHref(m[5]);
+      out.push(href ? { type: "link", href, children: parseInline(m[4]) } : { type: "text", text: m[0] });
+    } else out.push({ type: "link", href: m[6], children: [{ type: "text", text: m[6] }] });
+    last = m.index + m[0].length;
+  }
+  if (last < src.length) out.push({ type: "text", text: src.slice(last) });
+  return out;
+}
+
+function startsBlock(line: string) {
+  return line.startsWith("```") || line.startsWith(">") || HEADING.test(line) || LIST_ITEM.test(line) || RULE.test(line);
+}
+
+export function parseMarkdown(src: string): MdBlock[] {
+  const lines = src.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MdBlock[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) { i++; continue; }
+
+    if (line.startsWith("```")) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].startsWith("```")) body.push(lines[i++]);
+      i++; // closing fence (or end of text)
+      blocks.push({ type: "code", text: body.join("\n") });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length as 1 | 2 | 3, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) { blocks.push({ type: "rule" }); i++; continue; }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      const ordered = /\d/.test(item[1]);
+      const items: MdInline[][] = [];
+      let m: RegExpExecArray | null;
+      while (i < lines.length && (m = LIST_ITEM.exec(lines[i])) && /\d/.test(m[1]) === ordered) {
+        items.push(parseInline(m[2]));
+        i++;
+      }
+      blocks.push({ type: "list", ordered, items });
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      const body: string[] = [];
+      while (i < lines.length && lines[i].startsWith(">")) body.push(lines[i++].replace(/^>\s?/, ""));
+      blocks.push({ type: "quote", children: parseInline(body.join("\n")) });
+      continue;
+    }
+
+    // paragraph: line breaks inside are kept (rendered as such, unlike strict Markdown)
+    const body: string[] = [line];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) body.push(lines[i++]);
+    blocks.push({ type: "paragraph", children: parseInline(body.join("\n")) });
+  }
+  return blocks;
+}
+
+function inlineText(nodes: MdInline[]): string {
+  return nodes.map((n) => ("children" in n ? inlineText(n.children) : n.text)).join("");
+}
+
+/* one-line plain text, for card previews */
+export function markdownToText(src: string) {
+  return parseMarkdown(src)
+    .map((b) => {
+      if (b.type === "list") return b.items.map(inlineText).join(", ");
+      if (b.type === "code") return b.text;
+      if (b.type === "rule") return "";
+      return inlineText(b.children);
+    })
+    .filter(Boolean)
+    .join(" · ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,60 @@
+// src/lib/mentions.ts
+// @mentions in comments. Fullnames contain spaces, so a mention is "@" followed by the
+// longest member fullname that matches the text there (case-insensitive), not a single word.
+import type { Member } from "./models";
+
+export type MentionPart = { text: string } | { member: Member; text: string };
+
+/* longest names first, so "@Marie Curie" doesn't stop at a member called "Marie" */
+function byLength(members: Member[]) {
+  return members.filter((m) => m.fullname).sort((a, b) => b.fullname!.length - a.fullname!.length);
+}
+
+function isBoundary(ch: string | undefined) {
+  return ch === undefined || !/[\p{L}\p{N}_]/u.test(ch);
+}
+
+function memberAt(body: string, at: number, candidates: Member[]) {
+  const rest = body.slice(at + 1).toLowerCase();
+  return candidates.find((m) => rest.startsWith(m.fullname!.toLowerCase()) && isBoundary(body[at + 1 + m.fullname!.length]));
+}
+
+/* body cut into plain text and resolved mentions, in order */
+export function splitMentions(body: string, members: Member[]): MentionPart[] {
+  const candidates = byLength(members);
+  const parts: MentionPart[] = [];
+  let plain = "";
+  for (let i = 0; i < body.length; i++) {
+    const member = body[i] === "@" && isBoundary(body[i - 1]) ? memberAt(body, i, candidates) : undefined;
+    if (!member) { plain += body[i]; continue; }
+    if (plain) parts.push({ text: plain });
+    plain = "";
+    const text = body.slice(i, i + 1 + member.fullname!.length);
+    parts.push({ member, text });
+    i += text.length - 1;
+  }
+  if (plain) parts.push({ text: plain });
+  return parts;
+}
+
+/* ids of the members mentioned in `body`, without duplicates */
+export function mentionedIds(body: string, members: Member[]) {
+  const ids = splitMentions(body, members).flatMap((p) => ("member" in p ? [p.member.id] : []));
+  return [...new Set(ids)];
+}
+
+/* the "@query" being typed right before the caret, if any */
+export function mentionQuery(body: string, caret: number): { start: number; query: string } | null {
+  const before = body.slice(0, caret);
+  const at = before.lastIndexOf("@");
+  if (at < 0 || !isBoundary(before[at - 1])) return null;
+  const query = before.slice(at + 1);
+  // a name has a few words at most; a newline ends the mention
+  if (query.includes("\n") || query.split(" ").length > 3) return null;
+  return { start: at, query };
+}
+
+export function suggestMembers(query: string, members: Member[], limit = 5) {
+  const q = query.toLowerCase();
+  return members.filter((m) => m.fullname && m.fullname.toLowerCase().includes(q)).slice(0, limit);
+}
@@ -0,0 +1,526 @@
+// src/lib/models.ts
+// Front-end models + normalizers: the backend sometimes returns `_id`, sometimes `id`,
+// and `owner` / `members` either populated (objects) or as raw ids.
+
+export type User = {
+  id: string;
+  fullname: string;
+  email?: string;
+  createdAt?: string;
+};
+
+export type GroupRole = "owner" | "admin" | "member" | "viewer";
+
+export const GROUP_ROLES: GroupRole[] = ["owner", "admin", "member", "viewer"];
+
+export function isGroupRole(v: unknown): v is GroupRole {
+  return typeof v === "string" && (GROUP_ROLES as string[]).includes(v);
+}
+
+export type Member = {
+  id: string;
+  fullname?: string;
+  /* set by normalizeGroup; absent on members read outside of a group */
+  role?: GroupRole;
+};
+
+export const LABEL_COLORS = ["gray", "red", "orange", "yellow", "green", "teal", "blue", "purple", "pink"] as const;
+
+export type LabelColor = (typeof LABEL_COLORS)[number];
+
+/* free-form tag defined per group, applied to its tasks */
+export type Label = {
+  id: string;
+  name: string;
+  color: LabelColor;
+};
+
+export type Group = {
+  id: string;
+  name: string;
+  inviteCode?: string;
+  ownerId: string | null;
+  members: Member[];
+  labels: Label[];
+  createdAt?: string;
+};
+
+export type Comment = {
+  id: string;
+  taskId: string | null;
+  authorId: string | null;
+  /* populated author, when the backend sends it */
+  author: Member | null;
+  body: string;
+  /* comment this one replies to; null for a top-level comment */
+  parentId: string | null;
+  mentions: string[];
+  createdAt?: string;
+  editedAt: string | null;
+  /* deleted comments that still have replies stay in the thread, without body */
+  deleted: boolean;
+};
+
+/* what happens to the tasks a member created when they leave the group */
+export type LeaveTaskPolicy = "keep" | "personal" | "delete";
+
+export const LEAVE_TASK_LABELS: Record<LeaveTaskPolicy, string> = {
+  keep: "laissées au groupe",
+  personal: "reprises en tâches personnelles",
+  delete: "supprimées",
+};
+
+function isLeaveTaskPolicy(v: unknown): v is LeaveTaskPolicy {
+  return v === "keep" || v === "personal" || v === "delete";
+}
+
+/* audit entry of a member who left (or was removed from) a group */
+export type Departure = {
+  id: string;
+  member: Member;
+  reason: "left" | "removed";
+  /* who removed the member, for reason "removed" */
+  by: Member | null;
+  tasks: LeaveTaskPolicy | null;
+  taskCount: number;
+  at: string | null;
+};
+
+/* what the activity log of a group records */
+export type ActivityType = "task.created" | "task.updated" | "task.deleted" | "member.joined" | "member.left" | "member.removed";
+
+export const ACTIVITY_TYPES: ActivityType[] = ["task.created", "task.updated", "task.deleted", "member.joined", "member.left", "member.removed"];
+
+export const ACTIVITY_LABELS: Record<ActivityType, string> = {
+  "task.created": "Tâche créée",
+  "task.updated": "Tâche modifiée",
+  "task.deleted": "Tâche supprimée",
+  "member.joined": "Arrivée",
+  "member.left": "Départ",
+  "member.removed": "Retrait",
+};
+
+function isActivityType(v: unknown): v is ActivityType {
+  return typeof v === "string" && (ACTIVITY_TYPES as string[]).includes(v);
+}
+
+/* one field of a task edit, with the raw backend values (ids for labels and assignees) */
+export type ActivityChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+/* audit entry: who did what, when; the task is kept by title since it may be gone */
+export type Activity = {
+  id: string;
+  type: ActivityType;
+  groupId: string | null;
+  /* sent with the aggregated feed, which spans several groups */
+  groupName: string | null;
+  actor: Member | null;
+  at: string | null;
+  taskId: string | null;
+  taskTitle: string | null;
+  /* the member who joined, left or was removed */
+  member: Member | null;
+  /* how a member joined: the permanent code or an invitation */
+  via: "code" | "invitation" | null;
+  changes: ActivityChange[];
+};
+
+export type ActivityPage = {
+  items: Activity[];
+  nextCursor: string | null;
+};
+
+/* extra invite codes of a group, on top of its permanent `inviteCode` */
+export type Invitation = {
+  id: string;
+  code: string;
+  groupId: string | null;
+  /* null: never expires */
+  expiresAt: string | null;
+  /* null: unlimited */
+  maxUses: number | null;
+  uses: number;
+  /* members who joined with this code, when the backend tracks them */
+  usedBy: Member[];
+  revoked: boolean;
+  createdAt?: string;
+};
+
+export type InvitationState = "active" | "expired" | "exhausted" | "revoked";
+
+export const INVITATION_STATE_LABELS: Record<InvitationState, string> = {
+  active: "Active",
+  expired: "Expirée",
+  exhausted: "Épuisée",
+  revoked: "Révoquée",
+};
+
+export function invitationState(inv: Invitation, now = Date.now()): InvitationState {
+  if (inv.revoked) return "revoked";
+  if (inv.expiresAt && new Date(inv.expiresAt).getTime() <= now) return "expired";
+  if (inv.maxUses !== null && inv.uses >= inv.maxUses) return "exhausted";
+  return "active";
+}
+
+export type TaskStatus = "en-attente" | "en-cours" | "terminee";
+
+export const TASK_STATUSES: TaskStatus[] = ["en-attente", "en-cours", "terminee"];
+
+export const STATUS_LABELS: Record<TaskStatus, string> = {
+  "en-attente": "En attente",
+  "en-cours": "En cours",
+  "terminee": "Terminée",
+};
+
+export function isTaskStatus(v: unknown): v is TaskStatus {
+  return typeof v === "string" && (TASK_STATUSES as string[]).includes(v);
+}
+
+/* lowest to highest */
+export type TaskPriority = "basse" | "normale" | "haute" | "urgente";
+
+export const TASK_PRIORITIES: TaskPriority[] = ["basse", "normale", "haute", "urgente"];
+
+export const PRIORITY_LABELS: Record<TaskPriority, string> = {
+  basse: "Basse",
+  normale: "Normale",
+  haute: "Haute",
+  urgente: "Urgente",
+};
+
+export function isTaskPriority(v: unknown): v is TaskPriority {
+  return typeof v === "string" && (TASK_PRIORITIES as string[]).includes(v);
+}
+
+export type ChecklistItem = {
+  id: string;
+  text: string;
+  done: boolean;
+};
+
+export type Attachment = {
+  id: string;
+  name: string;
+  /* absolute, or a path on the API */
+  url: string;
+  mimeType: string;
+  size: number;
+  /* smaller image made by the backend for image attachments, if any */
+  thumbnailUrl: string | null;
+  createdAt?: string;
+};
+
+export type Task = {
+  id: string;
+  title: string;
+  description: string;
+  startDate: string | null;
+  endDate: string | null;
+  groupId: string | null;
+  ownerId: string | null;
+  /* explicit status set by the user; null means "derive it from the dates" */
+  status: TaskStatus | null;
+  /* "normale" when the backend has none */
+  priority: TaskPriority;
+  /* ids of labels of the task's group */
+  labelIds: string[];
+  /* group members the task is assigned to (populated or not on the backend) */
+  assigneeIds: string[];
+  /* RRULE value (see lib/recurrence) and excluded occurrence starts (ISO) */
+  recurrence: string | null;
+  exdates: string[];
+  /* subtasks; the description itself is Markdown (lib/markdown) */
+  checklist: ChecklistItem[];
+  attachments: Attachment[];
+  /* client-only, set on expanded occurrences: id of the recurring task and this occurrence's original start */
+  seriesId?: string;
+  occurrenceStart?: string;
+  createdAt?: string;
+  /* when it was marked "Terminée", if the backend records it (statistics) */
+  completedAt?: string;
+  /* sum of the time entries of every member, in ms */
+  timeSpentMs: number;
+  /* client-only: created/edited offline, waiting in the outbox */
+  pending?: boolean;
+};
+
+/* time a member spent on a task: from the timer, or entered by hand */
+export type TimeEntry = {
+  id: string;
+  taskId: string | null;
+  /* kept on the entry: the task may have been deleted since */
+  taskTitle: string;
+  groupId: string | null;
+  user: Member | null;
+  startedAt: string;
+  endedAt: string;
+  /* ms */
+  duration: number;
+  note: string;
+};
+
+/* one page of a task list; `nextCursor` is null on the last page */
+export type TaskPage = {
+  tasks: Task[];
+  nextCursor: string | null;
+  /* matching tasks across all pages, when the backend counts them */
+  total: number | null;
+};
+
+type Raw = Record<string, unknown>;
+
+function isRaw(v: unknown): v is Raw {
+  return typeof v === "object" && v !== null;
+}
+
+function str(v: unknown): string | undefined {
+  return typeof v === "string" ? v : undefined;
+}
+
+function num(v: unknown): number | undefined {
+  return typeof v === "number" && Number.isFinite(v) ? v : undefined;
+}
+
+/* id can come as "abc", { _id: "abc" }, { id: "abc" } or an ObjectId-like value */
+export function idOf(v: unknown): string | null {
+  if (v === null || v === undefined || v === "") return null;
+  if (typeof v === "string" || typeof v === "number") return String(v);
+  if (isRaw(v)) {
+    const inner = v._id ?? v.id;
+    if (inner !== undefined && inner !== null) return idOf(inner);
+  }
+  return null;
+}
+
+function idList(v: unknown): string[] {
+  if (!Array.isArray(v)) return [];
+  return v.map(idOf).filter((x): x is string => !!x);
+}
+
+export function sameId(a: unknown, b: unknown) {
+  const ia = idOf(a);
+  return ia !== null && ia === idOf(b);
+}
+
+export function normalizeUser(raw: unknown): User {
+  const r = isRaw(raw) ? raw : {};
+  return {
+    id: idOf(r) ?? "",
+    fullname: str(r.fullname) ?? "",
+    email: str(r.email),
+    createdAt: str(r.createdAt) ?? str(r.created_at),
+  };
+}
+
+/* a member is a user id, a populated user, or a membership `{ user, role }` */
+export function normalizeMember(raw: unknown): Member {
+  if (!isRaw(raw)) return { id: idOf(raw) ?? "" };
+  const user = isRaw(raw.user) ? raw.user : raw;
+  return {
+    id: idOf(user) ?? "",
+    fullname: str(user.fullname),
+    role: isGroupRole(raw.role) ? raw.role : undefined,
+  };
+}
+
+export function normalizeLabel(raw: unknown): Label {
+  const r = isRaw(raw) ? raw : {};
+  const color = str(r.color);
+  return {
+    id: idOf(r) ?? "",
+    name: str(r.name) ?? "",
+    color: (LABEL_COLORS as readonly string[]).includes(color ?? "") ? (color as LabelColor) : "gray",
+  };
+}
+
+export function normalizeGroup(raw: unknown): Group {
+  const r = isRaw(raw) ? raw : {};
+  const raws = Array.isArray(r.members) ? r.members.map(normalizeMember) : [];
+  // older groups have no owner field: the creator is the first member
+  const ownerId = idOf(r.owner) ?? raws[0]?.id ?? null;
+  // roles come on each membership or as a `roles: { [userId]: role }` map; default is "member"
+  const roles = isRaw(r.roles) ? r.roles : {};
+  const roleFor = (m: Member): GroupRole => {
+    if (m.id === ownerId) return "owner";
+    const role = m.role ?? roles[m.id];
+    // a stale "owner" entry can't outrank the owner field
+    return isGroupRole(role) && role !== "owner" ? role : "member";
+  };
+  const members = raws.map((m) => ({ ...m, role: roleFor(m) }));
+  return {
+    id: idOf(r) ?? "",
+    name: str(r.name) ?? "",
+    inviteCode: str(r.inviteCode),
+    ownerId,
+    members,
+    labels: normalizeList(r.labels, normalizeLabel),
+    createdAt: str(r.createdAt) ?? str(r.created_at),
+  };
+}
+
+export function normalizeInvitation(raw: unknown): Invitation {
+  const r = isRaw(raw) ? raw : {};
+  const usedBy = Array.isArray(r.usedBy) ? r.usedBy.map(normalizeMember) : [];
+  return {
+    id: idOf(r) ?? "",
+    code: str(r.code) ?? "",
+    groupId: idOf(r.group ?? r.groupId),
+    expiresAt: str(r.expiresAt) ?? null,
+    maxUses: num(r.maxUses) ?? null,
+    uses: num(r.uses) ?? usedBy.length,
+    usedBy,
+    revoked: r.revoked === true || !!str(r.revokedAt),
+    createdAt: str(r.createdAt) ?? str(r.created_at),
+  };
+}
+
+export function normalizeComment(raw: unknown): Comment {
+  const r = isRaw(raw) ? raw : {};
+  return {
+    id: idOf(r) ?? "",
+    taskId: idOf(r.task ?? r.taskId),
+    authorId: idOf(r.author ?? r.authorId),
+    author: isRaw(r.author) ? normalizeMember(r.author) : null,
+    body: str(r.body) ?? "",
+    parentId: idOf(r.parent ?? r.parentId),
+    mentions: idList(r.mentions),
+    createdAt: str(r.createdAt) ?? str(r.created_at),
+    editedAt: str(r.editedAt) ?? null,
+    deleted: r.deleted === true || !!str(r.deletedAt),
+  };
+}
+
+function normalizeChecklistItem(raw: unknown, index: number): ChecklistItem {
+  const r = isRaw(raw) ? raw : {};
+  return { id: idOf(r) ?? `item-${index}`, text: str(r.text) ?? "", done: r.done === true };
+}
+
+export function normalizeAttachment(raw: unknown): Attachment {
+  const r = isRaw(raw) ? raw : {};
+  return {
+    id: idOf(r) ?? "",
+    name: str(r.name) ?? str(r.filename) ?? "fichier",
+    url: str(r.url) ?? "",
+    mimeType: str(r.mimeType) ?? str(r.mimetype) ?? "application/octet-stream",
+    size: num(r.size) ?? 0,
+    thumbnailUrl: str(r.thumbnailUrl) ?? null,
+    createdAt: str(r.createdAt) ?? str(r.created_at),
+  };
+}
+
+export function normalizeDeparture(raw: unknown): Departure {
+  const r = isRaw(raw) ? raw : {};
+  return {
+    id: idOf(r) ?? "",
+    member: normalizeMember(r.member ?? r.user),
+    reason: r.reason === "removed" ? "removed" : "left",
+    by: r.by ? normalizeMember(r.by) : null,
+    tasks: isLeaveTaskPolicy(r.tasks) ? r.tasks : null,
+    taskCount: num(r.taskCount) ?? 0,
+    at: str(r.at) ?? str(r.createdAt) ?? null,
+  };
+}
+
+export function normalizeTask(raw: unknown): Task {
+  const r = isRaw(raw) ? raw : {};
+  return {
+    id: idOf(r) ?? "",
+    title: str(r.title) ?? "",
+    description: str(r.description) ?? "",
+    startDate: str(r.startDate) ?? null,
+    endDate: str(r.endDate) ?? null,
+    groupId: idOf(r.groupId),
+    ownerId: idOf(r.owner ?? r.ownerId),
+    status: isTaskStatus(r.status) ? r.status : null,
+    priority: isTaskPriority(r.priority) ? r.priority : "normale",
+    labelIds: idList(r.labels ?? r.labelIds),
+    assigneeIds: idList(r.assignees ?? r.assigneeIds),
+    recurrence: str(r.recurrence) || null,
+    exdates: Array.isArray(r.exdates) ? r.exdates.filter((x): x is string => typeof x === "string") : [],
+    checklist: Array.isArray(r.checklist) ? r.checklist.map(normalizeChecklistItem) : [],
+    attachments: normalizeList(r.attachments, normalizeAttachment),
+    createdAt: str(r.createdAt) ?? str(r.created_at),
+    completedAt: str(r.completedAt) ?? str(r.completed_at),
+    timeSpentMs: num(r.timeSpentMs) ?? 0,
+    pending: r.pending === true ? true : undefined,
+  };
+}
+
+/* edits come as `changes: [{ field, before, after }]` or as whole `before` / `after` snapshots */
+function activityChanges(r: Raw): ActivityChange[] {
+  if (Array.isArray(r.changes)) {
+    return r.changes.filter(isRaw).map((c) => ({ field: str(c.field) ?? "", before: c.before ?? null, after: c.after ?? null })).filter((c) => c.field);
+  }
+  if (!isRaw(r.before) || !isRaw(r.after)) return [];
+  const before = r.before;
+  const after = r.after;
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter((field) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map((field) => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+}
+
+export function normalizeActivity(raw: unknown): Activity {
+  const r = isRaw(raw) ? raw : {};
+  const task = isRaw(r.task) ? r.task : null;
+  const group = isRaw(r.group) ? r.group : null;
+  return {
+    id: idOf(r) ?? "",
+    type: isActivityType(r.type) ? r.type : "task.updated",
+    groupId: idOf(r.group ?? r.groupId),
+    groupName: str(group?.name) ?? str(r.groupName) ?? null,
+    actor: r.actor ? normalizeMember(r.actor) : null,
+    at: str(r.at) ?? str(r.createdAt) ?? null,
+    taskId: idOf(r.task ?? r.taskId),
+    taskTitle: str(task?.title) ?? str(r.taskTitle) ?? null,
+    member: r.member ? normalizeMember(r.member) : null,
+    via: r.via === "code" || r.via === "invitation" ? r.via : null,
+    changes: activityChanges(r),
+  };
+}
+
+/* `{ items, nextCursor }`, or a plain array from a backend without pagination */
+export function normalizeActivityPage(raw: unknown): ActivityPage {
+  if (Array.isArray(raw)) return { items: raw.map(normalizeActivity), nextCursor: null };
+  const r = isRaw(raw) ? raw : {};
+  return {
+    items: normalizeList(r.items, normalizeActivity),
+    nextCursor: str(r.nextCursor) || str(r.next_cursor) || null,
+  };
+}
+
+export function normalizeTimeEntry(raw: unknown): TimeEntry {
+  const r = isRaw(raw) ? raw : {};
+  const task = isRaw(r.task) ? r.task : null;
+  const startedAt = str(r.startedAt) ?? "";
+  const endedAt = str(r.endedAt) ?? startedAt;
+  return {
+    id: idOf(r) ?? "",
+    taskId: idOf(r.task ?? r.taskId),
+    taskTitle: str(task?.title) ?? str(r.taskTitle) ?? "",
+    groupId: idOf(task?.groupId ?? r.group ?? r.groupId),
+    user: r.user ? normalizeMember(r.user) : null,
+    startedAt,
+    endedAt,
+    duration: num(r.duration) ?? Math.max(0, new Date(endedAt).getTime() - new Date(startedAt).getTime() || 0),
+    note: str(r.note) ?? "",
+  };
+}
+
+/* `{ items, nextCursor, total }`; a plain array (backend without pagination) is a single, last page */
+export function normalizeTaskPage(raw: unknown): TaskPage {
+  if (Array.isArray(raw)) return { tasks: raw.map(normalizeTask), nextCursor: null, total: raw.length };
+  const r = isRaw(raw) ? raw : {};
+  return {
+    tasks: normalizeList(r.items ?? r.tasks, normalizeTask),
+    nextCursor: str(r.nextCursor) || str(r.next_cursor) || null,
+    total: num(r.total) ?? null,
+  };
+}
+
+export function normalizeList<T>(raw: unknown, fn: (item: unknown) => T): T[] {
+  return Array.isArray(raw) ? raw.map(fn) : [];
+}
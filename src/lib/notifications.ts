@@ -0,0 +1,106 @@
+// src/lib/notifications.ts
+// Web Notifications, shown through the service worker (public/sw.js) so they still
+// appear while the tab is in the background and bring the app back on click. Where the
+// browser has Notification Triggers (Chromium), the worker also schedules them ahead, so
+// they show at their time with the app closed; elsewhere the page timers need an open tab.
+
+export type NotificationState = NotificationPermission | "unsupported";
+
+const ENABLED_KEY = "notificationsEnabled";
+
+export type ScheduledNotification = {
+  /* a notification with the same tag replaces the previous one */
+  tag: string;
+  title: string;
+  body: string;
+  url: string;
+  /* ms timestamp */
+  at: number;
+};
+
+const listeners = new Set<() => void>();
+let scheduled = false;
+
+/* permission granted or mute toggled */
+export function onNotificationSettingsChange(listener: () => void) {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function notificationsSupported() {
+  return "Notification" in window && "serviceWorker" in navigator;
+}
+
+export function notificationPermission(): NotificationState {
+  return notificationsSupported() ? Notification.permission : "unsupported";
+}
+
+/* the user can mute notifications without revoking the browser permission */
+export function notificationsEnabled() {
+  return localStorage.getItem(ENABLED_KEY) !== "false";
+}
+
+export function setNotificationsEnabled(enabled: boolean) {
+  localStorage.setItem(ENABLED_KEY, String(enabled));
+  listeners.forEach((l) => l());
+}
+
+export async function requestNotificationPermission(): Promise<NotificationState> {
+  if (!notificationsSupported()) return "unsupported";
+  const result = await Notification.requestPermission();
+  if (result === "granted") setNotificationsEnabled(true);
+  return result;
+}
+
+export function notificationTriggersSupported() {
+  return notificationsSupported() && "TimestampTrigger" in window;
+}
+
+/* true while the service worker holds the schedule: the page must not show them a second time */
+export function notificationsScheduled() {
+  return scheduled;
+}
+
+/*
+ * Replaces the schedule held by the service worker (an empty one when notifications are muted
+ * or denied). Resolves to false when the browser can't schedule: the caller delivers them itself.
+ */
+export async function scheduleNotifications(items: ScheduledNotification[]) {
+  if (!notificationTriggersSupported()) return false;
+  const reg = await registerServiceWorker();
+  if (!reg) return false;
+  const { active } = await navigator.serviceWorker.ready;
+  const allowed = notificationPermission() === "granted" && notificationsEnabled();
+  active?.postMessage({ type: "schedule-reminders", reminders: allowed ? items : [] });
+  scheduled = allowed && !!active;
+  return scheduled;
+}
+
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+export function registerServiceWorker() {
+  if (!registration) {
+    registration = "serviceWorker" in navigator
+      ? navigator.serviceWorker.register("/sw.js").catch(() => null)
+      : Promise.resolve(null);
+  }
+  return registration;
+}
+
+/* false when the notification can't be shown (unsupported, denied, muted): the caller falls back to a toast */
+export async function showNotification(title: string, options: { body?: string; tag?: string; url?: string } = {}) {
+  if (notificationPermission() !== "granted" || !notificationsEnabled()) return false;
+  const reg = await registerServiceWorker();
+  if (!reg) return false;
+  try {
+    await reg.showNotification(title, {
+      body: options.body,
+      tag: options.tag,
+      icon: "/vite.svg",
+      data: { url: options.url ?? "/dashboard" },
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,195 @@
+// src/lib/offline.ts
+// Offline layer: network-first GETs with an IndexedDB fallback, and an outbox
+// of task mutations replayed in order once the connection comes back.
+import axios from "axios";
+import api from "./api";
+import { idOf } from "./models";
+import { idbClear, idbDelete, idbGet, idbGetAll, idbKeys, idbPut } from "./offlineStore";
+
+export type OutboxEntry = {
+  seq?: number;
+  kind: "create" | "update" | "delete";
+  taskId: string;
+  payload?: Record<string, unknown>;
+  title?: string;
+  queuedAt: string;
+};
+
+export type OfflineEvent =
+  | { type: "status"; online: boolean }
+  | { type: "queued"; pending: number }
+  | { type: "synced"; count: number }
+  /* a task created offline reached the server: `tempId` is now `id` */
+  | { type: "created"; tempId: string; id: string }
+  | { type: "conflict"; entry: OutboxEntry; message: string };
+
+type Raw = Record<string, unknown>;
+
+const TEMP_PREFIX = "tmp-";
+
+const listeners = new Set<(e: OfflineEvent) => void>();
+
+function emit(e: OfflineEvent) {
+  listeners.forEach((l) => l(e));
+}
+
+export function onOfflineEvent(listener: (e: OfflineEvent) => void) {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/* ---------------------------
+   Network helpers
+   --------------------------- */
+
+/* no HTTP response at all: offline, DNS failure, or the 10s axios timeout */
+export function isNetworkError(err: unknown) {
+  return axios.isAxiosError(err) && !err.response;
+}
+
+export function isOnline() {
+  return navigator.onLine;
+}
+
+export function tempTaskId() {
+  return TEMP_PREFIX + Math.random().toString(36).slice(2, 11);
+}
+
+export function isTempId(id: string) {
+  return id.startsWith(TEMP_PREFIX);
+}
+
+/* runs `request`, or `fallback` when the device is offline / the request never reached the server */
+export async function withOfflineFallback<T>(request: () => Promise<T>, fallback: () => Promise<T>): Promise<T> {
+  if (!isOnline()) return fallback();
+  try {
+    return await request();
+  } catch (err) {
+    if (isNetworkError(err)) return fallback();
+    throw err;
+  }
+}
+
+/* ---------------------------
+   Response cache
+   --------------------------- */
+
+/* network-first GET; the last good response is served from IndexedDB when offline */
+export function cachedGet(url: string): Promise<unknown> {
+  return withOfflineFallback(
+    async () => {
+      const res = await api.get(url);
+      await idbPut("cache", res.data, url).catch(() => undefined);
+      return res.data;
+    },
+    async () => {
+      const cached = await idbGet<unknown>("cache", url).catch(() => undefined);
+      if (cached === undefined) throw new Error("Hors ligne et aucune donnée en cache");
+      return cached;
+    }
+  );
+}
+
+/* applies `fn` to every cached task list: /tasks, /tasks/group/:id and their pages (`?cursor=…`, `{ items }` bodies) */
+export async function patchCachedTaskLists(fn: (list: Raw[], url: string) => Raw[]) {
+  try {
+    const keys = await idbKeys("cache");
+    for (const key of keys) {
+      const url = String(key);
+      const path = url.split("?")[0];
+      if (path !== "/tasks" && !path.startsWith("/tasks/group/")) continue;
+      const cached = await idbGet<unknown>("cache", url);
+      if (Array.isArray(cached)) await idbPut("cache", fn(cached as Raw[], url), url);
+      else if (typeof cached === "object" && cached !== null && Array.isArray((cached as Raw).items)) {
+        const page = cached as Raw;
+        await idbPut("cache", { ...page, items: fn(page.items as Raw[], url) }, url);
+      }
+    }
+  } catch {
+    // cache is best effort (private browsing may block IndexedDB)
+  }
+}
+
+export async function clearOfflineData() {
+  await Promise.all([idbClear("cache"), idbClear("outbox")]).catch(() => undefined);
+}
+
+/* ---------------------------
+   Outbox
+   --------------------------- */
+
+export async function pendingCount() {
+  const entries = await idbGetAll<OutboxEntry>("outbox").catch(() => []);
+  return entries.length;
+}
+
+export async function queueTaskMutation(entry: Omit<OutboxEntry, "seq" | "queuedAt">) {
+  if (entry.kind === "delete" && isTempId(entry.taskId)) {
+    // never reached the server: dropping its queued create/updates is enough
+    const entries = await idbGetAll<OutboxEntry>("outbox");
+    for (const e of entries) if (e.taskId === entry.taskId) await idbDelete("outbox", e.seq!);
+  } else {
+    await idbPut("outbox", { ...entry, queuedAt: new Date().toISOString() });
+  }
+  emit({ type: "queued", pending: await pendingCount() });
+}
+
+let replaying: Promise<void> | null = null;
+
+/* replays queued mutations in order; stops at the first network error and keeps the rest */
+export function replayOutbox(): Promise<void> {
+  if (replaying) return replaying;
+  replaying = (async () => {
+    const entries = await idbGetAll<OutboxEntry>("outbox").catch(() => []);
+    const rejectedTemps = new Set<string>();
+    let synced = 0;
+
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      if (rejectedTemps.has(entry.taskId)) { await idbDelete("outbox", entry.seq!); continue; }
+      try {
+        if (entry.kind === "create") {
+          const res = await api.post("/tasks", entry.payload);
+          const realId = idOf(res.data);
+          if (realId) emit({ type: "created", tempId: entry.taskId, id: realId });
+          // later entries still point at the temporary id: rewrite them in place
+          for (const next of entries.slice(i + 1)) {
+            if (next.taskId === entry.taskId && realId) {
+              next.taskId = realId;
+              await idbPut("outbox", next);
+            }
+          }
+        } else if (entry.kind === "update") {
+          await api.put(`/tasks/${entry.taskId}`, entry.payload);
+        } else {
+          await api.delete(`/tasks/${entry.taskId}`);
+        }
+        await idbDelete("outbox", entry.seq!);
+        synced++;
+      } catch (err) {
+        const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+        if (isNetworkError(err) || status === 401) break;
+        await idbDelete("outbox", entry.seq!);
+        if (entry.kind === "create") rejectedTemps.add(entry.taskId);
+        const data = axios.isAxiosError(err) ? (err.response?.data as { message?: string } | undefined) : undefined;
+        emit({ type: "conflict", entry, message: data?.message || `Refusé par le serveur (${status ?? "?"})` });
+      }
+    }
+
+    if (synced) emit({ type: "synced", count: synced });
+  })().finally(() => { replaying = null; });
+  return replaying;
+}
+
+/* wires online/offline listeners and flushes anything queued from a previous visit */
+export function startOfflineSync() {
+  const onOnline = () => { emit({ type: "status", online: true }); replayOutbox(); };
+  const onOffline = () => emit({ type: "status", online: false });
+  window.addEventListener("online", onOnline);
+  window.addEventListener("offline", onOffline);
+  if (isOnline()) replayOutbox();
+  return () => {
+    window.removeEventListener("online", onOnline);
+    window.removeEventListener("offline", onOffline);
+  };
+}
@@ -0,0 +1,60 @@
+// src/lib/offlineStore.ts
+// Tiny promise wrapper over IndexedDB: a key/value `cache` store for GET
+// responses and an auto-incremented `outbox` store for queued mutations.
+
+const DB_NAME = "tacheunie";
+const DB_VERSION = 1;
+
+export type StoreName = "cache" | "outbox";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains("cache")) db.createObjectStore("cache");
+      if (!db.objectStoreNames.contains("outbox")) db.createObjectStore("outbox", { keyPath: "seq", autoIncrement: true });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => { dbPromise = null; reject(req.error); };
+  });
+  return dbPromise;
+}
+
+function run<T>(store: StoreName, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest): Promise<T> {
+  return openDb().then((db) => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const req = fn(tx.objectStore(store));
+    tx.oncomplete = () => resolve(req.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }));
+}
+
+export function idbGet<T>(store: StoreName, key: IDBValidKey) {
+  return run<T | undefined>(store, "readonly", (s) => s.get(key));
+}
+
+export function idbGetAll<T>(store: StoreName) {
+  return run<T[]>(store, "readonly", (s) => s.getAll());
+}
+
+export function idbKeys(store: StoreName) {
+  return run<IDBValidKey[]>(store, "readonly", (s) => s.getAllKeys());
+}
+
+/* `key` is omitted for stores with an in-line keyPath (outbox) */
+export function idbPut(store: StoreName, value: unknown, key?: IDBValidKey) {
+  return run<IDBValidKey>(store, "readwrite", (s) => (key === undefined ? s.put(value) : s.put(value, key)));
+}
+
+export function idbDelete(store: StoreName, key: IDBValidKey) {
+  return run<undefined>(store, "readwrite", (s) => s.delete(key));
+}
+
+export function idbClear(store: StoreName) {
+  return run<undefined>(store, "readwrite", (s) => s.clear());
+}
@@ -0,0 +1,61 @@
+// src/lib/permissions.ts
+// Group roles and what each one may do. The backend enforces the same rules (403);
+// this matrix only decides which controls the UI renders.
+import { sameId } from "./models";
+import type { Group, GroupRole, Task } from "./models";
+
+export type Permission =
+  | "task.create"
+  | "task.edit"
+  | "task.delete.own"
+  | "task.delete.any"
+  | "comment.create"
+  | "label.manage"
+  | "member.remove"
+  | "member.role"
+  | "member.audit"
+  | "invite.view"
+  | "invite.manage"
+  | "group.delete"
+  | "group.transfer";
+
+export const ROLE_LABELS: Record<GroupRole, string> = {
+  owner: "Propriétaire",
+  admin: "Admin",
+  member: "Membre",
+  viewer: "Lecteur",
+};
+
+const MATRIX: Record<GroupRole, Permission[]> = {
+  owner: ["task.create", "task.edit", "task.delete.own", "task.delete.any", "comment.create", "label.manage", "member.remove", "member.role", "member.audit", "invite.view", "invite.manage", "group.delete", "group.transfer"],
+  admin: ["task.create", "task.edit", "task.delete.own", "task.delete.any", "comment.create", "label.manage", "member.remove", "member.role", "member.audit", "invite.view", "invite.manage"],
+  member: ["task.create", "task.edit", "task.delete.own", "comment.create", "invite.view"],
+  viewer: [],
+};
+
+/* rank used for member management: a role only manages the roles strictly below it */
+const RANK: Record<GroupRole, number> = { owner: 3, admin: 2, member: 1, viewer: 0 };
+
+export function roleOf(group: Group | null, userId: string | null): GroupRole | null {
+  if (!group || !userId) return null;
+  return group.members.find((m) => sameId(m.id, userId))?.role ?? null;
+}
+
+export function can(role: GroupRole | null, permission: Permission) {
+  return !!role && MATRIX[role].includes(permission);
+}
+
+export function canDeleteTask(role: GroupRole | null, task: Task, userId: string | null) {
+  return can(role, "task.delete.any") || (can(role, "task.delete.own") && sameId(task.ownerId, userId));
+}
+
+/* removing a member or changing their role */
+export function canManageMember(role: GroupRole | null, target: GroupRole) {
+  return !!role && can(role, "member.remove") && RANK[role] > RANK[target];
+}
+
+/* roles `role` may hand out (never "owner": that goes through a transfer) */
+export function assignableRoles(role: GroupRole | null): GroupRole[] {
+  if (!role || !can(role, "member.role")) return [];
+  return (["admin", "member", "viewer"] as GroupRole[]).filter((r) => RANK[r] < RANK[role]);
+}
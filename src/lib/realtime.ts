@@ -0,0 +1,168 @@
+// src/lib/realtime.ts
+// Per-group realtime channel: task and membership events pushed by the server, plus
+// presence (who has the group open). WebSocket first, Server-Sent Events when the
+// WebSocket can't be opened (proxies, hosts without upgrade support).
+import { REALTIME_URL } from "./config";
+import { idOf, normalizeComment, normalizeGroup, normalizeMember, normalizeTask } from "./models";
+import type { Comment, Group, Member, Task } from "./models";
+import { getToken } from "./session";
+
+export type Actor = { id: string; fullname: string };
+
+export type RealtimeEvent =
+  | { type: "task.created"; task: Task; actor: Actor | null }
+  | { type: "task.updated"; task: Task; actor: Actor | null }
+  | { type: "task.deleted"; taskId: string; actor: Actor | null }
+  | { type: "member.joined"; member: Member; actor: Actor | null }
+  /* role change; ownership transfers come with the whole group since two members change at once */
+  | { type: "member.updated"; member: Member; group: Group | null; actor: Actor | null }
+  | { type: "member.removed"; memberId: string; actor: Actor | null }
+  /* a deleted comment without replies has no comment left to send */
+  | { type: "comment.created"; comment: Comment; actor: Actor | null }
+  | { type: "comment.updated"; comment: Comment; actor: Actor | null }
+  | { type: "comment.deleted"; commentId: string; taskId: string | null; actor: Actor | null }
+  | { type: "presence"; members: Member[] };
+
+export type RealtimeTransport = "websocket" | "sse";
+
+export type RealtimeStatus = { state: "connecting" | "open" | "closed"; transport: RealtimeTransport };
+
+type Raw = Record<string, unknown>;
+
+const MAX_BACKOFF_MS = 30 * 1000;
+/* keeps idle WebSockets from being cut by proxies */
+const PING_MS = 25 * 1000;
+
+function actorOf(v: unknown): Actor | null {
+  if (typeof v !== "object" || v === null) return null;
+  const id = idOf(v);
+  const fullname = (v as Raw).fullname;
+  return id ? { id, fullname: typeof fullname === "string" ? fullname : "" } : null;
+}
+
+/* server messages are `{ type, groupId, ... }` with backend-shaped task/member payloads */
+export function parseRealtimeEvent(raw: unknown): RealtimeEvent | null {
+  if (typeof raw !== "object" || raw === null) return null;
+  const r = raw as Raw;
+  const actor = actorOf(r.actor);
+  switch (r.type) {
+    case "task.created":
+    case "task.updated": {
+      const task = normalizeTask(r.task);
+      return task.id ? { type: r.type, task, actor } : null;
+    }
+    case "task.deleted": {
+      const taskId = idOf(r.taskId ?? r.task);
+      return taskId ? { type: "task.deleted", taskId, actor } : null;
+    }
+    case "member.joined": {
+      const member = normalizeMember(r.member);
+      return member.id ? { type: "member.joined", member, actor } : null;
+    }
+    case "member.updated": {
+      const member = normalizeMember(r.member);
+      const group = r.group ? normalizeGroup(r.group) : null;
+      return member.id ? { type: "member.updated", member, group, actor } : null;
+    }
+    case "member.removed": {
+      const memberId = idOf(r.memberId ?? r.member);
+      return memberId ? { type: "member.removed", memberId, actor } : null;
+    }
+    case "comment.created":
+    case "comment.updated": {
+      const comment = normalizeComment(r.comment);
+      return comment.id ? { type: r.type, comment, actor } : null;
+    }
+    case "comment.deleted": {
+      const commentId = idOf(r.commentId ?? r.comment);
+      return commentId ? { type: "comment.deleted", commentId, taskId: idOf(r.taskId), actor } : null;
+    }
+    case "presence":
+      return { type: "presence", members: Array.isArray(r.members) ? r.members.map(normalizeMember) : [] };
+    default:
+      return null;
+  }
+}
+
+/* opens the channel of one group and keeps it open (reconnecting with backoff) until the returned function is called */
+export function connectGroupChannel(groupId: string, onEvent: (e: RealtimeEvent) => void, onStatus?: (s: RealtimeStatus) => void) {
+  let transport: RealtimeTransport = "WebSocket" in window ? "websocket" : "sse";
+  let socket: WebSocket | null = null;
+  let source: EventSource | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let pingTimer: ReturnType<typeof setInterval> | undefined;
+  let attempts = 0;
+  let stopped = false;
+
+  const status = (state: RealtimeStatus["state"]) => onStatus?.({ state, transport });
+
+  function handle(data: unknown) {
+    try {
+      const msg = JSON.parse(String(data)) as Raw;
+      if (msg.groupId !== undefined && idOf(msg.groupId) !== groupId) return;
+      const event = parseRealtimeEvent(msg);
+      if (event) onEvent(event);
+    } catch {
+      // ignore malformed frames
+    }
+  }
+
+  function retry(delay?: number) {
+    status("closed");
+    if (stopped) return;
+    const backoff = delay ?? Math.min(MAX_BACKOFF_MS, 1000 * 2 ** attempts) * (0.5 + Math.random() / 2);
+    attempts++;
+    retryTimer = setTimeout(open, backoff);
+  }
+
+  function open() {
+    const token = getToken();
+    if (stopped || !token) return;
+    const query = new URLSearchParams({ group: groupId, token }).toString();
+    status("connecting");
+
+    if (transport === "websocket") {
+      let opened = false;
+      socket = new WebSocket(`${REALTIME_URL.replace(/^http/, "ws")}/realtime?${query}`);
+      socket.onopen = () => {
+        opened = true;
+        attempts = 0;
+        status("open");
+        pingTimer = setInterval(() => socket?.send(JSON.stringify({ type: "ping" })), PING_MS);
+      };
+      socket.onmessage = (m) => handle(m.data);
+      socket.onclose = () => {
+        clearInterval(pingTimer);
+        socket = null;
+        if (stopped) return;
+        // never got through: switch to SSE right away instead of retrying the same thing
+        if (!opened) { transport = "sse"; retry(0); return; }
+        retry();
+      };
+      return;
+    }
+
+    source = new EventSource(`${REALTIME_URL}/realtime/sse?${query}`);
+    source.onopen = () => { attempts = 0; status("open"); };
+    source.onmessage = (m) => handle(m.data);
+    // EventSource would reconnect by itself with the same (maybe expired) token: we do it instead
+    source.onerror = () => {
+      source?.close();
+      source = null;
+      retry();
+    };
+  }
+
+  const onOnline = () => { if (!socket && !source) { clearTimeout(retryTimer); attempts = 0; open(); } };
+  window.addEventListener("online", onOnline);
+  open();
+
+  return () => {
+    stopped = true;
+    clearTimeout(retryTimer);
+    clearInterval(pingTimer);
+    window.removeEventListener("online", onOnline);
+    socket?.close();
+    source?.close();
+  };
+}
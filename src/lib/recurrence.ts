@@ -0,0 +1,148 @@
+// src/lib/recurrence.ts
+// Recurrence rules for tasks, stored on the task as an RFC 5545 RRULE value
+// ("FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE;COUNT=10") plus a list of excluded starts.
+import type { Task } from "./models";
+
+export type Frequency = "DAILY" | "WEEKLY" | "MONTHLY";
+export type Weekday = "MO" | "TU" | "WE" | "TH" | "FR" | "SA" | "SU";
+
+export type Recurrence = {
+  freq: Frequency;
+  interval: number;
+  byDay: Weekday[];
+  until: string | null; // ISO
+  count: number | null;
+};
+
+/* "this occurrence" vs "the whole series" */
+export type RecurrenceScope = "occurrence" | "series";
+
+export const WEEKDAYS: Weekday[] = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+export const WEEKDAY_SHORT: Record<Weekday, string> = { MO: "lun", TU: "mar", WE: "mer", TH: "jeu", FR: "ven", SA: "sam", SU: "dim" };
+
+/* safety net for open-ended rules */
+const MAX_ITERATIONS = 5000;
+
+function weekdayOf(d: Date): Weekday {
+  return WEEKDAYS[(d.getDay() + 6) % 7];
+}
+
+/* ---------------------------
+   RRULE <-> Recurrence
+   --------------------------- */
+
+export function toRRule(r: Recurrence) {
+  const parts = [`FREQ=${r.freq}`, `INTERVAL=${Math.max(1, r.interval)}`];
+  if (r.freq === "WEEKLY" && r.byDay.length) parts.push(`BYDAY=${r.byDay.join(",")}`);
+  if (r.count) parts.push(`COUNT=${r.count}`);
+  else if (r.until) parts.push(`UNTIL=${new Date(r.until).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")}`);
+  return parts.join(";");
+}
+
+export function parseRRule(value: string | null | undefined): Recurrence | null {
+  if (!value) return null;
+  const fields = Object.fromEntries(
+    value.replace(/^RRULE:/i, "").split(";").map((p) => p.split("=") as [string, string])
+  );
+  const freq = fields.FREQ?.toUpperCase();
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") return null;
+
+  let until: string | null = null;
+  const u = fields.UNTIL?.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (u) until = new Date(Date.UTC(+u[1], +u[2] - 1, +u[3], +(u[4] ?? 23), +(u[5] ?? 59), +(u[6] ?? 59))).toISOString();
+
+  return {
+    freq,
+    interval: Math.max(1, parseInt(fields.INTERVAL ?? "1", 10) || 1),
+    byDay: (fields.BYDAY ?? "").split(",").map((d) => d.slice(-2).toUpperCase()).filter((d): d is Weekday => (WEEKDAYS as string[]).includes(d)),
+    until,
+    count: fields.COUNT ? parseInt(fields.COUNT, 10) || null : null,
+  };
+}
+
+export function describeRecurrence(r: Recurrence) {
+  const unit = r.freq === "DAILY" ? ["jour", "jours"] : r.freq === "WEEKLY" ? ["semaine", "semaines"] : ["mois", "mois"];
+  let text = r.interval > 1 ? `Tous les ${r.interval} ${unit[1]}` : r.freq === "DAILY" ? "Tous les jours" : r.freq === "WEEKLY" ? "Toutes les semaines" : "Tous les mois";
+  if (r.freq === "WEEKLY" && r.byDay.length) text += ` (${r.byDay.map((d) => WEEKDAY_SHORT[d]).join(", ")})`;
+  if (r.count) text += `, ${r.count} fois`;
+  else if (r.until) text += `, jusqu'au ${new Date(r.until).toLocaleDateString()}`;
+  return text;
+}
+
+/* ---------------------------
+   Expansion
+   --------------------------- */
+
+/* every occurrence start of the rule, in order, from dtstart on */
+function* occurrenceStarts(dtstart: Date, r: Recurrence): Generator<Date> {
+  const until = r.until ? new Date(r.until).getTime() : Infinity;
+  let emitted = 0;
+
+  for (let step = 0; step < MAX_ITERATIONS; step++) {
+    let batch: Date[];
+    if (r.freq === "DAILY") {
+      const d = new Date(dtstart);
+      d.setDate(d.getDate() + step * r.interval);
+      batch = [d];
+    } else if (r.freq === "WEEKLY") {
+      const days = r.byDay.length ? r.byDay : [weekdayOf(dtstart)];
+      const monday = new Date(dtstart);
+      monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7) + step * 7 * r.interval);
+      batch = WEEKDAYS.filter((w) => days.includes(w)).map((w) => {
+        const d = new Date(monday);
+        d.setDate(d.getDate() + WEEKDAYS.indexOf(w));
+        return d;
+      }).filter((d) => d >= dtstart);
+    } else {
+      // months without that day (e.g. the 31st) are skipped, as RFC 5545 does
+      const d = new Date(dtstart);
+      d.setDate(1);
+      d.setMonth(d.getMonth() + step * r.interval);
+      d.setDate(dtstart.getDate());
+      batch = d.getDate() === dtstart.getDate() ? [d] : [];
+    }
+
+    for (const d of batch) {
+      if (d.getTime() > until) return;
+      if (r.count && emitted >= r.count) return;
+      emitted++;
+      yield d;
+    }
+  }
+}
+
+/* a concrete occurrence of a recurring task, shaped like a task for display */
+export function occurrenceOf(series: Task, start: Date): Task {
+  const duration = series.startDate && series.endDate ? new Date(series.endDate).getTime() - new Date(series.startDate).getTime() : null;
+  const startIso = start.toISOString();
+  return {
+    ...series,
+    id: `${series.id}::${startIso}`,
+    startDate: startIso,
+    endDate: duration !== null ? new Date(start.getTime() + duration).toISOString() : series.endDate,
+    seriesId: series.id,
+    occurrenceStart: startIso,
+  };
+}
+
+/* occurrences of `series` overlapping [from, to), excluded dates removed */
+export function expandOccurrences(series: Task, from: Date, to: Date, limit = 500): Task[] {
+  const rule = parseRRule(series.recurrence);
+  if (!rule || !series.startDate) return [series];
+  const excluded = new Set(series.exdates.map((x) => new Date(x).getTime()));
+  const duration = series.endDate ? new Date(series.endDate).getTime() - new Date(series.startDate).getTime() : 0;
+
+  const out: Task[] = [];
+  for (const start of occurrenceStarts(new Date(series.startDate), rule)) {
+    if (start.getTime() >= to.getTime() || out.length >= limit) break;
+    if (start.getTime() + duration < from.getTime()) continue;
+    if (excluded.has(start.getTime())) continue;
+    out.push(occurrenceOf(series, start));
+  }
+  return out;
+}
+
+/* expands every recurring task of a list; non-recurring tasks pass through */
+export function expandTasks(tasks: Task[], from: Date, to: Date, limitPerSeries?: number) {
+  return tasks.flatMap((t) => (t.recurrence ? expandOccurrences(t, from, to, limitPerSeries) : [t]));
+}
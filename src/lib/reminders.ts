@@ -0,0 +1,208 @@
+// src/lib/reminders.ts
+// Per-task reminders ("1 h before the start", "1 day before the end"...). They live in
+// localStorage next to a snapshot of the task, so the scheduler re-arms them after a
+// reload without having to fetch every task first. The page scheduler needs an open tab;
+// `upcomingReminders` is what gets handed to the service worker to fire them without one.
+import { expandOccurrences } from "./recurrence";
+import type { Task } from "./models";
+
+export type ReminderAnchor = "start" | "end";
+
+export type Reminder = {
+  anchor: ReminderAnchor;
+  minutesBefore: number;
+};
+
+export type DueReminder = {
+  key: string;
+  task: Task;
+  reminder: Reminder;
+  /* the start/end the reminder is about */
+  anchorAt: Date;
+};
+
+export type ReminderEvent =
+  | { type: "due"; due: DueReminder }
+  | { type: "changed" };
+
+type Entry = { task: Task; reminders: Reminder[] };
+
+export const REMINDER_OFFSETS = [10, 60, 24 * 60];
+
+const STORE_KEY = "reminders";
+const FIRED_KEY = "remindersFired";
+/* reminders missed while the app was closed are still shown when less late than this */
+const GRACE_MS = 60 * 60 * 1000;
+/* background tabs throttle timers, so the next reminder is re-checked at least this often */
+const TICK_MS = 30 * 1000;
+const FIRED_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+/* handed to the service worker at once; later ones wait for the next visit (or change) */
+const AHEAD_MS = 7 * 24 * 60 * 60 * 1000;
+const AHEAD_MAX = 100;
+
+const listeners = new Set<(e: ReminderEvent) => void>();
+
+function emit(e: ReminderEvent) {
+  listeners.forEach((l) => l(e));
+}
+
+export function onReminderEvent(listener: (e: ReminderEvent) => void) {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/* ---------------------------
+   Storage
+   --------------------------- */
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function readEntries() {
+  return readJson<Record<string, Entry>>(STORE_KEY, {});
+}
+
+function writeEntries(entries: Record<string, Entry>) {
+  localStorage.setItem(STORE_KEY, JSON.stringify(entries));
+  emit({ type: "changed" });
+}
+
+export function getReminders(taskId: string): Reminder[] {
+  return readEntries()[taskId]?.reminders ?? [];
+}
+
+export function saveReminders(task: Task, reminders: Reminder[]) {
+  const entries = readEntries();
+  if (reminders.length) entries[task.id] = { task: { ...task, pending: undefined }, reminders };
+  else delete entries[task.id];
+  writeEntries(entries);
+}
+
+/* keeps the stored snapshots in line with freshly loaded / edited tasks */
+export function syncReminders(tasks: Task[]) {
+  const entries = readEntries();
+  let changed = false;
+  for (const t of tasks) {
+    if (!entries[t.id] || t.seriesId) continue;
+    entries[t.id] = { ...entries[t.id], task: { ...t, pending: undefined } };
+    changed = true;
+  }
+  if (changed) writeEntries(entries);
+}
+
+export function forgetReminders(taskId: string) {
+  const entries = readEntries();
+  if (!entries[taskId]) return;
+  delete entries[taskId];
+  writeEntries(entries);
+}
+
+/* a task created offline got its server id: its reminders follow it */
+export function renameReminders(fromId: string, toId: string) {
+  const entries = readEntries();
+  const entry = entries[fromId];
+  if (!entry) return;
+  delete entries[fromId];
+  entries[toId] = { ...entry, task: { ...entry.task, id: toId } };
+  writeEntries(entries);
+}
+
+export function clearReminders() {
+  localStorage.removeItem(STORE_KEY);
+  localStorage.removeItem(FIRED_KEY);
+  emit({ type: "changed" });
+}
+
+/* ---------------------------
+   Labels
+   --------------------------- */
+
+export function formatOffset(minutes: number) {
+  if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)} j`;
+  if (minutes % 60 === 0) return `${minutes / 60} h`;
+  return `${minutes} min`;
+}
+
+export function describeReminder(r: Reminder) {
+  return `${formatOffset(r.minutesBefore)} avant ${r.anchor === "start" ? "le début" : "la fin"}`;
+}
+
+export function describeDue(due: DueReminder) {
+  const verb = due.reminder.anchor === "start" ? "Commence" : "Se termine";
+  return `${verb} ${due.anchorAt.toLocaleString()}`;
+}
+
+/* ---------------------------
+   Scheduler
+   --------------------------- */
+
+/* every reminder firing in [from, to], occurrences of recurring tasks included */
+function dueBetween(from: number, to: number): { due: DueReminder; at: number }[] {
+  const out: { due: DueReminder; at: number }[] = [];
+  for (const { task, reminders } of Object.values(readEntries())) {
+    const maxOffset = Math.max(...reminders.map((r) => r.minutesBefore)) * 60000;
+    const occurrences = task.recurrence ? expandOccurrences(task, new Date(from), new Date(to + maxOffset), 50) : [task];
+    for (const occ of occurrences) {
+      for (const reminder of reminders) {
+        const iso = reminder.anchor === "start" ? occ.startDate : occ.endDate;
+        if (!iso) continue;
+        const anchorAt = new Date(iso);
+        const at = anchorAt.getTime() - reminder.minutesBefore * 60000;
+        if (at < from || at > to) continue;
+        out.push({ at, due: { key: `${task.id}|${reminder.anchor}|${reminder.minutesBefore}|${iso}`, task: occ, reminder, anchorAt } });
+      }
+    }
+  }
+  return out.sort((a, b) => a.at - b.at);
+}
+
+/* what fires in the coming days, soonest first */
+export function upcomingReminders(): { due: DueReminder; at: number }[] {
+  const now = Date.now();
+  return dueBetween(now + 1, now + AHEAD_MS).slice(0, AHEAD_MAX);
+}
+
+function fireDue() {
+  const now = Date.now();
+  const fired = readJson<Record<string, number>>(FIRED_KEY, {});
+  const fresh: DueReminder[] = [];
+  for (const { due } of dueBetween(now - GRACE_MS, now)) {
+    if (fired[due.key]) continue;
+    fired[due.key] = now;
+    fresh.push(due);
+  }
+  for (const key of Object.keys(fired)) if (now - fired[key] > FIRED_TTL_MS) delete fired[key];
+  // written before emitting so another tab checking at the same time skips them
+  localStorage.setItem(FIRED_KEY, JSON.stringify(fired));
+  fresh.forEach((due) => emit({ type: "due", due }));
+}
+
+/* checks now, then sleeps until the next reminder (or TICK_MS); re-arms when reminders change */
+export function startReminders() {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const arm = () => {
+    clearTimeout(timer);
+    fireDue();
+    const now = Date.now();
+    const next = dueBetween(now + 1, now + TICK_MS)[0];
+    timer = setTimeout(arm, next ? Math.max(0, next.at - now) : TICK_MS);
+  };
+
+  const off = onReminderEvent((e) => { if (e.type === "changed") arm(); });
+  const onStorage = (e: StorageEvent) => { if (e.key === STORE_KEY) arm(); };
+  window.addEventListener("storage", onStorage);
+  arm();
+
+  return () => {
+    clearTimeout(timer);
+    off();
+    window.removeEventListener("storage", onStorage);
+  };
+}
@@ -0,0 +1,447 @@
+// src/lib/services.ts
+// Typed wrappers around the axios instance. Screens should go through these
+// instead of calling `api` directly so they always receive normalized models.
+import axios from "axios";
+import api, { sendOnUnload } from "./api";
+import { API_URL } from "./config";
+import { normalizeActivityPage, normalizeAttachment, normalizeComment, normalizeDeparture, normalizeGroup, normalizeInvitation, normalizeLabel, normalizeList, normalizeTask, normalizeTaskPage, normalizeTimeEntry, normalizeUser } from "./models";
+import { cachedGet, isTempId, patchCachedTaskLists, queueTaskMutation, tempTaskId, withOfflineFallback } from "./offline";
+import type { ActivityPage, ActivityType, Attachment, ChecklistItem, Comment, Departure, Group, GroupRole, Invitation, Label, LabelColor, LeaveTaskPolicy, Task, TaskPage, TaskPriority, TaskStatus, TimeEntry, User } from "./models";
+
+export type TaskInput = {
+  title?: string;
+  description?: string;
+  startDate?: string | null;
+  endDate?: string | null;
+  /* null moves the task out of its group (personal task) */
+  groupId?: string | null;
+  status?: TaskStatus | null;
+  priority?: TaskPriority;
+  /* label ids */
+  labels?: string[];
+  assignees?: string[];
+  recurrence?: string | null;
+  exdates?: string[];
+  checklist?: ChecklistItem[];
+};
+
+export type LabelInput = {
+  name: string;
+  color: LabelColor;
+};
+
+export type InvitationInput = {
+  expiresAt: string | null;
+  maxUses: number | null;
+};
+
+export type CommentInput = {
+  body: string;
+  parentId?: string | null;
+  /* ids resolved from the @mentions of the body (lib/mentions) */
+  mentions: string[];
+};
+
+export type AuthResult = {
+  token: string | null;
+  refreshToken: string | null;
+  user: User | null;
+};
+
+/* ---------------------------
+   Error helpers
+   --------------------------- */
+
+export function apiErrorStatus(err: unknown): number | undefined {
+  return axios.isAxiosError(err) ? err.response?.status : undefined;
+}
+
+export const FORBIDDEN_MESSAGE = "Ton rôle dans ce groupe ne permet pas cette action";
+
+export function apiErrorMessage(err: unknown, fallback: string): string {
+  if (axios.isAxiosError(err)) {
+    const data = err.response?.data as { message?: unknown } | undefined;
+    if (typeof data?.message === "string" && data.message) return data.message;
+    if (err.response?.status === 403) return FORBIDDEN_MESSAGE;
+  }
+  return fallback;
+}
+
+/* ---------------------------
+   Auth
+   --------------------------- */
+
+function toAuthResult(data: { token?: string; accessToken?: string; refreshToken?: string; user?: unknown }): AuthResult {
+  return {
+    token: data.token ?? data.accessToken ?? null,
+    refreshToken: data.refreshToken ?? null,
+    user: data.user ? normalizeUser(data.user) : null,
+  };
+}
+
+export const authApi = {
+  async login(fullname: string, password: string): Promise<AuthResult> {
+    const res = await api.post("/auth/login", { fullname, password });
+    return toAuthResult(res.data ?? {});
+  },
+  async register(fullname: string, password: string): Promise<AuthResult> {
+    const res = await api.post("/auth/register", { fullname, password });
+    return toAuthResult(res.data ?? {});
+  },
+  async me(): Promise<User> {
+    const res = await api.get("/auth/me");
+    return normalizeUser(res.data);
+  },
+  async deleteMe(): Promise<void> {
+    await api.delete("/auth/me");
+  },
+  async deleteUser(userId: string): Promise<void> {
+    await api.delete(`/users/${userId}`);
+  },
+};
+
+/* ---------------------------
+   Groups
+   --------------------------- */
+
+export const groupsApi = {
+  async list(): Promise<Group[]> {
+    return normalizeList(await cachedGet("/groups"), normalizeGroup);
+  },
+  async get(groupId: string): Promise<Group> {
+    return normalizeGroup(await cachedGet(`/groups/${groupId}`));
+  },
+  async create(name: string): Promise<Group> {
+    const res = await api.post("/groups", { name });
+    return normalizeGroup(res.data);
+  },
+  async join(code: string): Promise<Group> {
+    const res = await api.post("/groups/join", { code });
+    return normalizeGroup(res.data);
+  },
+  async remove(groupId: string): Promise<void> {
+    await api.delete(`/groups/${groupId}`);
+  },
+  async removeMember(groupId: string, memberId: string): Promise<void> {
+    await api.delete(`/groups/${groupId}/members/${memberId}`);
+  },
+  /* the same two, from a closing page (see sendOnUnload) */
+  removeOnUnload(groupId: string) {
+    return sendOnUnload("DELETE", `/groups/${groupId}`);
+  },
+  removeMemberOnUnload(groupId: string, memberId: string) {
+    return sendOnUnload("DELETE", `/groups/${groupId}/members/${memberId}`);
+  },
+  /* the backend also takes the member off the assignees of every task; refused (409) for the owner */
+  async leave(groupId: string, tasks: LeaveTaskPolicy): Promise<void> {
+    await api.post(`/groups/${groupId}/leave`, { tasks });
+  },
+  /* members who left or were removed, most recent first */
+  async departures(groupId: string): Promise<Departure[]> {
+    const res = await api.get(`/groups/${groupId}/departures`);
+    return normalizeList(res.data, normalizeDeparture);
+  },
+  async setMemberRole(groupId: string, memberId: string, role: GroupRole): Promise<Group> {
+    const res = await api.put(`/groups/${groupId}/members/${memberId}/role`, { role });
+    return normalizeGroup(res.data);
+  },
+  /* the previous owner becomes admin */
+  async transferOwnership(groupId: string, memberId: string): Promise<Group> {
+    const res = await api.post(`/groups/${groupId}/transfer`, { userId: memberId });
+    return normalizeGroup(res.data);
+  },
+  async createLabel(groupId: string, input: LabelInput): Promise<Label> {
+    const res = await api.post(`/groups/${groupId}/labels`, input);
+    return normalizeLabel(res.data);
+  },
+  async updateLabel(groupId: string, labelId: string, input: LabelInput): Promise<Label> {
+    const res = await api.put(`/groups/${groupId}/labels/${labelId}`, input);
+    return normalizeLabel(res.data);
+  },
+  /* the backend also takes the label off the tasks that have it */
+  async removeLabel(groupId: string, labelId: string): Promise<void> {
+    await api.delete(`/groups/${groupId}/labels/${labelId}`);
+  },
+  /* new permanent code: the previous one (and links built on it) stops working */
+  async regenerateInviteCode(groupId: string): Promise<Group> {
+    const res = await api.post(`/groups/${groupId}/invite-code`);
+    return normalizeGroup(res.data);
+  },
+  /* no permanent code any more: only invitations can be used to join */
+  async revokeInviteCode(groupId: string): Promise<Group> {
+    const res = await api.delete(`/groups/${groupId}/invite-code`);
+    return normalizeGroup(res.data);
+  },
+};
+
+/* ---------------------------
+   Invitations
+   --------------------------- */
+
+/* joining with an invitation code goes through groupsApi.join like the permanent code */
+export const invitationsApi = {
+  async list(groupId: string): Promise<Invitation[]> {
+    const res = await api.get(`/groups/${groupId}/invitations`);
+    return normalizeList(res.data, normalizeInvitation);
+  },
+  async create(groupId: string, input: InvitationInput): Promise<Invitation> {
+    const res = await api.post(`/groups/${groupId}/invitations`, input);
+    return normalizeInvitation(res.data);
+  },
+  async revoke(groupId: string, invitationId: string): Promise<void> {
+    await api.delete(`/groups/${groupId}/invitations/${invitationId}`);
+  },
+};
+
+/* ---------------------------
+   Tasks
+   --------------------------- */
+
+/* server-side filter and sort of a paged task list ("" = any); `cursor` comes from the previous page */
+export type TaskQuery = {
+  status?: TaskStatus | "";
+  priority?: TaskPriority | "";
+  label?: string;
+  /* member id, or "unassigned" */
+  assignee?: string;
+  sort?: string;
+  cursor?: string | null;
+  limit?: number;
+};
+
+export const TASK_PAGE_SIZE = 20;
+
+function taskListUrl(groupId: string | null, query: TaskQuery) {
+  const params = new URLSearchParams(groupId ? {} : { scope: "personal" });
+  for (const [key, value] of Object.entries({ limit: TASK_PAGE_SIZE, ...query })) {
+    if (value !== undefined && value !== null && value !== "") params.set(key, String(value));
+  }
+  return `${groupId ? `/tasks/group/${groupId}` : "/tasks"}?${params}`;
+}
+
+/* keeps cached lists in line with a mutation so an offline reload shows it */
+function belongsTo(url: string, task: Task) {
+  const [path, search] = url.split("?");
+  if (path === "/tasks") return !task.groupId || new URLSearchParams(search).get("scope") !== "personal";
+  return path === `/tasks/group/${task.groupId}`;
+}
+
+function cacheUpsert(task: Task) {
+  return patchCachedTaskLists((list, url) => {
+    const rest = list.filter((r) => normalizeTask(r).id !== task.id);
+    if (!belongsTo(url, task)) return rest;
+    if (rest.length < list.length) return list.map((r) => (normalizeTask(r).id === task.id ? task : r));
+    // a new task goes on first pages only, not at the top of every cached page
+    return new URLSearchParams(url.split("?")[1]).has("cursor") ? list : [task, ...list];
+  });
+}
+
+function cacheRemove(taskId: string) {
+  return patchCachedTaskLists((list) => list.filter((r) => normalizeTask(r).id !== taskId));
+}
+
+/*
+ * Mutations fall back to the offline outbox when the server can't be reached:
+ * the returned task is then optimistic and flagged `pending`.
+ */
+export const tasksApi = {
+  /* every task visible to the user (personal + groups) */
+  async list(): Promise<Task[]> {
+    return normalizeList(await cachedGet("/tasks"), normalizeTask);
+  },
+  async listPersonal(): Promise<Task[]> {
+    const all = await tasksApi.list();
+    return all.filter((t) => !t.groupId);
+  },
+  async listByGroup(groupId: string): Promise<Task[]> {
+    return normalizeList(await cachedGet(`/tasks/group/${groupId}`), normalizeTask);
+  },
+  /* one page of personal tasks (groupId null) or of a group's tasks, filtered and sorted by the server */
+  async page(groupId: string | null, query: TaskQuery): Promise<TaskPage> {
+    const page = normalizeTaskPage(await cachedGet(taskListUrl(groupId, query)));
+    if (groupId) return page;
+    // a backend without pagination ignores `scope=personal` and answers every task
+    const tasks = page.tasks.filter((t) => !t.groupId);
+    if (tasks.length === page.tasks.length) return page;
+    return { ...page, tasks, total: page.nextCursor ? page.total : tasks.length };
+  },
+  /* pages 1 to `count`, following the cursors; stops early on the last page */
+  async pages(groupId: string | null, query: TaskQuery, count: number): Promise<TaskPage> {
+    const tasks: Task[] = [];
+    let page: TaskPage = { tasks: [], nextCursor: null, total: null };
+    for (let i = 0; i < count && (i === 0 || page.nextCursor); i++) {
+      page = await tasksApi.page(groupId, { ...query, cursor: i === 0 ? null : page.nextCursor });
+      tasks.push(...page.tasks);
+    }
+    return { ...page, tasks };
+  },
+  async get(taskId: string): Promise<Task> {
+    return normalizeTask(await cachedGet(`/tasks/${taskId}`));
+  },
+  async create(input: TaskInput): Promise<Task> {
+    const task = await withOfflineFallback(
+      async () => normalizeTask((await api.post("/tasks", input)).data),
+      async () => {
+        const optimistic: Task = { ...normalizeTask(input), id: tempTaskId(), createdAt: new Date().toISOString(), pending: true };
+        await queueTaskMutation({ kind: "create", taskId: optimistic.id, payload: input, title: input.title });
+        return optimistic;
+      }
+    );
+    await cacheUpsert(task);
+    return task;
+  },
+  /* `base` is the task as currently displayed, used to build the optimistic result offline */
+  async update(taskId: string, input: TaskInput, base?: Task): Promise<Task> {
+    const task = await withOfflineFallback(
+      async () => normalizeTask((await api.put(`/tasks/${taskId}`, input)).data),
+      async () => {
+        await queueTaskMutation({ kind: "update", taskId, payload: input, title: input.title ?? base?.title });
+        return normalizeTask({ ...base, ...input, id: taskId, pending: true });
+      }
+    );
+    await cacheUpsert(task);
+    return task;
+  },
+  async remove(taskId: string, base?: Task): Promise<void> {
+    await withOfflineFallback(
+      async () => { await api.delete(`/tasks/${taskId}`); },
+      () => queueTaskMutation({ kind: "delete", taskId, title: base?.title })
+    );
+    await cacheRemove(taskId);
+  },
+  /* from a closing page (see sendOnUnload); a task created offline only exists in the outbox */
+  removeOnUnload(taskId: string) {
+    if (isTempId(taskId)) return false;
+    // started first: nothing will be left to await it once the request is out
+    void cacheRemove(taskId);
+    return sendOnUnload("DELETE", `/tasks/${taskId}`);
+  },
+};
+
+/* ---------------------------
+   Time tracking
+   --------------------------- */
+
+export type TimeEntryInput = {
+  startedAt: string;
+  endedAt: string;
+  note?: string;
+};
+
+/* [from, to) on startedAt; without groupId, the user's own entries in every group and personal task */
+export type TimeQuery = {
+  from: string;
+  to: string;
+  groupId?: string;
+};
+
+export const timeApi = {
+  /* with groupId: every member's entries on the group's tasks */
+  async list(query: TimeQuery): Promise<TimeEntry[]> {
+    const params = new URLSearchParams({ from: query.from, to: query.to, ...(query.groupId ? { group: query.groupId } : {}) });
+    const res = await api.get(`/time-entries?${params}`);
+    return normalizeList(res.data, normalizeTimeEntry);
+  },
+  async create(taskId: string, input: TimeEntryInput): Promise<TimeEntry> {
+    const res = await api.post(`/tasks/${taskId}/time-entries`, input);
+    return normalizeTimeEntry(res.data);
+  },
+  async remove(taskId: string, entryId: string): Promise<void> {
+    await api.delete(`/tasks/${taskId}/time-entries/${entryId}`);
+  },
+};
+
+/* ---------------------------
+   Activity
+   --------------------------- */
+
+/* "" = any; `cursor` comes from the previous page */
+export type ActivityQuery = {
+  type?: ActivityType | "";
+  /* member id of who did it */
+  actor?: string;
+  cursor?: string | null;
+  limit?: number;
+};
+
+export const ACTIVITY_PAGE_SIZE = 30;
+
+function activityUrl(groupId: string | null, query: ActivityQuery) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries({ limit: ACTIVITY_PAGE_SIZE, ...query })) {
+    if (value !== undefined && value !== null && value !== "") params.set(key, String(value));
+  }
+  return `${groupId ? `/groups/${groupId}/activity` : "/activity"}?${params}`;
+}
+
+/* recorded by the backend on every task and membership change, most recent first */
+export const activityApi = {
+  /* one group's log, or (groupId null) the feed of all the user's groups */
+  async page(groupId: string | null, query: ActivityQuery): Promise<ActivityPage> {
+    const res = await api.get(activityUrl(groupId, query));
+    return normalizeActivityPage(res.data);
+  },
+};
+
+/* ---------------------------
+   Comments
+   --------------------------- */
+
+export const commentsApi = {
+  /* the whole thread of a task, oldest first */
+  async list(taskId: string): Promise<Comment[]> {
+    const res = await api.get(`/tasks/${taskId}/comments`);
+    return normalizeList(res.data, normalizeComment);
+  },
+  async create(taskId: string, input: CommentInput): Promise<Comment> {
+    const res = await api.post(`/tasks/${taskId}/comments`, input);
+    return normalizeComment(res.data);
+  },
+  async update(taskId: string, commentId: string, input: Omit<CommentInput, "parentId">): Promise<Comment> {
+    const res = await api.put(`/tasks/${taskId}/comments/${commentId}`, input);
+    return normalizeComment(res.data);
+  },
+  /* a comment with replies comes back flagged `deleted`; without replies, nothing comes back */
+  async remove(taskId: string, commentId: string): Promise<Comment | null> {
+    const res = await api.delete(`/tasks/${taskId}/comments/${commentId}`);
+    return res.data ? normalizeComment(res.data) : null;
+  },
+  /* unread comment count per task id of a group (only tasks with unread comments) */
+  async unread(groupId: string): Promise<Record<string, number>> {
+    const res = await api.get(`/groups/${groupId}/comments/unread`);
+    const data = (res.data ?? {}) as Record<string, unknown>;
+    return Object.fromEntries(Object.entries(data).filter((e): e is [string, number] => typeof e[1] === "number" && e[1] > 0));
+  },
+  async markRead(taskId: string): Promise<void> {
+    await api.post(`/tasks/${taskId}/comments/read`);
+  },
+};
+
+/* ---------------------------
+   Attachments
+   --------------------------- */
+
+/* checked before uploading; the backend has its own limit */
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export const attachmentsApi = {
+  /* multipart upload, field "file"; `onProgress` receives 0..1 */
+  async upload(taskId: string, file: File, onProgress?: (ratio: number) => void): Promise<Attachment> {
+    const form = new FormData();
+    form.append("file", file);
+    const res = await api.post(`/tasks/${taskId}/attachments`, form, {
+      timeout: 0, // the global timeout would cut large uploads on slow connections
+      onUploadProgress: (e) => { if (e.total) onProgress?.(e.loaded / e.total); },
+    });
+    return normalizeAttachment(res.data);
+  },
+  async remove(taskId: string, attachmentId: string): Promise<void> {
+    await api.delete(`/tasks/${taskId}/attachments/${attachmentId}`);
+  },
+  /* files served by the API need the auth header: fetched into a blob: URL (revoke it); other URLs are returned as is */
+  async objectUrl(url: string): Promise<string> {
+    if (/^https?:\/\//i.test(url) && !url.startsWith(API_URL)) return url;
+    const res = await api.get(url.startsWith(API_URL) ? url.slice(API_URL.length) : url, { responseType: "blob" });
+    return URL.createObjectURL(res.data as Blob);
+  },
+};
@@ -0,0 +1,166 @@
+// src/lib/session.ts
+// Auth session manager: token storage, JWT expiry tracking, refresh-token
+// exchange and "session expired" notification for the UI.
+import axios from "axios";
+import { API_TIMEOUT, API_URL } from "./config";
+
+const TOKEN_KEY = "token";
+const REFRESH_KEY = "refreshToken";
+/* user the local data (offline cache and outbox, reminders, timer) belongs to */
+const OWNER_KEY = "dataOwner";
+
+/* warn (and try a silent refresh) this long before the access token expires */
+const WARN_BEFORE_MS = 2 * 60 * 1000;
+/* setTimeout overflows past ~24.8 days; long-lived tokens are left to the 401 interceptor */
+const MAX_DELAY_MS = 2 ** 31 - 1;
+
+export type SessionEvent =
+  | { type: "expiring"; expiresAt: number }
+  | { type: "refreshed" }
+  | { type: "expired"; returnTo: string };
+
+type TokenPayload = { id?: string; _id?: string; exp?: number };
+
+type Listener = (e: SessionEvent) => void;
+const listeners = new Set<Listener>();
+
+/* separate client: refresh calls must not go through the api interceptors */
+const refreshClient = axios.create({ baseURL: API_URL, timeout: API_TIMEOUT });
+
+let refreshing: Promise<string | null> | null = null;
+let warnTimer: ReturnType<typeof setTimeout> | null = null;
+let expireTimer: ReturnType<typeof setTimeout> | null = null;
+
+function emit(e: SessionEvent) {
+  listeners.forEach((l) => l(e));
+}
+
+export function onSessionEvent(listener: Listener) {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/* ---------------------------
+   Token storage
+   --------------------------- */
+
+export function getToken() {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+export function hasSession() {
+  return !!getToken();
+}
+
+export function decodeToken(token: string | null = getToken()): TokenPayload | null {
+  try {
+    if (!token) return null;
+    return JSON.parse(atob(token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+  } catch {
+    return null;
+  }
+}
+
+export function getUserIdFromToken() {
+  const payload = decodeToken();
+  return payload?.id || payload?._id || null;
+}
+
+/* ms timestamp, null when the token carries no `exp` */
+export function getTokenExpiry(token: string | null = getToken()) {
+  const exp = decodeToken(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : null;
+}
+
+export function startSession(token: string, refreshToken?: string | null) {
+  localStorage.setItem(TOKEN_KEY, token);
+  if (refreshToken) localStorage.setItem(REFRESH_KEY, refreshToken);
+  scheduleExpiry();
+}
+
+/*
+ * Called on login: an expired session keeps its local data so the same user finds it again.
+ * True when the new user is someone else, whose session must not see or replay that data.
+ */
+export function claimLocalData() {
+  const user = getUserIdFromToken();
+  const owner = localStorage.getItem(OWNER_KEY);
+  if (user) localStorage.setItem(OWNER_KEY, user);
+  return owner !== user;
+}
+
+export function clearSession() {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_KEY);
+  clearTimers();
+}
+
+/* ---------------------------
+   Refresh
+   --------------------------- */
+
+/* resolves once the pending refresh (if any) has settled */
+export async function waitForRefresh() {
+  if (refreshing) await refreshing;
+}
+
+/* exchanges the refresh token for a new access token; concurrent callers share one request */
+export function refreshSession(): Promise<string | null> {
+  if (refreshing) return refreshing;
+  const refreshToken = localStorage.getItem(REFRESH_KEY);
+  if (!refreshToken) return Promise.resolve(null);
+
+  refreshing = refreshClient
+    .post("/auth/refresh", { refreshToken })
+    .then((res) => {
+      const token: string | undefined = res.data?.token ?? res.data?.accessToken;
+      if (!token) return null;
+      startSession(token, res.data?.refreshToken ?? refreshToken);
+      emit({ type: "refreshed" });
+      return token;
+    })
+    .catch(() => null)
+    .finally(() => { refreshing = null; });
+  return refreshing;
+}
+
+/* ---------------------------
+   Expiry
+   --------------------------- */
+
+function clearTimers() {
+  if (warnTimer) clearTimeout(warnTimer);
+  if (expireTimer) clearTimeout(expireTimer);
+  warnTimer = expireTimer = null;
+}
+
+export function expireSession() {
+  if (!hasSession()) return;
+  clearSession();
+  emit({ type: "expired", returnTo: window.location.pathname + window.location.search });
+}
+
+/* arms the warning / expiry timers for the current token; called on load and after each login or refresh */
+export function scheduleExpiry() {
+  clearTimers();
+  const expiresAt = getTokenExpiry();
+  if (!expiresAt) return;
+
+  const untilWarn = expiresAt - WARN_BEFORE_MS - Date.now();
+  const untilExpire = expiresAt - Date.now();
+  if (untilExpire <= 0) {
+    refreshSession().then((t) => { if (!t) expireSession(); });
+    return;
+  }
+  if (untilExpire > MAX_DELAY_MS) return;
+
+  warnTimer = setTimeout(async () => {
+    const fresh = await refreshSession();
+    if (!fresh) emit({ type: "expiring", expiresAt });
+  }, Math.max(0, untilWarn));
+
+  expireTimer = setTimeout(async () => {
+    const fresh = await refreshSession();
+    if (!fresh) expireSession();
+  }, untilExpire);
+}
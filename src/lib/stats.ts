@@ -0,0 +1,127 @@
+// src/lib/stats.ts
+// Group statistics for the analytics view and the dashboard cards. Computed on the client
+// from the group's tasks: completion, overdue count, lead time, completion per member,
+// workload by weekday and the daily created/done flow (burnup, and burndown as the difference).
+import { DAY_MS, addDays, startOfDay, toDateKey } from "./calendar";
+import { TASK_STATUSES } from "./models";
+import type { Member, Task, TaskStatus } from "./models";
+import { expandTasks } from "./recurrence";
+
+/* days covered by the flow chart, today included */
+export const FLOW_DAYS = 28;
+/* the workload heatmap counts tasks due this many weeks before and after today */
+export const WORKLOAD_WEEKS = 4;
+
+export type TaskSummary = {
+  total: number;
+  done: number;
+  /* done / total; null without tasks */
+  completionRate: number | null;
+  overdue: number;
+  /* mean endDate - startDate of the tasks having both */
+  averageLeadMs: number | null;
+};
+
+export type MemberStats = {
+  member: Member;
+  assigned: number;
+  done: number;
+  rate: number | null;
+};
+
+/* tasks due on each weekday, Monday first; `member` null is "not assigned" */
+export type WorkloadRow = {
+  member: Member | null;
+  days: number[];
+};
+
+/* tasks existing and done at the end of `day` ("YYYY-MM-DD") */
+export type FlowPoint = {
+  day: string;
+  total: number;
+  done: number;
+};
+
+export type GroupStats = TaskSummary & {
+  byStatus: Record<TaskStatus, number>;
+  perMember: MemberStats[];
+  workload: WorkloadRow[];
+  flow: FlowPoint[];
+};
+
+const time = (iso: string | null | undefined) => (iso ? new Date(iso).getTime() : null);
+
+/* only an explicit "Terminée" counts, as for the deadline badges */
+function isDone(t: Task) {
+  return t.status === "terminee";
+}
+
+function isOverdue(t: Task, now: number) {
+  const end = time(t.endDate);
+  return end !== null && !isDone(t) && end <= now;
+}
+
+/* backends without `completedAt` get the end date (or creation) as the day it was done */
+function doneAt(t: Task) {
+  return isDone(t) ? time(t.completedAt ?? t.endDate ?? t.createdAt) ?? 0 : null;
+}
+
+export function summarizeTasks(tasks: Task[], now = Date.now()): TaskSummary {
+  const done = tasks.filter(isDone).length;
+  const leads = tasks
+    .map((t) => (t.startDate && t.endDate ? time(t.endDate)! - time(t.startDate)! : null))
+    .filter((ms): ms is number => ms !== null && ms > 0);
+  return {
+    total: tasks.length,
+    done,
+    completionRate: tasks.length ? done / tasks.length : null,
+    overdue: tasks.filter((t) => isOverdue(t, now)).length,
+    averageLeadMs: leads.length ? leads.reduce((a, b) => a + b, 0) / leads.length : null,
+  };
+}
+
+function workloadRows(tasks: Task[], members: Member[], now: number): WorkloadRow[] {
+  const today = startOfDay(new Date(now));
+  const from = addDays(today, -7 * WORKLOAD_WEEKS);
+  const to = addDays(today, 7 * WORKLOAD_WEEKS);
+  const rows: WorkloadRow[] = [...members, null].map((member) => ({ member, days: [0, 0, 0, 0, 0, 0, 0] }));
+  for (const t of expandTasks(tasks, from, to)) {
+    const due = time(t.endDate ?? t.startDate);
+    if (due === null || due < from.getTime() || due >= to.getTime()) continue;
+    const weekday = (new Date(due).getDay() + 6) % 7;
+    const assigned = rows.filter((r) => r.member && t.assigneeIds.includes(r.member.id));
+    for (const row of assigned.length ? assigned : [rows[rows.length - 1]]) row.days[weekday]++;
+  }
+  return rows;
+}
+
+function flowPoints(tasks: Task[], now: number): FlowPoint[] {
+  const first = addDays(startOfDay(new Date(now)), 1 - FLOW_DAYS);
+  return Array.from({ length: FLOW_DAYS }, (_, i) => {
+    const day = addDays(first, i);
+    const end = day.getTime() + DAY_MS;
+    return {
+      day: toDateKey(day),
+      // tasks without a creation date have always been there
+      total: tasks.filter((t) => (time(t.createdAt) ?? 0) < end).length,
+      done: tasks.filter((t) => { const at = doneAt(t); return at !== null && at < end; }).length,
+    };
+  });
+}
+
+/* `statusOf` gives the displayed status (explicit, or derived from the dates) */
+export function groupStats(tasks: Task[], members: Member[], statusOf: (t: Task) => TaskStatus, now = Date.now()): GroupStats {
+  const byStatus = Object.fromEntries(TASK_STATUSES.map((s) => [s, 0])) as Record<TaskStatus, number>;
+  for (const t of tasks) byStatus[statusOf(t)]++;
+  return {
+    ...summarizeTasks(tasks, now),
+    byStatus,
+    perMember: members.map((member) => {
+      const assigned = tasks.filter((t) => t.assigneeIds.includes(member.id));
+      const done = assigned.filter(isDone).length;
+      return { member, assigned: assigned.length, done, rate: assigned.length ? done / assigned.length : null };
+    }),
+    workload: workloadRows(tasks, members, now),
+    flow: flowPoints(tasks, now),
+  };
+}
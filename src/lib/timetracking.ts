@@ -0,0 +1,146 @@
+// src/lib/timetracking.ts
+// The running task timer and the weekly timesheet. Only one timer runs at a time; it lives in
+// localStorage, so it survives reloads and every open tab sees the same one. Stopping it
+// returns what to record as a time entry (the entries themselves are on the server).
+// The timer belongs to the user who started it: another account never sees or records it.
+import { addDays, toDateKey } from "./calendar";
+import type { Member, TimeEntry } from "./models";
+import { getUserIdFromToken } from "./session";
+
+export type ActiveTimer = {
+  userId: string | null;
+  /* the series for an occurrence of a recurring task */
+  taskId: string;
+  taskTitle: string;
+  groupId: string | null;
+  startedAt: string;
+};
+
+const STORE_KEY = "activeTimer";
+
+const listeners = new Set<() => void>();
+/* parsed once per change (and per user): useSyncExternalStore needs the same object until it changes */
+let cached: ActiveTimer | null | undefined;
+let cachedFor: string | null = null;
+
+function emit() {
+  listeners.forEach((l) => l());
+}
+
+function read(userId: string | null): ActiveTimer | null {
+  try {
+    const raw = localStorage.getItem(STORE_KEY);
+    const t = raw ? (JSON.parse(raw) as ActiveTimer) : null;
+    return t && typeof t.taskId === "string" && typeof t.startedAt === "string" && t.userId === userId ? t : null;
+  } catch {
+    return null;
+  }
+}
+
+function write(timer: ActiveTimer | null) {
+  if (timer) localStorage.setItem(STORE_KEY, JSON.stringify(timer));
+  else localStorage.removeItem(STORE_KEY);
+  cached = timer;
+  cachedFor = getUserIdFromToken();
+  emit();
+}
+
+/* another tab started or stopped the timer */
+function onStorage(e: StorageEvent) {
+  if (e.key !== STORE_KEY && e.key !== null) return;
+  cached = undefined;
+  emit();
+}
+
+/* for useSyncExternalStore */
+export function onTimerChange(listener: () => void) {
+  listeners.add(listener);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    if (!listeners.size) window.removeEventListener("storage", onStorage);
+  };
+}
+
+export function getActiveTimer() {
+  const userId = getUserIdFromToken();
+  if (cached === undefined || cachedFor !== userId) {
+    cached = read(userId);
+    cachedFor = userId;
+  }
+  return cached;
+}
+
+/* replaces the running timer: stop (and record) that one first */
+export function startTimer(task: { id: string; title: string; groupId: string | null }, at = new Date()) {
+  write({ userId: getUserIdFromToken(), taskId: task.id, taskTitle: task.title, groupId: task.groupId, startedAt: at.toISOString() });
+}
+
+/* puts a stopped timer back, when its entry could not be recorded */
+export function resumeTimer(timer: ActiveTimer) {
+  write(timer);
+}
+
+export function stopTimer() {
+  const timer = getActiveTimer();
+  write(null);
+  return timer;
+}
+
+/* ---------------------------
+   Weekly timesheet
+   --------------------------- */
+
+export type TimesheetRow = {
+  /* who, in the per-group sheet; null in the user's own sheet */
+  user: Member | null;
+  taskId: string | null;
+  taskTitle: string;
+  groupId: string | null;
+  /* ms per day, Monday first */
+  days: number[];
+  total: number;
+};
+
+export type Timesheet = {
+  rows: TimesheetRow[];
+  /* ms per day over all rows */
+  days: number[];
+  total: number;
+};
+
+/*
+ * One row per task (and per member when `byUser`), one column per day of the week starting
+ * at `weekStart`. An entry counts for the day it started on.
+ */
+export function buildTimesheet(entries: TimeEntry[], weekStart: Date, byUser: boolean): Timesheet {
+  const keys = Array.from({ length: 7 }, (_, i) => toDateKey(addDays(weekStart, i)));
+  const rows = new Map<string, TimesheetRow>();
+  for (const e of entries) {
+    const day = keys.indexOf(toDateKey(new Date(e.startedAt)));
+    if (day < 0) continue;
+    const key = `${byUser ? e.user?.id ?? "" : ""}|${e.taskId ?? e.taskTitle}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = { user: byUser ? e.user : null, taskId: e.taskId, taskTitle: e.taskTitle, groupId: e.groupId, days: [0, 0, 0, 0, 0, 0, 0], total: 0 };
+      rows.set(key, row);
+    }
+    row.days[day] += e.duration;
+    row.total += e.duration;
+  }
+  const sorted = [...rows.values()].sort((a, b) =>
+    (a.user?.fullname ?? "").localeCompare(b.user?.fullname ?? "") || a.taskTitle.localeCompare(b.taskTitle));
+  const days = keys.map((_, i) => sorted.reduce((sum, r) => sum + r.days[i], 0));
+  return { rows: sorted, days, total: days.reduce((a, b) => a + b, 0) };
+}
+
+/* 5400000 -> "1:30", for spreadsheets (read as a duration) */
+export function formatClock(ms: number) {
+  const minutes = Math.round(ms / 60000);
+  return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/* the week [start, end) as the API wants it */
+export function weekRange(weekStart: Date) {
+  return { from: weekStart.toISOString(), to: addDays(weekStart, 7).toISOString() };
+}
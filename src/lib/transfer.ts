@@ -0,0 +1,364 @@
+// src/lib/transfer.ts
+// CSV and JSON backups of tasks (a group with its members and labels, or the personal tasks),
+// and the parsing side of the import wizard: files become a table of text cells, mapped
+// column by column onto task fields, then checked row by row before anything is sent.
+import { foldText } from "./fuzzy";
+import { PRIORITY_LABELS, STATUS_LABELS, TASK_PRIORITIES, TASK_STATUSES } from "./models";
+import type { ChecklistItem, Group, Label, Member, Task, TaskPriority, TaskStatus } from "./models";
+import { parseRRule } from "./recurrence";
+
+export const EXPORT_FORMAT = "tacheunie";
+export const EXPORT_VERSION = 1;
+
+/* several labels, assignees or checklist items in one cell; see listItem for ";" in an item */
+const LIST_SEPARATOR = "; ";
+
+/* ---------------------------
+   CSV
+   --------------------------- */
+
+function csvCell(v: string) {
+  return /[",;\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+}
+
+/* RFC 4180, with a BOM so spreadsheet programs read it as UTF-8 */
+export function toCsv(rows: string[][]) {
+  return "\uFEFF" + rows.map((r) => r.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+/* the separator used by the header line: "," or ";" (French spreadsheets) or tab */
+function guessDelimiter(text: string) {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [",", ";", "\t"].map((d) => [d, header.split(d).length] as const);
+  return counts.reduce((a, b) => (b[1] > a[1] ? b : a))[0];
+}
+
+/* quoted cells may hold separators, quotes ("") and line breaks; blank lines are dropped */
+export function parseCsv(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const delimiter = guessDelimiter(src);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"' && cell === "") quoted = true;
+    else if (ch === delimiter) { row.push(cell); cell = ""; }
+    else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else cell += ch;
+  }
+  if (cell || row.length) { row.push(cell); rows.push(row); }
+  return rows.filter((r) => r.some((c) => c.trim()));
+}
+
+/* ---------------------------
+   Export
+   --------------------------- */
+
+/* what ids are shown as: names of members and labels */
+export type ExportContext = {
+  members: Member[];
+  labels: Label[];
+};
+
+const TASK_HEADER = ["id", "titre", "description", "statut", "priorité", "début", "fin", "récurrence", "occurrences exclues", "étiquettes", "assignés", "checklist", "créée le"];
+
+/* a list item as written in a cell: "\;" and "\\" stand for a ";" and a "\" of the text */
+function listItem(text: string) {
+  return text.replace(/[\\;]/g, "\\$&");
+}
+
+function joinList(items: string[]) {
+  return items.map(listItem).join(LIST_SEPARATOR);
+}
+
+function memberLabel(id: string, members: Member[]) {
+  return members.find((m) => m.id === id)?.fullname || id;
+}
+
+/* checklist items as "[x] text" / "[ ] text" */
+function checklistText(items: { text: string; done: boolean }[]) {
+  return joinList(items.map((i) => `[${i.done ? "x" : " "}] ${i.text}`));
+}
+
+/* one line per task; statuses and priorities as their keys, so a re-import reads them back exactly */
+export function tasksToCsv(tasks: Task[], ctx: ExportContext) {
+  return toCsv([
+    TASK_HEADER,
+    ...tasks.map((t) => [
+      t.id,
+      t.title,
+      t.description,
+      t.status ?? "",
+      t.priority,
+      t.startDate ?? "",
+      t.endDate ?? "",
+      t.recurrence ?? "",
+      joinList(t.exdates),
+      joinList(t.labelIds.map((id) => ctx.labels.find((l) => l.id === id)?.name ?? id)),
+      joinList(t.assigneeIds.map((id) => memberLabel(id, ctx.members))),
+      checklistText(t.checklist),
+      t.createdAt ?? "",
+    ]),
+  ]);
+}
+
+export function membersToCsv(group: Group) {
+  return toCsv([["id", "nom", "rôle"], ...group.members.map((m) => [m.id, m.fullname ?? "", m.role ?? ""])]);
+}
+
+/* full backup: the group (when there is one) with its members and labels, and every task */
+export function exportJson(tasks: Task[], group: Group | null) {
+  const ctx: ExportContext = { members: group?.members ?? [], labels: group?.labels ?? [] };
+  return JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    group: group && {
+      id: group.id,
+      name: group.name,
+      ownerId: group.ownerId,
+      createdAt: group.createdAt ?? null,
+      members: group.members.map((m) => ({ id: m.id, fullname: m.fullname ?? "", role: m.role ?? null })),
+      labels: group.labels,
+    },
+    tasks: tasks.map((t) => ({
+      id: t.id,
+      title: t.title,
+      description: t.description,
+      status: t.status,
+      priority: t.priority,
+      startDate: t.startDate,
+      endDate: t.endDate,
+      recurrence: t.recurrence,
+      exdates: t.exdates,
+      labels: t.labelIds.map((id) => ctx.labels.find((l) => l.id === id)?.name ?? id),
+      assignees: t.assigneeIds.map((id) => memberLabel(id, ctx.members)),
+      checklist: t.checklist.map((i) => ({ text: i.text, done: i.done })),
+      createdAt: t.createdAt ?? null,
+    })),
+  }, null, 2);
+}
+
+/* ---------------------------
+   Import
+   --------------------------- */
+
+/* a file read as columns and text rows, whatever its format */
+export type ImportTable = {
+  columns: string[];
+  rows: string[][];
+};
+
+/* JSON: one of our exports, or a plain array of task-like objects; lists are joined like in CSV */
+function jsonToTable(data: unknown): ImportTable {
+  const list = Array.isArray(data) ? data : typeof data === "object" && data !== null && Array.isArray((data as { tasks?: unknown }).tasks) ? (data as { tasks: unknown[] }).tasks : null;
+  if (!list) throw new Error("Ce fichier JSON ne contient pas de liste de tâches");
+  const objects = list.filter((x): x is Record<string, unknown> => typeof x === "object" && x !== null);
+  const columns = [...new Set(objects.flatMap((o) => Object.keys(o)))];
+  const text = (v: unknown): string => {
+    if (v === null || v === undefined) return "";
+    if (Array.isArray(v)) {
+      const items = v.filter((x) => x !== null && x !== undefined);
+      if (items.every((x) => typeof x === "object" && "text" in x)) {
+        return checklistText(items.map((x: { text: unknown; done?: unknown }) => ({ text: String(x.text), done: !!x.done })));
+      }
+      return joinList(items.map(text));
+    }
+    return typeof v === "object" ? JSON.stringify(v) : String(v);
+  };
+  return { columns, rows: objects.map((o) => columns.map((c) => text(o[c]))) };
+}
+
+/* throws with a readable message when the file can't be used */
+export function readImportFile(name: string, text: string): ImportTable {
+  if (/\.json$/i.test(name) || /^\s*[[{]/.test(text)) {
+    let data: unknown;
+    try { data = JSON.parse(text.replace(/^\uFEFF/, "")); } catch { throw new Error("JSON invalide"); }
+    return jsonToTable(data);
+  }
+  const [columns = [], ...rows] = parseCsv(text);
+  if (!columns.length) throw new Error("Fichier vide");
+  return { columns: columns.map((c) => c.trim()), rows };
+}
+
+export type ImportField = "title" | "description" | "status" | "priority" | "startDate" | "endDate" | "recurrence" | "exdates" | "labels" | "assignees" | "checklist";
+
+export const IMPORT_FIELDS: ImportField[] = ["title", "description", "status", "priority", "startDate", "endDate", "recurrence", "exdates", "labels", "assignees", "checklist"];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  title: "Titre",
+  description: "Description",
+  status: "Statut",
+  priority: "Priorité",
+  startDate: "Début",
+  endDate: "Fin",
+  recurrence: "Récurrence",
+  exdates: "Occurrences exclues",
+  labels: "Étiquettes",
+  assignees: "Assignés",
+  checklist: "Checklist",
+};
+
+/* column index per field; null = not imported */
+export type ImportMapping = Record<ImportField, number | null>;
+
+/* header names recognized for each field (folded: lowercase, no accents) */
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  title: ["titre", "title", "nom", "name", "summary", "tache"],
+  description: ["description", "desc", "details", "notes"],
+  status: ["statut", "status", "etat", "state"],
+  priority: ["priorite", "priority"],
+  startDate: ["debut", "start", "startdate", "date de debut", "start date"],
+  endDate: ["fin", "end", "enddate", "echeance", "due", "date de fin", "end date"],
+  recurrence: ["recurrence", "rrule", "repetition"],
+  exdates: ["occurrences exclues", "exdates", "exdate", "exclusions"],
+  labels: ["etiquettes", "labels", "tags", "etiquette"],
+  assignees: ["assignes", "assignees", "assigne", "assignee", "responsables"],
+  checklist: ["checklist", "sous-taches", "subtasks"],
+};
+
+export function guessMapping(columns: string[]): ImportMapping {
+  const folded = columns.map((c) => foldText(c).trim());
+  return Object.fromEntries(IMPORT_FIELDS.map((f) => {
+    const i = folded.findIndex((c) => FIELD_ALIASES[f].includes(c));
+    return [f, i < 0 ? null : i];
+  })) as ImportMapping;
+}
+
+/* a row turned into task fields; `problems` block the row, `notes` only tell what was dropped */
+export type ImportedRow = {
+  title: string;
+  description: string;
+  status: TaskStatus | null;
+  priority: TaskPriority;
+  startDate: string | null;
+  endDate: string | null;
+  recurrence: string | null;
+  /* excluded occurrences of `recurrence` (their start, ISO) */
+  exdates: string[];
+  labelIds: string[];
+  assigneeIds: string[];
+  checklist: ChecklistItem[];
+  problems: string[];
+  notes: string[];
+};
+
+/* ISO dates, and the French "31/01/2025" or "31/01/2025 14:30" */
+function parseDateCell(v: string): Date | null {
+  const fr = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:[ T](\d{1,2})[:h](\d{2}))?$/);
+  if (fr) return new Date(Number(fr[3]), Number(fr[2]) - 1, Number(fr[1]), Number(fr[4] ?? 0), Number(fr[5] ?? 0));
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+/* a key ("en-cours") or its label ("En cours"), case and accents ignored */
+function matchChoice<T extends string>(v: string, keys: T[], labels: Record<T, string>): T | null {
+  const f = foldText(v).trim();
+  return keys.find((k) => k === f || foldText(labels[k]) === f) ?? null;
+}
+
+/* items separated by ";" or line breaks; "\;" and "\\" are read back as text (see listItem) */
+function splitList(v: string) {
+  const items: string[] = [];
+  let current = "";
+  for (let i = 0; i < v.length; i++) {
+    const c = v[i];
+    if (c === "\\" && (v[i + 1] === ";" || v[i + 1] === "\\")) current += v[++i];
+    else if (c === ";" || c === "\n") { items.push(current); current = ""; }
+    else current += c;
+  }
+  items.push(current);
+  return items.map((x) => x.trim()).filter(Boolean);
+}
+
+/*
+ * Checks a row against the rules of the task form: a title, and an end after the start.
+ * Past dates are accepted (a backup holds past tasks). Labels and assignees are looked up
+ * by name or id in `ctx`; unknown ones are dropped with a note.
+ */
+export function readImportRow(row: string[], mapping: ImportMapping, ctx: ExportContext): ImportedRow {
+  const cell = (f: ImportField) => (mapping[f] === null ? "" : (row[mapping[f]!] ?? "").trim());
+  const problems: string[] = [];
+  const notes: string[] = [];
+
+  const title = cell("title");
+  if (!title) problems.push("Titre manquant");
+
+  const dates = (["startDate", "endDate"] as const).map((f) => {
+    const v = cell(f);
+    if (!v) return null;
+    const d = parseDateCell(v);
+    if (!d) problems.push(`${IMPORT_FIELD_LABELS[f]} illisible : « ${v} »`);
+    return d;
+  });
+  const [start, end] = dates;
+  if (start && end && end.getTime() < start.getTime()) problems.push("Fin avant le début");
+
+  let status: TaskStatus | null = null;
+  if (cell("status")) {
+    status = matchChoice(cell("status"), TASK_STATUSES, STATUS_LABELS);
+    if (!status) problems.push(`Statut inconnu : « ${cell("status")} »`);
+  }
+  let priority: TaskPriority = "normale";
+  if (cell("priority")) {
+    const p = matchChoice(cell("priority"), TASK_PRIORITIES, PRIORITY_LABELS);
+    if (p) priority = p;
+    else problems.push(`Priorité inconnue : « ${cell("priority")} »`);
+  }
+
+  let recurrence: string | null = cell("recurrence") || null;
+  if (recurrence && !parseRRule(recurrence)) problems.push("Récurrence illisible");
+  if (recurrence && !start) { notes.push("Récurrence ignorée (pas de début)"); recurrence = null; }
+
+  const exdates: string[] = [];
+  for (const v of splitList(cell("exdates"))) {
+    const d = parseDateCell(v);
+    if (d) exdates.push(d.toISOString());
+    else problems.push(`Occurrence exclue illisible : « ${v} »`);
+  }
+  if (exdates.length && !recurrence) notes.push("Occurrences exclues ignorées (pas de récurrence)");
+
+  const lookup = (names: string[], find: (n: string) => string | undefined, what: string) => {
+    const ids: string[] = [];
+    for (const n of names) {
+      const id = find(n);
+      if (id) ids.push(id);
+      else notes.push(`${what} inconnu(e) ignoré(e) : ${n}`);
+    }
+    return [...new Set(ids)];
+  };
+  const labelIds = lookup(splitList(cell("labels")), (n) => ctx.labels.find((l) => l.id === n || foldText(l.name) === foldText(n))?.id, "Étiquette");
+  const assigneeIds = lookup(splitList(cell("assignees")), (n) => ctx.members.find((m) => m.id === n || (!!m.fullname && foldText(m.fullname) === foldText(n)))?.id, "Membre");
+
+  const checklist = splitList(cell("checklist")).map((item, i) => {
+    const m = item.match(/^\[([ xX]?)\]\s*(.*)$/);
+    return { id: `item-${i}`, text: m ? m[2] : item, done: !!m && m[1].toLowerCase() === "x" };
+  });
+
+  return {
+    title,
+    description: cell("description"),
+    status,
+    priority,
+    startDate: start?.toISOString() ?? null,
+    endDate: end?.toISOString() ?? null,
+    recurrence,
+    exdates: recurrence ? exdates : [],
+    labelIds,
+    assigneeIds,
+    checklist,
+    problems,
+    notes,
+  };
+}